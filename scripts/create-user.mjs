@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+// Create an account and print its single-use invite link, e.g. to bootstrap the first admin.
+// Usage: node scripts/create-user.mjs <name> [viewer|editor|admin]
+// Writes the same data/users.json format as src/lib/users.ts (DATA_DIR overrides ./data).
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+
+const ROLES = ["viewer", "editor", "admin"];
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const [name, role = "viewer"] = process.argv.slice(2);
+if (!name || !ROLES.includes(role)) {
+  console.error("Usage: node scripts/create-user.mjs <name> [viewer|editor|admin]");
+  process.exit(1);
+}
+
+const storePath = path.join(process.env.DATA_DIR || path.join(process.cwd(), "data"), "users.json");
+const store = fs.existsSync(storePath)
+  ? JSON.parse(fs.readFileSync(storePath, "utf-8"))
+  : { users: [], invites: [] };
+
+if (store.users.some((user) => !user.revokedAt && user.name.toLowerCase() === name.toLowerCase())) {
+  console.error(`A user named "${name}" already exists`);
+  process.exit(1);
+}
+
+const now = Date.now();
+const user = {
+  id: crypto.randomUUID(),
+  name,
+  role,
+  passwordHash: null,
+  createdAt: new Date(now).toISOString(),
+  revokedAt: null,
+};
+const token = crypto.randomBytes(24).toString("base64url");
+
+store.users.push(user);
+store.invites.push({
+  tokenHash: crypto.createHash("sha256").update(token).digest("hex"),
+  userId: user.id,
+  createdAt: new Date(now).toISOString(),
+  expiresAt: new Date(now + INVITE_TTL_MS).toISOString(),
+  usedAt: null,
+});
+
+fs.mkdirSync(path.dirname(storePath), { recursive: true });
+fs.writeFileSync(storePath, JSON.stringify(store, null, 2));
+console.log(`Created ${role} "${name}". Invite link: /invite/${token}`);
@@ -0,0 +1,220 @@
+#!/usr/bin/env node
+// Suggest people and places for the entity index's alias list.
+// Usage: node scripts/entities.mjs [--min-count <n>] [--llm]
+//
+// The app finds people, places and years in the transcripts itself (src/lib/entities.ts),
+// but only knows the people and places named in public/audio/entities.json plus a short
+// built-in list of places. This script reads public/audio/manifest.json, collects the
+// capitalised names spoken mid-sentence that the alias list doesn't cover yet, and writes
+// them with their counts to public/audio/entities.suggested.json. Move the ones worth
+// keeping into entities.json; the app picks up the change without a restart.
+//
+// With --llm (needs GEMINI_API_KEY, model from GEMINI_MODEL) Gemini sorts the candidates
+// into people and places, groups ones that name the same person or place as aliases, and
+// drops the rest, so the suggestions come out in the entities.json format.
+import fs from "fs";
+import path from "path";
+import { generateJson } from "./lib/gemini.mjs";
+
+const USAGE = "Usage: node scripts/entities.mjs [--min-count <n>] [--llm]";
+
+const AUDIO_DIR = path.join(process.cwd(), "public", "audio");
+const MANIFEST_PATH = path.join(AUDIO_DIR, "manifest.json");
+const ALIAS_LIST_PATH = path.join(AUDIO_DIR, "entities.json");
+const SUGGESTIONS_PATH = path.join(AUDIO_DIR, "entities.suggested.json");
+// The places the app already knows without an alias list
+const BUILT_IN_PLACES_PATH = new URL("../src/lib/builtInPlaces.json", import.meta.url);
+// Longest run of capitalised words taken as one name, e.g. "Guru Nanak Dev"
+const MAX_NAME_WORDS = 4;
+
+// Capitalised for reasons other than being a name
+const NOT_NAMES = new Set(
+  `i i'm i've i'd i'll a an the and but or so then there that this these those he she it we they
+  you my our his her their what when where why how who yes no okay oh well mr mrs dr sir ji
+  monday tuesday wednesday thursday friday saturday sunday january february march april may june
+  july august september october november december english hindi urdu punjabi god`.split(/\s+/)
+);
+
+function parseArgs(argv) {
+  const options = { minCount: 2, llm: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--min-count") {
+      const value = Number(argv[++i]);
+      if (!Number.isInteger(value) || value < 1) {
+        return null;
+      }
+      options.minCount = value;
+    } else if (arg === "--llm") {
+      options.llm = true;
+    } else {
+      return null;
+    }
+  }
+
+  return options;
+}
+
+function readJson(filePath, fallback) {
+  if (!fs.existsSync(filePath)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+}
+
+// Matches normalizeWord in src/lib/search/lexicalSearch.ts, with possessives dropped as the
+// index does
+function normalizeName(name) {
+  return name
+    .split(/\s+/)
+    .map((word) =>
+      word
+        .replace(/['’]s(?=\W*$)/i, "")
+        .toLowerCase()
+        .replace(/[’']/g, "")
+        .replace(/[^\p{L}\p{M}\p{N}]/gu, "")
+    )
+    .filter(Boolean)
+    .join(" ");
+}
+
+function knownNames(aliasList, builtInPlaces) {
+  const known = new Set();
+  for (const entry of [...(aliasList.people ?? []), ...(aliasList.places ?? []), ...builtInPlaces]) {
+    for (const name of [entry.name, ...(entry.aliases ?? [])]) {
+      if (typeof name === "string") known.add(normalizeName(name));
+    }
+  }
+  return known;
+}
+
+const isCapitalised = (word) => /^\p{Lu}/u.test(word) && !NOT_NAMES.has(normalizeName(word));
+
+// Runs of capitalised words that don't start a sentence, so "Lahore" in "we went to Lahore"
+// counts but "Then" at the start of one doesn't
+function collectCandidates(manifest, known) {
+  const counts = new Map();
+  for (const session of manifest.sessions ?? []) {
+    for (const segment of session.segments ?? []) {
+      const words = (segment.transcript?.words ?? [])
+        .map((w) => w.word.trim())
+        .filter((word) => word !== "" && word !== "...");
+
+      for (let i = 1; i < words.length; i++) {
+        if (!isCapitalised(words[i]) || /[.?!]["”']?$/.test(words[i - 1])) continue;
+
+        let end = i;
+        while (end + 1 < words.length && end + 1 - i < MAX_NAME_WORDS && isCapitalised(words[end + 1]) && !/[.,?!;:]$/.test(words[end])) {
+          end++;
+        }
+        const spoken = words
+          .slice(i, end + 1)
+          .join(" ")
+          .replace(/[.,?!;:"”“]+$/, "")
+          .replace(/['’]s$/i, "");
+        const key = normalizeName(spoken);
+        i = end;
+        if (!key || known.has(key)) continue;
+
+        const entry = counts.get(key) ?? { name: spoken, count: 0, segments: new Set() };
+        entry.count++;
+        entry.segments.add(segment.audioFile);
+        counts.set(key, entry);
+      }
+    }
+  }
+
+  return [...counts.values()]
+    .map(({ name, count, segments }) => ({ name, count, segmentCount: segments.size }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+function buildPrompt(candidates) {
+  const listing = candidates.map((c) => `${c.name} (${c.count})`).join("\n");
+  return `These capitalised words and phrases come from transcripts of an elderly man, "Dada" (S. K. Vedi), telling family stories, mostly about the Punjab, Partition and after. Each is followed by how often it is said.
+
+Sort them into people and places. Leave out anything that is neither (organisations, titles on their own, words capitalised by mistake). Where several entries name the same person or place (a nickname, a relationship name like "Chachaji", an old and new name of a city, a misspelling), group them: pick the fullest name as "name" and list the others as "aliases".
+
+Return ONLY valid JSON with no markdown formatting, like:
+{"people": [{"name": "...", "aliases": ["..."]}], "places": [{"name": "...", "aliases": []}]}
+
+Candidates:
+${listing}`;
+}
+
+function cleanEntries(entries) {
+  if (!Array.isArray(entries)) return [];
+  return entries
+    .filter((entry) => entry && typeof entry.name === "string" && entry.name.trim())
+    .map((entry) => ({
+      name: entry.name.trim(),
+      aliases: Array.isArray(entry.aliases) ? entry.aliases.filter((a) => typeof a === "string" && a.trim()) : [],
+    }));
+}
+
+// Ask Gemini to classify the candidates. Returns null if its answer can't be used.
+async function classifyWithModel(candidates) {
+  const result = await generateJson(buildPrompt(candidates), { temperature: 0.1, maxOutputTokens: 8192 });
+  if (!result || typeof result !== "object") {
+    return null;
+  }
+  return { people: cleanEntries(result.people), places: cleanEntries(result.places) };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (options.llm && !process.env.GEMINI_API_KEY) {
+    console.error("--llm needs GEMINI_API_KEY");
+    process.exit(1);
+  }
+  if (!fs.existsSync(MANIFEST_PATH)) {
+    console.error(`No manifest at ${path.relative(process.cwd(), MANIFEST_PATH)}; run scripts/ingest.mjs first`);
+    process.exit(1);
+  }
+
+  const manifest = readJson(MANIFEST_PATH, {});
+  const aliasList = readJson(ALIAS_LIST_PATH, {});
+  const builtInPlaces = JSON.parse(fs.readFileSync(BUILT_IN_PLACES_PATH, "utf-8"));
+  const candidates = collectCandidates(manifest, knownNames(aliasList, builtInPlaces)).filter((c) => c.count >= options.minCount);
+  if (candidates.length === 0) {
+    console.log("No new names found");
+    return;
+  }
+
+  let suggestions = { candidates };
+  if (options.llm) {
+    try {
+      const classified = await classifyWithModel(candidates);
+      if (classified) {
+        suggestions = classified;
+      } else {
+        console.warn("Couldn't use the model's answer; writing the unsorted candidates");
+      }
+    } catch (error) {
+      console.warn(`Model request failed (${error instanceof Error ? error.message : error}); writing the unsorted candidates`);
+    }
+  }
+
+  fs.writeFileSync(SUGGESTIONS_PATH, JSON.stringify(suggestions, null, 2));
+
+  if (suggestions.candidates) {
+    console.log(`${candidates.length} candidate names -> ${path.basename(SUGGESTIONS_PATH)}`);
+    for (const candidate of candidates.slice(0, 20)) {
+      console.log(`  ${String(candidate.count).padStart(4)}  ${candidate.name}`);
+    }
+  } else {
+    console.log(
+      `${suggestions.people.length} people and ${suggestions.places.length} places -> ${path.basename(SUGGESTIONS_PATH)}`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
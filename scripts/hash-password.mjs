@@ -0,0 +1,15 @@
+#!/usr/bin/env node
+// Print a salted hash of the site password for SITE_PASSWORD_HASH.
+// Usage: node scripts/hash-password.mjs <password>
+// Must stay in sync with hashPassword in src/lib/auth.ts.
+import crypto from "crypto";
+
+const password = process.argv[2];
+if (!password) {
+  console.error("Usage: node scripts/hash-password.mjs <password>");
+  process.exit(1);
+}
+
+const salt = crypto.randomBytes(16).toString("hex");
+const hash = crypto.scryptSync(password, salt, 64).toString("hex");
+console.log(`scrypt:${salt}:${hash}`);
@@ -0,0 +1,249 @@
+#!/usr/bin/env node
+// Build or update public/audio/manifest.json from per-session transcripts.
+// Usage: node scripts/ingest.mjs <input-dir> [--manifest <path>] [--replace] [--dry-run]
+//
+// For every session, <input-dir> holds a transcript with word timings and the segment
+// boundaries, named after the session id:
+//   <sessionId>.json           Whisper JSON (word_timestamps) — or —
+//   <sessionId>.vtt            WebVTT; cue text is spread evenly over the cue's duration
+//   <sessionId>.segments.json  [{ "start": 0, "end": 612.4, "subject"?, "description"?, "audioFile"? }]
+// Times are seconds from the start of the session recording. Segments default to the
+// audio files <sessionId>_segment_<n>.mp3.
+//
+// Sessions are merged into the existing manifest, replacing sessions with the same id and
+// keeping subjects and descriptions that were already set; --replace starts from scratch.
+// --dry-run prints what would change without writing. Output follows the Manifest type in
+// src/lib/manifest.ts.
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { findSessionIds, readSessionWords, round } from "./lib/transcripts.mjs";
+
+const USAGE = "Usage: node scripts/ingest.mjs <input-dir> [--manifest <path>] [--replace] [--dry-run]";
+
+function parseArgs(argv) {
+  const options = {
+    inputDir: null,
+    manifestPath: path.join(process.cwd(), "public", "audio", "manifest.json"),
+    replace: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--manifest") {
+      options.manifestPath = path.resolve(argv[++i] || "");
+    } else if (arg === "--replace") {
+      options.replace = true;
+    } else if (arg === "--dry-run") {
+      options.dryRun = true;
+    } else if (!arg.startsWith("--") && !options.inputDir) {
+      options.inputDir = path.resolve(arg);
+    } else {
+      return null;
+    }
+  }
+
+  return options.inputDir ? options : null;
+}
+
+function readBoundaries(inputDir, sessionId) {
+  const boundariesPath = path.join(inputDir, `${sessionId}.segments.json`);
+  if (!fs.existsSync(boundariesPath)) {
+    throw new Error(
+      `${sessionId}: missing ${sessionId}.segments.json with the segment boundaries ` +
+        "(node scripts/segment.mjs drafts one for review)"
+    );
+  }
+
+  const boundaries = JSON.parse(fs.readFileSync(boundariesPath, "utf-8"));
+  if (!Array.isArray(boundaries) || boundaries.length === 0) {
+    throw new Error(`${boundariesPath}: expected a non-empty array`);
+  }
+
+  boundaries.forEach((boundary, i) => {
+    if (typeof boundary.start !== "number" || typeof boundary.end !== "number" || boundary.end <= boundary.start) {
+      throw new Error(`${boundariesPath}[${i}]: needs numeric start < end`);
+    }
+    if (i > 0 && boundary.start < boundaries[i - 1].end) {
+      throw new Error(`${boundariesPath}[${i}]: overlaps the previous segment`);
+    }
+  });
+  return boundaries;
+}
+
+function buildSession(inputDir, sessionId, previous) {
+  const words = readSessionWords(inputDir, sessionId);
+  if (words.length === 0) {
+    throw new Error(`${sessionId}: transcript has no words`);
+  }
+  const boundaries = readBoundaries(inputDir, sessionId);
+
+  const segments = boundaries.map((boundary, i) => {
+    const audioFile = boundary.audioFile || `${sessionId}_segment_${i + 1}.mp3`;
+    const existing = previous.get(audioFile);
+    // A word belongs to the segment it starts in
+    const segmentWords = words.filter((w) => w.start >= boundary.start && w.start < boundary.end);
+
+    return {
+      audioFile,
+      metadata: {
+        subject: boundary.subject ?? existing?.metadata.subject ?? `Session ${sessionId}, part ${i + 1}`,
+        description: boundary.description ?? existing?.metadata.description ?? "",
+        segmentIndex: i + 1,
+        duration: round(boundary.end - boundary.start),
+        startTime: round(boundary.start),
+        endTime: round(boundary.end),
+        ...(existing?.metadata.tags ? { tags: existing.metadata.tags } : {}),
+      },
+      transcript: {
+        text: segmentWords.map((w) => w.word).join(" "),
+        words: segmentWords,
+      },
+    };
+  });
+
+  const unassigned = words.length - segments.reduce((sum, s) => sum + s.transcript.words.length, 0);
+  if (unassigned > 0) {
+    console.warn(`${sessionId}: ${unassigned} words fall outside every segment and were left out`);
+  }
+
+  return {
+    sessionId,
+    totalDuration: round(segments.reduce((sum, s) => sum + s.metadata.duration, 0)),
+    totalWords: segments.reduce((sum, s) => sum + s.transcript.words.length, 0),
+    segments,
+  };
+}
+
+// Merge the sessions read from inputDir into the manifest before, replacing sessions with
+// the same id, or start from an empty manifest with replace
+export function buildManifest(inputDir, sessionIds, before, replace = false) {
+  const previousSegments = new Map(
+    before.sessions.flatMap((session) => session.segments.map((segment) => [segment.audioFile, segment]))
+  );
+  const sessions = replace ? [] : [...before.sessions];
+  for (const sessionId of sessionIds) {
+    const session = buildSession(inputDir, sessionId, previousSegments);
+    const index = sessions.findIndex((s) => s.sessionId === sessionId);
+    if (index === -1) {
+      sessions.push(session);
+    } else {
+      sessions[index] = session;
+    }
+  }
+
+  return { createdAt: new Date().toISOString(), totalSessions: sessions.length, sessions };
+}
+
+function describeSegmentChanges(before, after) {
+  const changes = [];
+  for (const field of ["subject", "description", "startTime", "endTime", "duration", "segmentIndex"]) {
+    if (before.metadata[field] !== after.metadata[field]) {
+      changes.push(`${field} ${JSON.stringify(before.metadata[field])} -> ${JSON.stringify(after.metadata[field])}`);
+    }
+  }
+  if (before.transcript.words.length !== after.transcript.words.length) {
+    changes.push(`words ${before.transcript.words.length} -> ${after.transcript.words.length}`);
+  } else if (JSON.stringify(before.transcript.words) !== JSON.stringify(after.transcript.words)) {
+    changes.push("word text or timings changed");
+  }
+  return changes;
+}
+
+// One line per added, removed or changed session and segment
+function diffManifests(before, after) {
+  const lines = [];
+  const beforeSessions = new Map(before.sessions.map((s) => [s.sessionId, s]));
+  const afterIds = new Set(after.sessions.map((s) => s.sessionId));
+
+  for (const session of before.sessions) {
+    if (!afterIds.has(session.sessionId)) {
+      lines.push(`- session ${session.sessionId} (${session.segments.length} segments)`);
+    }
+  }
+
+  for (const session of after.sessions) {
+    const old = beforeSessions.get(session.sessionId);
+    if (!old) {
+      lines.push(`+ session ${session.sessionId} (${session.segments.length} segments, ${session.totalWords} words)`);
+      continue;
+    }
+
+    const oldSegments = new Map(old.segments.map((s) => [s.audioFile, s]));
+    const newFiles = new Set(session.segments.map((s) => s.audioFile));
+    for (const segment of old.segments) {
+      if (!newFiles.has(segment.audioFile)) {
+        lines.push(`  - ${segment.audioFile}`);
+      }
+    }
+    for (const segment of session.segments) {
+      const oldSegment = oldSegments.get(segment.audioFile);
+      if (!oldSegment) {
+        lines.push(`  + ${segment.audioFile} (${segment.transcript.words.length} words)`);
+        continue;
+      }
+      const changes = describeSegmentChanges(oldSegment, segment);
+      if (changes.length > 0) {
+        lines.push(`  ~ ${segment.audioFile}: ${changes.join(", ")}`);
+      }
+    }
+  }
+
+  return lines;
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const before = fs.existsSync(options.manifestPath)
+    ? JSON.parse(fs.readFileSync(options.manifestPath, "utf-8"))
+    : { createdAt: "", totalSessions: 0, sessions: [] };
+
+  const sessionIds = findSessionIds(options.inputDir);
+  if (sessionIds.length === 0) {
+    console.error(`No transcripts found in ${options.inputDir}`);
+    process.exit(1);
+  }
+
+  const after = buildManifest(options.inputDir, sessionIds, before, options.replace);
+
+  // Audio is served from the manifest's directory
+  const audioDir = path.dirname(options.manifestPath);
+  for (const session of after.sessions) {
+    for (const segment of session.segments) {
+      if (!fs.existsSync(path.join(audioDir, segment.audioFile))) {
+        console.warn(`Warning: ${segment.audioFile} not found in ${audioDir}`);
+      }
+    }
+  }
+
+  const diff = diffManifests(before, after);
+  console.log(diff.length > 0 ? diff.join("\n") : "No changes");
+
+  if (options.dryRun) {
+    console.log("Dry run; manifest not written");
+    return;
+  }
+
+  // Write via a temporary file so the running app never reads a half-written manifest
+  fs.mkdirSync(audioDir, { recursive: true });
+  const tempPath = `${options.manifestPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(after, null, 2));
+  fs.renameSync(tempPath, options.manifestPath);
+  console.log(`Wrote ${after.totalSessions} sessions to ${options.manifestPath}`);
+}
+
+// Only run when started as a script, so the tests can import buildManifest
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  try {
+    main();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
@@ -0,0 +1,108 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { validateManifest } from "../src/lib/manifestSchema";
+import { buildManifest } from "./ingest.mjs";
+
+const EMPTY = { createdAt: "", totalSessions: 0, sessions: [] };
+
+let dir;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "ingest-"));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// A transcript with one word a second, and its segment boundaries
+function writeSession(sessionId, text, boundaries) {
+  const words = text.split(" ").map((word, i) => ({ word, start: i, end: i + 0.8 }));
+  fs.writeFileSync(path.join(dir, `${sessionId}.json`), JSON.stringify({ words }));
+  fs.writeFileSync(path.join(dir, `${sessionId}.segments.json`), JSON.stringify(boundaries));
+}
+
+describe("buildManifest", () => {
+  it("cuts each session's words into its segments, by the time each word starts", () => {
+    writeSession("21aug", "we walked to school then took the train", [
+      { start: 0, end: 3.5, subject: "The walk to school" },
+      { start: 3.5, end: 8, audioFile: "train.mp3" },
+    ]);
+
+    const manifest = buildManifest(dir, ["21aug"], EMPTY);
+    const [session] = manifest.sessions;
+    expect(session).toMatchObject({ sessionId: "21aug", totalDuration: 8, totalWords: 8 });
+    expect(session.segments.map((s) => [s.audioFile, s.metadata.subject, s.transcript.text])).toEqual([
+      ["21aug_segment_1.mp3", "The walk to school", "we walked to school"],
+      ["train.mp3", "Session 21aug, part 2", "then took the train"],
+    ]);
+    expect(session.segments[1].metadata).toMatchObject({ segmentIndex: 2, startTime: 3.5, endTime: 8, duration: 4.5 });
+  });
+
+  it("produces a manifest the app accepts", () => {
+    writeSession("21aug", "we walked to school then took the train", [
+      { start: 0, end: 4 },
+      { start: 4, end: 8 },
+    ]);
+    writeSession("11nov", "the house in Lahore", [{ start: 0, end: 4 }]);
+
+    const result = validateManifest(buildManifest(dir, ["11nov", "21aug"], EMPTY));
+    expect(result.errors).toEqual([]);
+  });
+
+  it("keeps subjects, descriptions and tags already set when a session is rebuilt", () => {
+    writeSession("21aug", "we walked to school", [{ start: 0, end: 4 }]);
+    const before = buildManifest(dir, ["21aug"], EMPTY);
+    Object.assign(before.sessions[0].segments[0].metadata, {
+      subject: "The walk to school",
+      description: "Every morning",
+      tags: ["school"],
+    });
+
+    writeSession("21aug", "we walked to the school", [{ start: 0, end: 5 }]);
+    const [segment] = buildManifest(dir, ["21aug"], before).sessions[0].segments;
+    expect(segment.metadata).toMatchObject({ subject: "The walk to school", description: "Every morning", tags: ["school"] });
+    expect(segment.transcript.text).toBe("we walked to the school");
+  });
+
+  it("replaces sessions with the same id and keeps the others, unless replacing everything", () => {
+    writeSession("21aug", "we walked to school", [{ start: 0, end: 4 }]);
+    writeSession("11nov", "the house in Lahore", [{ start: 0, end: 4 }]);
+    const before = buildManifest(dir, ["11nov", "21aug"], EMPTY);
+
+    writeSession("21aug", "we walked to the school", [{ start: 0, end: 5 }]);
+    const merged = buildManifest(dir, ["21aug"], before);
+    expect(merged.sessions.map((s) => [s.sessionId, s.totalWords])).toEqual([
+      ["11nov", 4],
+      ["21aug", 5],
+    ]);
+    expect(merged.totalSessions).toBe(2);
+
+    expect(buildManifest(dir, ["21aug"], before, true).sessions.map((s) => s.sessionId)).toEqual(["21aug"]);
+  });
+
+  it("warns about words outside every segment", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    writeSession("21aug", "we walked to school", [{ start: 0, end: 2 }]);
+
+    expect(buildManifest(dir, ["21aug"], EMPTY).sessions[0].totalWords).toBe(2);
+    expect(warn).toHaveBeenCalledWith("21aug: 2 words fall outside every segment and were left out");
+  });
+
+  it("rejects missing, backwards and overlapping boundaries", () => {
+    writeSession("21aug", "we walked to school", [{ start: 2, end: 1 }]);
+    expect(() => buildManifest(dir, ["21aug"], EMPTY)).toThrow(/\[0\]: needs numeric start < end/);
+
+    writeSession("21aug", "we walked to school", [
+      { start: 0, end: 3 },
+      { start: 2, end: 4 },
+    ]);
+    expect(() => buildManifest(dir, ["21aug"], EMPTY)).toThrow(/\[1\]: overlaps the previous segment/);
+
+    fs.rmSync(path.join(dir, "21aug.segments.json"));
+    expect(() => buildManifest(dir, ["21aug"], EMPTY)).toThrow(/missing 21aug\.segments\.json/);
+  });
+});
@@ -0,0 +1,18 @@
+// Gemini requests for the scripts' --llm options. Needs GEMINI_API_KEY; the model is
+// GEMINI_MODEL, or the same default the app's search uses.
+import { getGeminiModel } from "../../src/lib/gemini.mjs";
+
+// Send a prompt that asks for JSON back and parse the answer, which may come wrapped in a
+// markdown code fence. Returns null if it isn't valid JSON.
+export async function generateJson(prompt, config) {
+  const { GoogleGenAI } = await import("@google/genai");
+  const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  const response = await ai.models.generateContent({ model: getGeminiModel(), contents: prompt, config });
+
+  const text = (response.text || "").trim().replace(/^```(?:json)?/, "").replace(/```$/, "").trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,104 @@
+// Transcript readers shared by scripts/ingest.mjs and scripts/segment.mjs. Words come out
+// as { word, start, end } in seconds from the start of the session recording, like the
+// Word type in src/lib/manifest.ts.
+import fs from "fs";
+import path from "path";
+
+// Rounded to the millisecond, to keep float noise out of the manifest
+export const round = (seconds) => Math.round(seconds * 1000) / 1000;
+
+function splitText(text) {
+  return text.split(/\s+/).filter((word) => word.length > 0);
+}
+
+// Give each word of a stretch of text an equal share of its time span
+function spreadWords(text, start, end) {
+  const words = splitText(text);
+  const step = words.length > 0 ? (end - start) / words.length : 0;
+  return words.map((word, i) => ({
+    word,
+    start: round(start + i * step),
+    end: round(start + (i + 1) * step),
+  }));
+}
+
+function readWhisperWords(filePath) {
+  const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  // Some tools put the words at the top level, Whisper nests them in segments
+  const chunks = Array.isArray(data.words) ? [{ words: data.words }] : data.segments;
+  if (!Array.isArray(chunks)) {
+    throw new Error(`${filePath}: expected "segments" or "words"`);
+  }
+
+  const words = [];
+  for (const chunk of chunks) {
+    if (Array.isArray(chunk.words)) {
+      for (const w of chunk.words) {
+        const word = String(w.word ?? w.text ?? "").trim();
+        if (word && typeof w.start === "number" && typeof w.end === "number") {
+          words.push({ word, start: round(w.start), end: round(w.end) });
+        }
+      }
+    } else if (typeof chunk.text === "string") {
+      // Transcribed without word_timestamps
+      words.push(...spreadWords(chunk.text, chunk.start, chunk.end));
+    }
+  }
+  return words;
+}
+
+function parseVttTime(value) {
+  const match = value.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{3})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours = "0", minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+function readVttWords(filePath) {
+  const lines = fs.readFileSync(filePath, "utf-8").split(/\r?\n/);
+  const words = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(/^(\S+)\s+-->\s+(\S+)/);
+    if (!timing) {
+      continue;
+    }
+    const start = parseVttTime(timing[1]);
+    const end = parseVttTime(timing[2]);
+    if (start === null || end === null) {
+      throw new Error(`${filePath}:${i + 1}: bad cue timing "${lines[i]}"`);
+    }
+
+    const textLines = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== "") {
+      textLines.push(lines[++i]);
+    }
+    // Drop voice/styling tags such as <v Speaker> and <i>
+    const text = textLines.join(" ").replace(/<[^>]*>/g, "");
+    words.push(...spreadWords(text, start, end));
+  }
+  return words;
+}
+
+export function readSessionWords(inputDir, sessionId) {
+  const whisperPath = path.join(inputDir, `${sessionId}.json`);
+  if (fs.existsSync(whisperPath)) {
+    return readWhisperWords(whisperPath);
+  }
+  return readVttWords(path.join(inputDir, `${sessionId}.vtt`));
+}
+
+// Session ids are the names of the transcript files, e.g. "21aug" for 21aug.json.
+// Boundary files (<sessionId>.segments.json and .segments.draft.json) are skipped.
+export function findSessionIds(inputDir) {
+  const ids = new Set();
+  for (const file of fs.readdirSync(inputDir)) {
+    const match = file.match(/^(.+?)\.(json|vtt)$/);
+    if (match && !/\.segments(\.draft)?\.json$/.test(file)) {
+      ids.add(match[1]);
+    }
+  }
+  return [...ids].sort();
+}
@@ -0,0 +1,106 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { findSessionIds, readSessionWords } from "./transcripts.mjs";
+
+let dir;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "transcripts-"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function write(name, contents) {
+  fs.writeFileSync(path.join(dir, name), typeof contents === "string" ? contents : JSON.stringify(contents));
+}
+
+describe("readSessionWords from Whisper JSON", () => {
+  it("reads the word timings nested in segments, trimmed and rounded", () => {
+    write("21aug.json", {
+      segments: [
+        { words: [{ word: " We", start: 0.1, end: 0.40000001 }, { word: " walked", start: 0.5, end: 0.9 }] },
+        { words: [{ text: "home", start: 1.2, end: 1.6 }] },
+      ],
+    });
+    expect(readSessionWords(dir, "21aug")).toEqual([
+      { word: "We", start: 0.1, end: 0.4 },
+      { word: "walked", start: 0.5, end: 0.9 },
+      { word: "home", start: 1.2, end: 1.6 },
+    ]);
+  });
+
+  it("reads words given at the top level, skipping blanks and untimed words", () => {
+    write("21aug.json", {
+      words: [
+        { word: "We", start: 0, end: 0.4 },
+        { word: " ", start: 0.4, end: 0.5 },
+        { word: "walked" },
+        { word: "home", start: 1, end: 1.4 },
+      ],
+    });
+    expect(readSessionWords(dir, "21aug").map((w) => w.word)).toEqual(["We", "home"]);
+  });
+
+  it("spreads a segment's text over its time when there are no word timings", () => {
+    write("21aug.json", { segments: [{ text: " We walked home", start: 3, end: 4.5 }] });
+    expect(readSessionWords(dir, "21aug")).toEqual([
+      { word: "We", start: 3, end: 3.5 },
+      { word: "walked", start: 3.5, end: 4 },
+      { word: "home", start: 4, end: 4.5 },
+    ]);
+  });
+
+  it("rejects JSON without segments or words", () => {
+    write("21aug.json", { text: "We walked home" });
+    expect(() => readSessionWords(dir, "21aug")).toThrow(/expected "segments" or "words"/);
+  });
+});
+
+describe("readSessionWords from WebVTT", () => {
+  it("spreads each cue's text over the cue, dropping voice and styling tags", () => {
+    const lines = [
+      "WEBVTT",
+      "",
+      "1",
+      "00:00:01.000 --> 00:00:02.000",
+      "<v Dada>We walked</v>",
+      "",
+      "01:00:00,000 --> 01:00:03.000",
+      "all the",
+      "<i>way</i>",
+    ];
+    write("21aug.vtt", lines.join("\r\n"));
+    expect(readSessionWords(dir, "21aug")).toEqual([
+      { word: "We", start: 1, end: 1.5 },
+      { word: "walked", start: 1.5, end: 2 },
+      { word: "all", start: 3600, end: 3601 },
+      { word: "the", start: 3601, end: 3602 },
+      { word: "way", start: 3602, end: 3603 },
+    ]);
+  });
+
+  it("reports the line of a cue with bad timing", () => {
+    write("21aug.vtt", "WEBVTT\n\n00:01.000 --> soon\nWe walked\n");
+    expect(() => readSessionWords(dir, "21aug")).toThrow(/21aug\.vtt:3: bad cue timing/);
+  });
+
+  it("is only used when there is no JSON transcript", () => {
+    write("21aug.vtt", "WEBVTT\n\n00:01.000 --> 00:02.000\nfrom the captions\n");
+    write("21aug.json", { words: [{ word: "from", start: 0, end: 0.4 }] });
+    expect(readSessionWords(dir, "21aug").map((w) => w.word)).toEqual(["from"]);
+  });
+});
+
+describe("findSessionIds", () => {
+  it("lists each transcript's session once, sorted, skipping boundary files", () => {
+    const files = ["21aug.json", "21aug.vtt", "11nov.vtt", "21aug.segments.json", "11nov.segments.draft.json", "notes.txt"];
+    for (const name of files) {
+      write(name, "{}");
+    }
+    expect(findSessionIds(dir)).toEqual(["11nov", "21aug"]);
+  });
+});
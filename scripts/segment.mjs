@@ -0,0 +1,316 @@
+#!/usr/bin/env node
+// Draft segment boundaries, subjects and descriptions for sessions that don't have any yet.
+// Usage: node scripts/segment.mjs <input-dir> [--target-minutes <n>] [--min-minutes <n>] [--llm] [--all]
+//
+// Reads the same <sessionId>.json / .vtt transcripts as scripts/ingest.mjs and writes
+// <sessionId>.segments.draft.json next to them. Review and edit a draft, then rename it to
+// <sessionId>.segments.json and run ingest.mjs to merge it into the manifest.
+//
+// Boundaries are proposed locally: the transcript is split into paragraphs at pauses, and
+// topic changes are scored by how much the vocabulary shifts between the paragraphs
+// either side of a gap (as in TextTiling) plus how long the pause is. The subject is drafted
+// from the segment's most distinctive words. With --llm (needs GEMINI_API_KEY, model from
+// GEMINI_MODEL) Gemini reviews the proposal and may move boundaries and rewrite the text.
+// Sessions that already have a .segments.json are skipped unless --all is given.
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { splitIntoParagraphs } from "../src/lib/paragraphs.mjs";
+import { generateJson } from "./lib/gemini.mjs";
+import { findSessionIds, readSessionWords, round } from "./lib/transcripts.mjs";
+
+const USAGE =
+  "Usage: node scripts/segment.mjs <input-dir> [--target-minutes <n>] [--min-minutes <n>] [--llm] [--all]";
+
+// Paragraphs compared on each side of a gap
+const WINDOW = 3;
+// How much a long pause adds to a gap's score, and the pause that earns all of it
+const PAUSE_WEIGHT = 0.3;
+const LONG_PAUSE_SECONDS = 6;
+
+const STOPWORDS = new Set(
+  `the and that this with have from they were was what when where which there their then them
+  than been being into about would could should also just like very really because said says
+  know think going yes yeah okay well some much many more most other only over such your you
+  our out who how all any can did does had has her him his its not now one two she are but for`.split(/\s+/)
+);
+
+function parseArgs(argv) {
+  const options = { inputDir: null, targetMinutes: 8, minMinutes: 2, llm: false, all: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--target-minutes" || arg === "--min-minutes") {
+      const value = Number(argv[++i]);
+      if (!(value > 0)) {
+        return null;
+      }
+      options[arg === "--target-minutes" ? "targetMinutes" : "minMinutes"] = value;
+    } else if (arg === "--llm") {
+      options.llm = true;
+    } else if (arg === "--all") {
+      options.all = true;
+    } else if (!arg.startsWith("--") && !options.inputDir) {
+      options.inputDir = path.resolve(arg);
+    } else {
+      return null;
+    }
+  }
+
+  return options.inputDir ? options : null;
+}
+
+function formatTime(seconds) {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+// Content words of a paragraph, lower-cased with a light plural strip so "trains" and
+// "train" count together. surfaceForms, if given, records the first spelling of each term.
+function terms(text, surfaceForms) {
+  const result = [];
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    if (token.length > 2 && !STOPWORDS.has(token)) {
+      const term = token.length > 4 && token.endsWith("s") ? token.slice(0, -1) : token;
+      if (surfaceForms && !surfaceForms.has(term)) {
+        surfaceForms.set(term, token);
+      }
+      result.push(term);
+    }
+  }
+  return result;
+}
+
+function countTerms(termLists) {
+  const counts = new Map();
+  for (const list of termLists) {
+    for (const term of list) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function cosine(a, b) {
+  let dot = 0;
+  for (const [term, count] of a) {
+    dot += count * (b.get(term) || 0);
+  }
+  const norm = (m) => Math.sqrt([...m.values()].reduce((sum, c) => sum + c * c, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+// Score each gap between paragraphs i and i+1; higher means more likely a topic change
+function scoreGaps(paragraphs) {
+  const paragraphTerms = paragraphs.map((p) => terms(p.text));
+  const similarities = [];
+  for (let gap = 0; gap < paragraphs.length - 1; gap++) {
+    const left = countTerms(paragraphTerms.slice(Math.max(0, gap - WINDOW + 1), gap + 1));
+    const right = countTerms(paragraphTerms.slice(gap + 1, gap + 1 + WINDOW));
+    similarities.push(cosine(left, right));
+  }
+
+  return similarities.map((similarity, gap) => {
+    // Depth: how far similarity dips here below the peaks on either side
+    const leftPeak = Math.max(...similarities.slice(Math.max(0, gap - WINDOW), gap + 1));
+    const rightPeak = Math.max(...similarities.slice(gap, gap + WINDOW + 1));
+    const depth = leftPeak - similarity + (rightPeak - similarity);
+    const pause = paragraphs[gap + 1].start - paragraphs[gap].end;
+    return depth + PAUSE_WEIGHT * Math.min(pause / LONG_PAUSE_SECONDS, 1);
+  });
+}
+
+// Pick the best-scoring gaps, keeping segments at least minSeconds long, until the session
+// is cut into about duration / targetSeconds segments. Returns the index of the first
+// paragraph of each segment.
+export function chooseSegmentStarts(paragraphs, targetSeconds, minSeconds) {
+  const duration = paragraphs[paragraphs.length - 1].end;
+  const wanted = Math.max(1, Math.round(duration / targetSeconds));
+  const gapTime = (gap) => (paragraphs[gap].end + paragraphs[gap + 1].start) / 2;
+
+  const ranked = scoreGaps(paragraphs)
+    .map((score, gap) => ({ score, gap }))
+    .sort((a, b) => b.score - a.score);
+
+  const chosen = [];
+  for (const { gap } of ranked) {
+    if (chosen.length >= wanted - 1) {
+      break;
+    }
+    const time = gapTime(gap);
+    const fits =
+      time >= minSeconds &&
+      duration - time >= minSeconds &&
+      chosen.every((other) => Math.abs(gapTime(other) - time) >= minSeconds);
+    if (fits) {
+      chosen.push(gap);
+    }
+  }
+
+  return [0, ...chosen.sort((a, b) => a - b).map((gap) => gap + 1)];
+}
+
+// Subject from the words that are frequent in this segment but rare in the rest of the
+// session; description from its opening sentence
+export function draftText(segmentParagraphs, allParagraphs) {
+  const documentFrequency = new Map();
+  for (const paragraph of allParagraphs) {
+    for (const term of new Set(terms(paragraph.text))) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+    }
+  }
+
+  const surfaceForms = new Map();
+  const counts = countTerms(segmentParagraphs.map((p) => terms(p.text, surfaceForms)));
+  const keywords = [...counts]
+    .map(([term, count]) => ({
+      term,
+      score: count * Math.log((allParagraphs.length + 1) / documentFrequency.get(term)),
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ term }) => surfaceForms.get(term));
+
+  const subject =
+    keywords.length === 0
+      ? "Untitled"
+      : keywords.length === 1
+        ? keywords[0]
+        : `${keywords.slice(0, -1).join(", ")} and ${keywords[keywords.length - 1]}`;
+
+  const words = segmentParagraphs.flatMap((p) => p.words.map((w) => w.word));
+  const sentenceEnd = words.findIndex((word, i) => i >= 5 && /[.?!]$/.test(word));
+  const opening =
+    sentenceEnd !== -1 && sentenceEnd < 40 ? words.slice(0, sentenceEnd + 1).join(" ") : `${words.slice(0, 30).join(" ")}…`;
+
+  return { subject: subject.charAt(0).toUpperCase() + subject.slice(1), description: opening };
+}
+
+export function buildDraft(paragraphs, starts, texts = []) {
+  return starts.map((first, i) => {
+    const next = starts[i + 1];
+    const segmentParagraphs = paragraphs.slice(first, next);
+    const drafted = draftText(segmentParagraphs, paragraphs);
+    return {
+      // Cut in the middle of the pause between paragraphs
+      start: i === 0 ? 0 : round((paragraphs[first - 1].end + paragraphs[first].start) / 2),
+      end:
+        next === undefined
+          ? round(paragraphs[paragraphs.length - 1].end + 0.5)
+          : round((paragraphs[next - 1].end + paragraphs[next].start) / 2),
+      subject: texts[i]?.subject || drafted.subject,
+      description: texts[i]?.description || drafted.description,
+    };
+  });
+}
+
+function buildPrompt(paragraphs, starts) {
+  const listing = paragraphs.map((p, i) => `[${i}] (${formatTime(p.start)}) ${p.text}`).join("\n");
+  return `You are helping split a recorded conversation with an elderly man, "Dada" (S. K. Vedi), into topical segments for a family archive.
+The transcript is below as numbered paragraphs with their start times.
+
+A first pass proposed segments starting at paragraphs: ${JSON.stringify(starts)}.
+Adjust the boundaries so each segment covers one story or topic; keep roughly the same number of segments unless a change clearly improves them. The first segment must start at paragraph 0.
+
+For each segment write:
+- subject: a short title (3-8 words) naming the story or topic
+- description: one or two sentences summarising what is told
+
+Return ONLY a valid JSON array with no markdown formatting, in order, like:
+[{"startParagraph": 0, "subject": "...", "description": "..."}]
+
+Transcript:
+${listing}`;
+}
+
+// Ask Gemini to review the proposed segments. Returns null if its answer can't be used.
+async function refineWithModel(paragraphs, starts) {
+  const segments = await generateJson(buildPrompt(paragraphs, starts), { temperature: 0.2, maxOutputTokens: 4096 });
+
+  const valid =
+    Array.isArray(segments) &&
+    segments.length > 0 &&
+    segments[0].startParagraph === 0 &&
+    segments.every(
+      (s, i) =>
+        Number.isInteger(s.startParagraph) &&
+        s.startParagraph < paragraphs.length &&
+        (i === 0 || s.startParagraph > segments[i - 1].startParagraph)
+    );
+  if (!valid) {
+    return null;
+  }
+
+  return {
+    starts: segments.map((s) => s.startParagraph),
+    texts: segments.map((s) => ({
+      subject: typeof s.subject === "string" ? s.subject.trim() : "",
+      description: typeof s.description === "string" ? s.description.trim() : "",
+    })),
+  };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!options) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (options.llm && !process.env.GEMINI_API_KEY) {
+    console.error("--llm needs GEMINI_API_KEY");
+    process.exit(1);
+  }
+
+  const sessionIds = findSessionIds(options.inputDir).filter(
+    (id) => options.all || !fs.existsSync(path.join(options.inputDir, `${id}.segments.json`))
+  );
+  if (sessionIds.length === 0) {
+    console.log("No sessions without segment boundaries");
+    return;
+  }
+
+  for (const sessionId of sessionIds) {
+    // splitIntoParagraphs leaves out blanks and ellipses, so this may be empty even when
+    // the transcript isn't
+    const paragraphs = splitIntoParagraphs(readSessionWords(options.inputDir, sessionId));
+    if (paragraphs.length === 0) {
+      console.warn(`${sessionId}: transcript has no words, skipped`);
+      continue;
+    }
+
+    let starts = chooseSegmentStarts(paragraphs, options.targetMinutes * 60, options.minMinutes * 60);
+    let texts = [];
+
+    if (options.llm) {
+      try {
+        const refined = await refineWithModel(paragraphs, starts);
+        if (refined) {
+          ({ starts, texts } = refined);
+        } else {
+          console.warn(`${sessionId}: couldn't use the model's answer; keeping the local draft`);
+        }
+      } catch (error) {
+        console.warn(`${sessionId}: model request failed (${error instanceof Error ? error.message : error}); keeping the local draft`);
+      }
+    }
+
+    const draft = buildDraft(paragraphs, starts, texts);
+    const draftPath = path.join(options.inputDir, `${sessionId}.segments.draft.json`);
+    fs.writeFileSync(draftPath, JSON.stringify(draft, null, 2));
+
+    console.log(`${sessionId}: ${draft.length} segments -> ${path.basename(draftPath)}`);
+    for (const segment of draft) {
+      console.log(`  ${formatTime(segment.start)}-${formatTime(segment.end)}  ${segment.subject}`);
+    }
+  }
+}
+
+// Only run when started as a script, so the tests can import the drafting functions
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { splitIntoParagraphs } from "../src/lib/paragraphs.mjs";
+import { buildDraft, chooseSegmentStarts, draftText } from "./segment.mjs";
+
+// "Morning" comes up in both, so it says little about either
+const TRAINS =
+  "The train to Lahore left early that morning. The train was late, porters crowded the platform, morning mist on the platform, Lahore behind the train";
+const SCHOOL = "Our school stood beside the canal. Every morning teachers rang the bell and pupils recited lessons";
+
+// A session of paragraphs about each topic in turn, the words a second apart with a
+// two-second pause between paragraphs
+function session(topics, paragraphsEach = 10) {
+  const words = [];
+  let time = 0;
+  for (const text of topics) {
+    for (let p = 0; p < paragraphsEach; p++) {
+      for (const word of text.split(" ")) {
+        words.push({ word, start: time, end: time + 0.8 });
+        time += 1;
+      }
+      time += 2;
+    }
+  }
+  return splitIntoParagraphs(words);
+}
+
+describe("chooseSegmentStarts", () => {
+  it("cuts where the vocabulary changes", () => {
+    const paragraphs = session([TRAINS, SCHOOL]);
+    expect(chooseSegmentStarts(paragraphs, paragraphs[paragraphs.length - 1].end / 2, 60)).toEqual([0, 10]);
+  });
+
+  it("aims for about one segment per target length", () => {
+    const paragraphs = session([TRAINS, SCHOOL, TRAINS]);
+    expect(chooseSegmentStarts(paragraphs, paragraphs[paragraphs.length - 1].end / 3, 60)).toEqual([0, 10, 20]);
+  });
+
+  it("doesn't cut segments shorter than the minimum", () => {
+    const paragraphs = session([TRAINS, SCHOOL]);
+    const duration = paragraphs[paragraphs.length - 1].end;
+    expect(chooseSegmentStarts(paragraphs, duration / 2, duration)).toEqual([0]);
+    expect(chooseSegmentStarts(paragraphs, duration, 60)).toEqual([0]);
+  });
+});
+
+describe("draftText", () => {
+  it("titles a segment with its most distinctive words and describes it by its opening sentence", () => {
+    const paragraphs = session([TRAINS, SCHOOL]);
+    const { subject, description } = draftText(paragraphs.slice(0, 10), paragraphs);
+    expect(subject).toBe("Train, lahore and platform");
+    expect(draftText(paragraphs.slice(10), paragraphs).subject).not.toMatch(/morning/i);
+    expect(description).toBe("The train to Lahore left early that morning.");
+  });
+
+  it("falls back to Untitled and the first words when there is nothing to go on", () => {
+    const paragraphs = session(["Yes yes and so on and so on and so on"], 1);
+    expect(draftText(paragraphs, paragraphs)).toEqual({
+      subject: "Untitled",
+      description: "Yes yes and so on and so on and so on…",
+    });
+  });
+});
+
+describe("buildDraft", () => {
+  it("cuts in the middle of the pause between segments", () => {
+    const paragraphs = session([TRAINS, SCHOOL]);
+    const [first, second] = buildDraft(paragraphs, [0, 10]);
+
+    const cut = (paragraphs[9].end + paragraphs[10].start) / 2;
+    expect(first).toMatchObject({ start: 0, end: cut, subject: "Train, lahore and platform" });
+    expect(second).toMatchObject({ start: cut, end: paragraphs[19].end + 0.5 });
+    expect(second.description).toBe("Our school stood beside the canal.");
+  });
+
+  it("prefers the model's subject and description where it gave them", () => {
+    const paragraphs = session([TRAINS, SCHOOL]);
+    const draft = buildDraft(paragraphs, [0, 10], [
+      { subject: "Leaving Lahore", description: "" },
+      { subject: "", description: "School days by the canal." },
+    ]);
+    expect(draft.map(({ subject, description }) => ({ subject, description }))).toEqual([
+      { subject: "Leaving Lahore", description: "The train to Lahore left early that morning." },
+      { subject: draftText(paragraphs.slice(10), paragraphs).subject, description: "School days by the canal." },
+    ]);
+  });
+});
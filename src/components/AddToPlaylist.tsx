@@ -0,0 +1,148 @@
+import { useState } from "react";
+
+interface PlaylistSummary {
+  id: string;
+  title: string;
+  itemCount: number;
+}
+
+interface AddToPlaylistProps {
+  audioFile: string;
+  // Seconds into the segment mp3
+  start: number;
+  end: number;
+  className?: string;
+}
+
+// "Add to playlist" link that opens a small menu of playlists, including a new one
+export default function AddToPlaylist({ audioFile, start, end, className = "" }: AddToPlaylistProps) {
+  const [open, setOpen] = useState(false);
+  const [playlists, setPlaylists] = useState<PlaylistSummary[] | null>(null);
+  const [newTitle, setNewTitle] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleOpen = async () => {
+    setOpen((wasOpen) => !wasOpen);
+    setStatus(null);
+    if (playlists) return;
+    try {
+      const response = await fetch("/api/playlists");
+      if (!response.ok) {
+        throw new Error("Failed to fetch playlists");
+      }
+      const data = await response.json();
+      setPlaylists(data.playlists);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const addTo = async (playlistId: string, title: string) => {
+    const response = await fetch(`/api/playlists/${playlistId}/items`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ audioFile, start, end, note }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to add to playlist");
+    }
+    setStatus(`Added to “${title}”`);
+    setOpen(false);
+    setNote("");
+    setPlaylists((prev) =>
+      prev ? prev.map((p) => (p.id === playlistId ? { ...p, itemCount: p.itemCount + 1 } : p)) : prev
+    );
+  };
+
+  const handleAdd = async (playlist: PlaylistSummary) => {
+    setSaving(true);
+    try {
+      await addTo(playlist.id, playlist.title);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+    setSaving(true);
+    try {
+      const response = await fetch("/api/playlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title: newTitle }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create playlist");
+      }
+      setPlaylists((prev) => [{ id: data.playlist.id, title: data.playlist.title, itemCount: 0 }, ...(prev ?? [])]);
+      setNewTitle("");
+      await addTo(data.playlist.id, data.playlist.title);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <span className={`relative inline-block ${className}`}>
+      <button onClick={handleOpen} className="hover:text-stone-800">
+        Add to playlist
+      </button>
+      {status && !open && <span className="ml-2 text-amber-700">{status}</span>}
+      {open && (
+        <div className="absolute z-30 right-0 mt-2 w-72 p-3 bg-white border border-stone-200 rounded-lg shadow-lg text-sm text-stone-600 normal-case tracking-normal">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            className="w-full mb-3 px-2 py-1 border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+          />
+          {!playlists && !status && <div className="italic text-stone-400">Loading playlists...</div>}
+          {status && <div className="mb-2 text-red-600">{status}</div>}
+          {playlists && (
+            <ul className="max-h-48 overflow-y-auto mb-3 divide-y divide-stone-100">
+              {playlists.map((playlist) => (
+                <li key={playlist.id}>
+                  <button
+                    onClick={() => handleAdd(playlist)}
+                    disabled={saving}
+                    className="w-full flex justify-between gap-2 py-1.5 text-left hover:text-amber-700 disabled:text-stone-300"
+                  >
+                    <span className="truncate">{playlist.title}</span>
+                    <span className="text-stone-400 tabular-nums">{playlist.itemCount}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form onSubmit={handleCreate} className="flex gap-2">
+            <input
+              type="text"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              placeholder="New playlist"
+              className="flex-1 min-w-0 px-2 py-1 border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+            />
+            <button
+              type="submit"
+              disabled={saving || !newTitle.trim()}
+              className="px-2 py-1 bg-stone-800 text-white rounded hover:bg-stone-700 disabled:bg-stone-300"
+            >
+              Create
+            </button>
+          </form>
+        </div>
+      )}
+    </span>
+  );
+}
@@ -1,47 +1,96 @@
-import { useRef, useState, useEffect } from "react";
+import Link from "next/link";
+import { useRef, useState, useEffect, useMemo, useCallback } from "react";
+import { formatTime } from "@/lib/timeFormat";
+import BookmarkButton from "./BookmarkButton";
+import { isPersonalAccount, useCurrentUser } from "./PasswordGate";
+import { usePlayer, usePlayerTime } from "./PlayerProvider";
+import SegmentComments, { CommentThread, fetchComments } from "./SegmentComments";
+import SegmentMetadataForm, { SegmentMetadata } from "./SegmentMetadataForm";
 import Subtitles from "./Subtitles";
+import TranscriptPanel from "./TranscriptPanel";
 
 interface AudioCardProps {
   audioFile: string;
   subject: string;
   description: string;
+  tags?: string[];
   duration: number;
-  currentlyPlaying: string | null;
-  onPlay: (audioFile: string) => void;
-  onTimeUpdate?: (audioFile: string, time: number) => void;
+  // Lets the player carry on into the session's next segment
+  sessionId?: string;
   autoPlayAt?: number;
   onAutoPlayComplete?: () => void;
+  // Matched passage (seconds into this file) to highlight during playback
+  passage?: { start: number; end: number };
+  onPassageClear?: () => void;
+  // Share link token, for listeners who aren't signed in
+  shareToken?: string;
+  // Called after an editor saves new subject, description or tags
+  onMetadataUpdate?: (audioFile: string, metadata: SegmentMetadata) => void;
 }
 
-function formatDuration(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
-}
+type PassageEndBehavior = "continue" | "stop" | "loop";
+
+const PASSAGE_END_OPTIONS: { value: PassageEndBehavior; label: string }[] = [
+  { value: "stop", label: "Stop at end" },
+  { value: "loop", label: "Loop" },
+  { value: "continue", label: "Keep playing" },
+];
+
+// Listening for less than this doesn't count as having started a segment
+const MIN_STARTED_SECONDS = 10;
+
+// Seconds between two time updates during normal playback, even at double speed
+const MAX_PLAYBACK_STEP = 2;
 
 export default function AudioCard({
   audioFile,
   subject,
   description,
+  tags = [],
   duration,
-  currentlyPlaying,
-  onPlay,
-  onTimeUpdate,
+  sessionId,
   autoPlayAt,
   onAutoPlayComplete,
+  passage,
+  onPassageClear,
+  shareToken,
+  onMetadataUpdate,
 }: AudioCardProps) {
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const currentUser = useCurrentUser();
+  const {
+    track: playingTrack,
+    isPlaying: playerIsPlaying,
+    progress,
+    play,
+    toggle,
+    pause,
+    seek,
+  } = usePlayer();
   const cardRef = useRef<HTMLElement>(null);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
+  // Player position at the last update, to notice playback crossing the end of the passage
+  const lastTimeRef = useRef(0);
   const [hasAutoPlayed, setHasAutoPlayed] = useState(false);
+  const [passageEndBehavior, setPassageEndBehavior] = useState<PassageEndBehavior>("stop");
+  const [isEditingMetadata, setIsEditingMetadata] = useState(false);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [showComments, setShowComments] = useState(false);
+  const [comments, setComments] = useState<CommentThread[] | null>(null);
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  // Passage picked in the transcript for a new comment; otherwise it goes at the playback position
+  const [commentAnchor, setCommentAnchor] = useState<{ start: number; end: number } | null>(null);
 
-  // Pause this audio if another one starts playing
-  useEffect(() => {
-    if (currentlyPlaying && currentlyPlaying !== audioFile && audioRef.current && !audioRef.current.paused) {
-      audioRef.current.pause();
-    }
-  }, [currentlyPlaying, audioFile]);
+  const track = useMemo(
+    () => ({ audioFile, subject, sessionId, shareToken }),
+    [audioFile, subject, sessionId, shareToken]
+  );
+  const isCurrent = playingTrack?.audioFile === audioFile;
+  const isPlaying = isCurrent && playerIsPlaying;
+  // Only the card that is playing re-renders as the time changes
+  const currentTime = usePlayerTime(isCurrent);
+  const saved = progress[audioFile];
+  const isStarted = saved !== undefined && !saved.completed && saved.position >= MIN_STARTED_SECONDS;
+  // Where playback would pick up, shown on the scrubber while another segment plays
+  const displayTime = isCurrent ? currentTime : isStarted ? saved.position : 0;
 
   // Reset hasAutoPlayed when autoPlayAt changes (new search result clicked)
   useEffect(() => {
@@ -52,47 +101,85 @@ export default function AudioCard({
 
   // Handle auto-play from shared link or search result
   useEffect(() => {
-    if (autoPlayAt !== undefined && !hasAutoPlayed && audioRef.current && cardRef.current) {
+    if (autoPlayAt !== undefined && !hasAutoPlayed && cardRef.current) {
       setHasAutoPlayed(true);
       
       // Scroll to this card
       cardRef.current.scrollIntoView({ behavior: "smooth", block: "center" });
       
-      // Wait a moment for scroll, then set time and play
+      // Wait a moment for scroll, then start playing from the requested time
       setTimeout(() => {
-        if (audioRef.current) {
-          audioRef.current.currentTime = autoPlayAt;
-          audioRef.current.play().catch((err) => {
-            // Auto-play might be blocked by browser
-            console.log("Auto-play blocked:", err);
-          });
-        }
+        play(track, autoPlayAt);
         // Notify parent that auto-play has been handled
         onAutoPlayComplete?.();
       }, 500);
     }
-  }, [autoPlayAt, hasAutoPlayed, onAutoPlayComplete]);
+  }, [autoPlayAt, hasAutoPlayed, onAutoPlayComplete, play, track]);
 
-  const handleTimeUpdate = () => {
-    if (audioRef.current) {
-      const time = audioRef.current.currentTime;
-      setCurrentTime(time);
-      onTimeUpdate?.(audioFile, time);
+  // Only react to playback crossing the end of the passage, so seeking past it still works.
+  // Time updates come a few times a second; a bigger jump is a seek.
+  useEffect(() => {
+    if (!isCurrent) return;
+    const previousTime = lastTimeRef.current;
+    lastTimeRef.current = currentTime;
+
+    if (
+      passage &&
+      previousTime < passage.end &&
+      currentTime >= passage.end &&
+      currentTime - previousTime < MAX_PLAYBACK_STEP
+    ) {
+      if (passageEndBehavior === "stop") {
+        pause();
+      } else if (passageEndBehavior === "loop") {
+        seek(passage.start);
+      }
     }
+  }, [isCurrent, currentTime, passage, passageEndBehavior, pause, seek]);
+
+  const canEdit = currentUser?.role === "editor" || currentUser?.role === "admin";
+
+  const loadComments = useCallback(() => {
+    fetchComments(audioFile)
+      .then(setComments)
+      .catch((err) => console.error("Failed to load comments:", err));
+  }, [audioFile]);
+
+  // Comments load once the segment is played or opened, like its transcript, rather than
+  // for every card on the page. Shared links don't see them.
+  const wantsComments = !shareToken && (isCurrent || showTranscript || showComments);
+  useEffect(() => {
+    if (wantsComments && comments === null) {
+      loadComments();
+    }
+  }, [wantsComments, comments, loadComments]);
+
+  // Jump to a time in this segment, starting it in the player if something else is loaded
+  const handleSeek = (time: number) => {
+    play(track, time);
   };
 
-  const handlePlay = () => {
-    setIsPlaying(true);
-    onPlay(audioFile);
+  // Open a comment thread, playing from where it is anchored
+  const handleCommentClick = (id: string) => {
+    const thread = comments?.find((c) => c.id === id);
+    setShowComments(true);
+    setActiveCommentId(id);
+    if (thread?.anchor) {
+      handleSeek(thread.anchor.start);
+    }
   };
 
-  const handlePause = () => {
-    setIsPlaying(false);
+  const handleComment = (range: { start: number; end: number }) => {
+    setCommentAnchor(range);
+    setShowComments(true);
   };
 
-  const handleEnded = () => {
-    setIsPlaying(false);
-    setCurrentTime(0);
+  const handlePlayPause = () => {
+    if (isCurrent) {
+      toggle();
+    } else {
+      play(track);
+    }
   };
 
   return (
@@ -110,35 +197,198 @@ export default function AudioCard({
             {subject}
           </h2>
         </div>
-        <span className="text-sm text-stone-400 tabular-nums">
-          {formatDuration(duration)}
-        </span>
+        <div className="flex items-center gap-3">
+          {canEdit && onMetadataUpdate && !isEditingMetadata && (
+            <button
+              onClick={() => setIsEditingMetadata(true)}
+              className="text-xs text-stone-400 hover:text-stone-600"
+            >
+              Edit details
+            </button>
+          )}
+          {canEdit && (
+            <Link
+              href={`/edit/${encodeURIComponent(audioFile)}`}
+              className="text-xs text-stone-400 hover:text-stone-600"
+            >
+              Edit transcript
+            </Link>
+          )}
+          {saved?.completed && (
+            <span className="text-xs text-amber-700" title="You've heard this one to the end">
+              &#10003; Listened
+            </span>
+          )}
+          {isStarted && !isCurrent && (
+            <span className="text-xs text-amber-700 tabular-nums">
+              {formatTime(Math.max(0, duration - saved.position))} left
+            </span>
+          )}
+          <span className="text-sm text-stone-400 tabular-nums">
+            {formatTime(duration)}
+          </span>
+        </div>
       </div>
       
-      <p className="text-stone-600 text-sm mb-5 leading-relaxed line-clamp-2">
-        {description}
-      </p>
-
-      <audio
-        ref={audioRef}
-        src={`/audio/${audioFile}`}
-        className="w-full h-10 rounded-lg"
-        controls
-        preload="none"
-        onTimeUpdate={handleTimeUpdate}
-        onPlay={handlePlay}
-        onPause={handlePause}
-        onEnded={handleEnded}
-        style={{
-          filter: "sepia(20%) saturate(70%) hue-rotate(330deg)",
-        }}
-      />
-
-      <Subtitles
-        audioFile={audioFile}
-        currentTime={currentTime}
-        isPlaying={isPlaying}
-      />
+      {isEditingMetadata && onMetadataUpdate ? (
+        <SegmentMetadataForm
+          audioFile={audioFile}
+          initial={{ subject, description, tags }}
+          onSaved={(metadata) => {
+            setIsEditingMetadata(false);
+            onMetadataUpdate(audioFile, metadata);
+          }}
+          onCancel={() => setIsEditingMetadata(false)}
+        />
+      ) : (
+        <>
+          <p className="text-stone-600 text-sm mb-5 leading-relaxed line-clamp-2">
+            {description}
+          </p>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 -mt-3 mb-5">
+              {tags.map((tag) => (
+                <span
+                  key={tag}
+                  className="px-2 py-0.5 text-xs text-stone-500 bg-stone-100 rounded-full"
+                >
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex items-center gap-3">
+        <button
+          onClick={handlePlayPause}
+          className="w-9 h-9 shrink-0 rounded-full bg-stone-800 text-white text-sm hover:bg-stone-700 transition-colors"
+          aria-label={isPlaying ? "Pause" : "Play"}
+        >
+          {isPlaying ? "❚❚" : "▶"}
+        </button>
+        <div className="relative flex-1 flex items-center">
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={1}
+            value={Math.min(displayTime, duration)}
+            onChange={(e) => handleSeek(Number(e.target.value))}
+            className="w-full accent-amber-600"
+            aria-label={`Seek in ${subject}`}
+          />
+          {comments?.map(
+            (thread, index) =>
+              thread.anchor && (
+                <button
+                  key={thread.id}
+                  onClick={() => handleCommentClick(thread.id)}
+                  style={{ left: `${(Math.min(thread.anchor.start, duration) / duration) * 100}%` }}
+                  className="absolute -top-2 -ml-1 w-2 h-2 rounded-full bg-sky-500 hover:bg-sky-700"
+                  title={`[${index + 1}] ${thread.deleted ? "Comment deleted" : thread.text}`}
+                  aria-label={`Comment ${index + 1} at ${formatTime(thread.anchor.start)}`}
+                />
+              )
+          )}
+        </div>
+        <span className="text-xs text-stone-400 tabular-nums">
+          {formatTime(displayTime)}
+        </span>
+      </div>
+
+      {passage && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-stone-500">
+          <span className="italic">
+            Found passage {formatTime(passage.start)}–{formatTime(passage.end)}
+          </span>
+          {PASSAGE_END_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setPassageEndBehavior(option.value)}
+              className={`px-2 py-1 rounded-full border transition-colors ${
+                passageEndBehavior === option.value
+                  ? "border-amber-400 bg-amber-50 text-amber-700"
+                  : "border-stone-200 hover:border-stone-300"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          {!shareToken && (
+            <a
+              href={`/api/clips?audioFile=${encodeURIComponent(audioFile)}&start=${passage.start}&end=${passage.end}`}
+              download
+              className="px-2 py-1 text-stone-400 hover:text-stone-600 transition-colors"
+            >
+              Download clip
+            </a>
+          )}
+          {onPassageClear && (
+            <button
+              onClick={onPassageClear}
+              className="px-2 py-1 text-stone-400 hover:text-stone-600 transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="mt-3 flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => setShowTranscript((show) => !show)}
+          className="text-xs text-stone-400 hover:text-stone-600"
+        >
+          {showTranscript ? "Hide transcript" : "Read transcript"}
+        </button>
+        {!shareToken && (
+          <button
+            onClick={() => setShowComments((show) => !show)}
+            className="text-xs text-stone-400 hover:text-stone-600"
+          >
+            {showComments ? "Hide comments" : comments?.length ? `Comments (${comments.length})` : "Comments"}
+          </button>
+        )}
+        {!shareToken && isPersonalAccount(currentUser) && (
+          <BookmarkButton audioFile={audioFile} time={displayTime} />
+        )}
+      </div>
+
+      {showTranscript ? (
+        <TranscriptPanel
+          audioFile={audioFile}
+          currentTime={currentTime}
+          isPlaying={isPlaying}
+          onSeek={handleSeek}
+          highlightRange={passage}
+          shareToken={shareToken}
+          comments={comments ?? undefined}
+          onCommentClick={handleCommentClick}
+          onComment={shareToken ? undefined : handleComment}
+        />
+      ) : (
+        <Subtitles
+          audioFile={audioFile}
+          currentTime={currentTime}
+          isPlaying={isPlaying}
+          highlightRange={passage}
+          shareToken={shareToken}
+        />
+      )}
+
+      {showComments && comments && (
+        <SegmentComments
+          audioFile={audioFile}
+          threads={comments}
+          anchor={commentAnchor ?? { start: Math.floor(currentTime), end: Math.floor(currentTime) }}
+          onClearAnchor={commentAnchor ? () => setCommentAnchor(null) : undefined}
+          activeId={activeCommentId}
+          onSeek={handleSeek}
+          onChanged={loadComments}
+        />
+      )}
     </article>
   );
 }
@@ -0,0 +1,75 @@
+import { useState } from "react";
+import { formatTime } from "@/lib/timeFormat";
+
+interface BookmarkButtonProps {
+  audioFile: string;
+  // Seconds into the segment mp3 to bookmark, usually the playback position
+  time: number;
+}
+
+// "Bookmark 1:23" link that saves the moment to "My bookmarks", with an optional label
+export default function BookmarkButton({ audioFile, time }: BookmarkButtonProps) {
+  // The moment being labelled; fixed when the link is clicked, so playback can carry on
+  const [draft, setDraft] = useState<{ time: number; label: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    setSaving(true);
+    try {
+      const response = await fetch("/api/bookmarks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ audioFile, time: draft.time, label: draft.label }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save bookmark");
+      }
+      setStatus(`Bookmarked ${formatTime(draft.time)}`);
+      setDraft(null);
+    } catch (err) {
+      setStatus(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (draft) {
+    return (
+      <form onSubmit={handleSave} className="flex items-center gap-2 text-xs">
+        <input
+          type="text"
+          value={draft.label}
+          onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+          placeholder={`Label for ${formatTime(draft.time)} (optional)`}
+          autoFocus
+          className="w-48 px-2 py-0.5 border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+        />
+        <button type="submit" disabled={saving} className="text-amber-700 hover:text-amber-800">
+          Save
+        </button>
+        <button type="button" onClick={() => setDraft(null)} className="text-stone-400 hover:text-stone-600">
+          Cancel
+        </button>
+      </form>
+    );
+  }
+
+  return (
+    <span className="text-xs">
+      <button
+        onClick={() => {
+          setDraft({ time: Math.floor(time), label: "" });
+          setStatus(null);
+        }}
+        className="text-stone-400 hover:text-stone-600"
+      >
+        Bookmark {formatTime(time)}
+      </button>
+      {status && <span className="ml-2 text-amber-700">{status}</span>}
+    </span>
+  );
+}
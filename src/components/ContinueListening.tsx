@@ -0,0 +1,67 @@
+import { formatSessionLabel } from "@/lib/sessionDates";
+import { formatTime } from "@/lib/timeFormat";
+import { usePlayer } from "./PlayerProvider";
+
+interface Segment {
+  audioFile: string;
+  sessionId: string;
+  subject: string;
+}
+
+interface ContinueListeningProps {
+  segments: Segment[];
+}
+
+// Stories started but not finished
+const MAX_ITEMS = 3;
+
+// Ignore segments that were only sampled for a few seconds
+const MIN_STARTED_SECONDS = 10;
+
+// The most recently played unfinished segments, each resuming where it was left
+export default function ContinueListening({ segments }: ContinueListeningProps) {
+  const { progress, play } = usePlayer();
+
+  const bySegment = new Map(segments.map((segment) => [segment.audioFile, segment]));
+  const items = Object.entries(progress)
+    .filter(
+      ([audioFile, entry]) =>
+        !entry.completed && entry.position >= MIN_STARTED_SECONDS && bySegment.has(audioFile)
+    )
+    .sort(([, a], [, b]) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, MAX_ITEMS)
+    .map(([audioFile, entry]) => ({ segment: bySegment.get(audioFile)!, entry }));
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-12">
+      <h2 className="mb-4 text-sm text-stone-500 uppercase tracking-widest">Continue listening</h2>
+      <div className="grid gap-3 sm:grid-cols-3">
+        {items.map(({ segment, entry }) => (
+          <button
+            key={segment.audioFile}
+            onClick={() =>
+              play({ audioFile: segment.audioFile, subject: segment.subject, sessionId: segment.sessionId })
+            }
+            className="text-left bg-white rounded-lg border border-stone-200 p-4 shadow-sm hover:shadow-md transition-shadow"
+          >
+            <div className="text-stone-800 line-clamp-2">{segment.subject}</div>
+            <div className="mt-1 text-xs text-stone-400 italic">{formatSessionLabel(segment.sessionId)}</div>
+            <div className="mt-3 h-1 rounded-full bg-stone-100 overflow-hidden">
+              <div
+                className="h-full bg-amber-500"
+                style={{ width: `${Math.min(100, (entry.position / entry.duration) * 100)}%` }}
+              />
+            </div>
+            <div className="mt-1 text-xs text-stone-400 tabular-nums">
+              {formatTime(entry.position)} of {formatTime(entry.duration)}
+            </div>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -1,23 +1,92 @@
-import { useState, useEffect } from "react";
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
 
 interface PasswordGateProps {
   children: React.ReactNode;
 }
 
-const AUTH_KEY = "narrated_auth";
+interface CurrentUserProviderProps {
+  children: React.ReactNode;
+}
 
-export default function PasswordGate({ children }: PasswordGateProps) {
+export interface CurrentUser {
+  id: string;
+  name: string;
+  role: "viewer" | "editor" | "admin";
+}
+
+interface Session {
+  // null until the server has answered
+  isAuthenticated: boolean | null;
+  user: CurrentUser | null;
+  signedIn: (user: CurrentUser) => void;
+}
+
+const SessionContext = createContext<Session | null>(null);
+
+function useSession(): Session {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error("PasswordGate must be used inside CurrentUserProvider");
+  }
+  return session;
+}
+
+// The signed-in user, or null for visitors who haven't signed in
+export function useCurrentUser(): CurrentUser | null {
+  const session = useContext(SessionContext);
+  return session?.isAuthenticated ? session.user : null;
+}
+
+// Whether this is someone's own account rather than the shared family password, whose
+// sign-ins can't be told apart
+export function isPersonalAccount(user: CurrentUser | null): user is CurrentUser {
+  return user !== null && user.id !== "family";
+}
+
+// Asks the server who is signed in. It sits at the top of _app, above the gate, so public
+// pages and the player can see the user too.
+export function CurrentUserProvider({ children }: CurrentUserProviderProps) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
-  const [password, setPassword] = useState("");
-  const [error, setError] = useState("");
-  const [loading, setLoading] = useState(false);
+  const [user, setUser] = useState<CurrentUser | null>(null);
 
-  // Check if already authenticated on mount
+  // Check if the session cookie is still valid on mount - it is HttpOnly, so ask the server
   useEffect(() => {
-    const stored = sessionStorage.getItem(AUTH_KEY);
-    setIsAuthenticated(stored === "true");
+    const checkSession = async () => {
+      try {
+        const response = await fetch("/api/auth");
+        const data = await response.json();
+        setUser(data.user);
+        setIsAuthenticated(data.authenticated === true);
+      } catch {
+        setIsAuthenticated(false);
+      }
+    };
+
+    checkSession();
   }, []);
 
+  const session = useMemo<Session>(
+    () => ({
+      isAuthenticated,
+      user,
+      signedIn: (signedInUser) => {
+        setUser(signedInUser);
+        setIsAuthenticated(true);
+      },
+    }),
+    [isAuthenticated, user]
+  );
+
+  return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+}
+
+export default function PasswordGate({ children }: PasswordGateProps) {
+  const { isAuthenticated, signedIn } = useSession();
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError("");
@@ -27,14 +96,17 @@ export default function PasswordGate({ children }: PasswordGateProps) {
       const response = await fetch("/api/auth", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ password }),
+        body: JSON.stringify({ name, password }),
       });
 
       if (response.ok) {
-        sessionStorage.setItem(AUTH_KEY, "true");
-        setIsAuthenticated(true);
+        const data = await response.json();
+        signedIn(data.user);
+      } else if (response.status === 429) {
+        setError("Too many attempts. Please wait a few minutes and try again.");
+        setPassword("");
       } else {
-        setError("Incorrect password");
+        setError(name ? "Incorrect name or passphrase" : "Incorrect password");
         setPassword("");
       }
     } catch {
@@ -66,17 +138,26 @@ export default function PasswordGate({ children }: PasswordGateProps) {
               Stories from the Life of S. K. Vedi
             </h1>
             <p className="text-sm text-stone-500 italic">
-              Enter password to continue
+              Enter your name and passphrase, or the family password
             </p>
           </div>
 
           <form onSubmit={handleSubmit} className="space-y-4">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Your name (optional)"
+              autoComplete="username"
+              autoFocus
+              className="w-full px-4 py-3 border border-stone-300 rounded-lg text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white text-center text-base"
+            />
             <input
               type="password"
               value={password}
               onChange={(e) => setPassword(e.target.value)}
-              placeholder="Password"
-              autoFocus
+              placeholder={name ? "Passphrase" : "Password"}
+              autoComplete="current-password"
               className="w-full px-4 py-3 border border-stone-300 rounded-lg text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white text-center text-base"
             />
             
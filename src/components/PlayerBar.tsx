@@ -0,0 +1,109 @@
+import { formatSessionLabel } from "@/lib/sessionDates";
+import { formatTime } from "@/lib/timeFormat";
+import { usePlayer, usePlayerTime } from "./PlayerProvider";
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+const SKIP_SECONDS = 15;
+
+// Controls for the app-wide player, pinned to the bottom of every page once something plays
+export default function PlayerBar() {
+  const player = usePlayer();
+  const currentTime = usePlayerTime();
+
+  if (!player.track) {
+    return null;
+  }
+
+  const buttonClass = "px-2 py-1 text-stone-500 hover:text-stone-800 disabled:text-stone-300 transition-colors";
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the bar */}
+      <div className="h-28" />
+      <div
+        className="fixed bottom-0 inset-x-0 z-40 border-t border-stone-200 bg-white/95 backdrop-blur-sm"
+        style={{ fontFamily: "var(--font-source-serif), Georgia, serif" }}
+      >
+        <div className="max-w-5xl mx-auto px-8 py-3">
+          <div className="flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="text-stone-800 truncate">{player.track.subject}</div>
+              {player.track.sessionId && (
+                <div className="text-xs text-stone-400 italic">
+                  {formatSessionLabel(player.track.sessionId)}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-1 text-sm">
+              <button
+                onClick={player.previous}
+                className={buttonClass}
+                aria-label="Previous segment"
+                title="Previous segment"
+              >
+                &#9198;
+              </button>
+              <button
+                onClick={() => player.skip(-SKIP_SECONDS)}
+                className={buttonClass}
+                aria-label={`Back ${SKIP_SECONDS} seconds`}
+              >
+                &minus;{SKIP_SECONDS}s
+              </button>
+              <button
+                onClick={player.toggle}
+                className="mx-1 w-10 h-10 rounded-full bg-stone-800 text-white hover:bg-stone-700 transition-colors"
+                aria-label={player.isPlaying ? "Pause" : "Play"}
+              >
+                {player.isPlaying ? "❚❚" : "▶"}
+              </button>
+              <button
+                onClick={() => player.skip(SKIP_SECONDS)}
+                className={buttonClass}
+                aria-label={`Forward ${SKIP_SECONDS} seconds`}
+              >
+                +{SKIP_SECONDS}s
+              </button>
+              <button
+                onClick={player.next}
+                disabled={!player.hasNext}
+                className={buttonClass}
+                aria-label="Next segment"
+                title="Next segment"
+              >
+                &#9197;
+              </button>
+            </div>
+            <select
+              value={player.playbackRate}
+              onChange={(e) => player.setPlaybackRate(Number(e.target.value))}
+              className="text-sm text-stone-500 bg-transparent border border-stone-200 rounded px-1 py-0.5"
+              aria-label="Playback speed"
+            >
+              {PLAYBACK_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate}&times;
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-2 flex items-center gap-3 text-xs text-stone-400 tabular-nums">
+            <span>{formatTime(currentTime)}</span>
+            <input
+              type="range"
+              min={0}
+              max={player.duration || 0}
+              step={1}
+              value={Math.min(currentTime, player.duration || 0)}
+              onChange={(e) => player.seek(Number(e.target.value))}
+              className="flex-1 accent-amber-600"
+              aria-label="Seek"
+            />
+            <span>{formatTime(player.duration)}</span>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
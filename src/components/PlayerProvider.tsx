@@ -0,0 +1,525 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { COMPLETION_MARGIN_SECONDS, type ListeningProgress } from "@/lib/listeningProgress";
+import { audioUrl, captionsUrl } from "@/lib/playbackUrls";
+import { useCurrentUser } from "./PasswordGate";
+
+export interface PlayerTrack {
+  audioFile: string;
+  subject: string;
+  // Playback carries on through the rest of this session's segments
+  sessionId?: string;
+  // Share link token, for listeners who aren't signed in. The audio is then just the
+  // shared clip, so times count from its start.
+  shareToken?: string;
+  // Shared playlist token, likewise
+  playlistToken?: string;
+  // A passage of the segment: playback starts at start and moves on at end
+  start?: number;
+  end?: number;
+}
+
+interface Player {
+  track: PlayerTrack | null;
+  isPlaying: boolean;
+  duration: number;
+  playbackRate: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  // Where the listener got to in each segment, keyed by audioFile
+  progress: Record<string, ListeningProgress>;
+  // Start a track, or jump within it if it is already loaded. Without a time, a track
+  // resumes from where it was left unless it was heard to the end.
+  play: (track: PlayerTrack, at?: number) => void;
+  // Play these tracks back to back, in place of the session, starting with tracks[index]
+  playList: (tracks: PlayerTrack[], index?: number) => void;
+  toggle: () => void;
+  pause: () => void;
+  seek: (time: number) => void;
+  skip: (seconds: number) => void;
+  next: () => void;
+  previous: () => void;
+  setPlaybackRate: (rate: number) => void;
+}
+
+interface PlayerProviderProps {
+  children: React.ReactNode;
+}
+
+// Going back within this many seconds of the start goes to the previous segment instead
+const RESTART_THRESHOLD = 3;
+
+// Record the position after this many seconds of playback, as well as on pause
+const PROGRESS_INTERVAL = 10;
+
+// Progress is kept in the browser per account, and also on the server for personal accounts
+function progressStorageKey(userId: string | undefined): string {
+  return `listening-progress:${userId ?? "guest"}`;
+}
+
+function readStoredProgress(key: string): Record<string, ListeningProgress> {
+  if (typeof window === "undefined") {
+    return {};
+  }
+  try {
+    return JSON.parse(window.localStorage.getItem(key) ?? "{}");
+  } catch {
+    return {};
+  }
+}
+
+function saveProgressToServer(audioFile: string, entry: ListeningProgress) {
+  fetch(`/api/progress/${encodeURIComponent(audioFile)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(entry),
+    // Still sent when the tab is closing
+    keepalive: true,
+  }).catch((err) => {
+    console.error("Failed to save progress:", err);
+  });
+}
+
+// The playback position changes a few times a second while playing, so it is kept out of
+// the player context, which every card reads, and components subscribe to it separately
+interface PlayerClock {
+  getTime: () => number;
+  setTime: (time: number) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+function createPlayerClock(): PlayerClock {
+  let time = 0;
+  const listeners = new Set<() => void>();
+  return {
+    getTime: () => time,
+    setTime: (next) => {
+      if (next === time) return;
+      time = next;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+const PlayerContext = createContext<Player | null>(null);
+const PlayerClockContext = createContext<PlayerClock | null>(null);
+
+// The app-wide player; throws outside PlayerProvider
+export function usePlayer(): Player {
+  const player = useContext(PlayerContext);
+  if (!player) {
+    throw new Error("usePlayer must be used inside PlayerProvider");
+  }
+  return player;
+}
+
+// Seconds into the current track's mp3, re-rendering as it plays. While enabled is false it
+// stays at 0 without re-rendering, for components that only follow their own track.
+export function usePlayerTime(enabled = true): number {
+  const clock = useContext(PlayerClockContext);
+  if (!clock) {
+    throw new Error("usePlayerTime must be used inside PlayerProvider");
+  }
+  return useSyncExternalStore(
+    clock.subscribe,
+    () => (enabled ? clock.getTime() : 0),
+    () => 0
+  );
+}
+
+// Owns the one <audio> element for the whole app. It lives in _app, so playback carries on
+// across page changes, and it moves on to the next segment of the session when one ends.
+export default function PlayerProvider({ children }: PlayerProviderProps) {
+  const currentUser = useCurrentUser();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  // Where to start the next track once its metadata has loaded
+  const pendingStartRef = useRef(0);
+  const [track, setTrack] = useState<PlayerTrack | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [clock] = useState(createPlayerClock);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRateState] = useState(1);
+  const [queue, setQueue] = useState<PlayerTrack[]>([]);
+  // Set while playing a list such as a playlist, which replaces the session queue
+  const [trackList, setTrackList] = useState<{ tracks: PlayerTrack[]; index: number } | null>(null);
+
+  const storageKey = progressStorageKey(currentUser?.id);
+  const [progress, setProgress] = useState<Record<string, ListeningProgress>>(() =>
+    readStoredProgress(storageKey)
+  );
+  // The provider sits above the password gate, so the user may only become known after it
+  // mounts, or change on signing in. Switch to that account's progress before it is saved.
+  const [progressKey, setProgressKey] = useState(storageKey);
+  if (progressKey !== storageKey) {
+    setProgressKey(storageKey);
+    setProgress(readStoredProgress(storageKey));
+  }
+  // Position of the current track when it was last recorded
+  const lastRecordedRef = useRef(0);
+  // Whether the server keeps this listener's progress
+  const serverSyncRef = useRef(false);
+
+  // Merge in progress saved from other devices, and upload anything newer from this one
+  const userId = currentUser?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    const syncProgress = async () => {
+      try {
+        const response = await fetch("/api/progress");
+        if (!response.ok) {
+          // Shared family sign-ins keep their progress in the browser only
+          return;
+        }
+        const data: { progress: Record<string, ListeningProgress> } = await response.json();
+        serverSyncRef.current = true;
+
+        // Local storage is kept in step with state, so it holds this browser's latest
+        const merged = { ...data.progress };
+        for (const [audioFile, entry] of Object.entries(readStoredProgress(storageKey))) {
+          const remote = data.progress[audioFile];
+          if (!remote || entry.updatedAt > remote.updatedAt) {
+            merged[audioFile] = entry;
+            saveProgressToServer(audioFile, entry);
+          }
+        }
+        setProgress(merged);
+      } catch (err) {
+        console.error("Failed to load progress:", err);
+      }
+    };
+
+    syncProgress();
+  }, [userId, storageKey]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(progress));
+    } catch {
+      // Storage full or disabled; progress just won't survive a reload
+    }
+  }, [storageKey, progress]);
+
+  const recordProgress = useCallback(
+    (recorded: PlayerTrack, position: number, length: number, completed = false) => {
+      // Shared clips and playlists are one-off visits
+      if (recorded.shareToken || recorded.playlistToken || !(length > 0)) return;
+      lastRecordedRef.current = position;
+
+      const entry: ListeningProgress = {
+        position: Math.min(position, length),
+        duration: length,
+        completed:
+          completed ||
+          progress[recorded.audioFile]?.completed === true ||
+          position >= length - COMPLETION_MARGIN_SECONDS,
+        updatedAt: new Date().toISOString(),
+      };
+      setProgress((prev) => ({ ...prev, [recorded.audioFile]: entry }));
+      if (serverSyncRef.current) {
+        saveProgressToServer(recorded.audioFile, entry);
+      }
+    },
+    [progress]
+  );
+
+  // Closing the tab doesn't pause the audio, so record the position on the way out
+  useEffect(() => {
+    const handlePageHide = () => {
+      const audio = audioRef.current;
+      if (track && audio && !audio.paused) {
+        recordProgress(track, audio.currentTime, audio.duration);
+      }
+    };
+    window.addEventListener("pagehide", handlePageHide);
+    return () => window.removeEventListener("pagehide", handlePageHide);
+  }, [track, recordProgress]);
+
+  // Load the session's segments, in segmentIndex order, to play through. Shared clips
+  // play on their own.
+  const sessionId = !trackList && track && !track.shareToken ? track.sessionId : undefined;
+  useEffect(() => {
+    if (!sessionId) return;
+    let cancelled = false;
+
+    const fetchQueue = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+        if (!response.ok) {
+          throw new Error("Failed to fetch session");
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          setQueue(
+            data.segments.map((segment: PlayerTrack) => ({
+              audioFile: segment.audioFile,
+              subject: segment.subject,
+              sessionId: segment.sessionId,
+            }))
+          );
+        }
+      } catch (err) {
+        console.error("Failed to load session queue:", err);
+      }
+    };
+
+    fetchQueue();
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  // Start each newly chosen track; the src has changed by the time this runs
+  useEffect(() => {
+    if (track && audioRef.current) {
+      audioRef.current.play().catch((err) => {
+        console.log("Playback blocked:", err);
+      });
+    }
+  }, [track]);
+
+  const position = trackList
+    ? trackList.index
+    : track && sessionId
+      ? queue.findIndex((t) => t.audioFile === track.audioFile)
+      : -1;
+  const tracks = trackList ? trackList.tracks : queue;
+  const nextTrack = position >= 0 ? tracks[position + 1] : undefined;
+  const previousTrack = position > 0 ? tracks[position - 1] : undefined;
+
+  const seek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, Math.min(time, audio.duration || time));
+    clock.setTime(audio.currentTime);
+  }, [clock]);
+
+  const startTrack = useCallback(
+    (next: PlayerTrack, at?: number) => {
+      const audio = audioRef.current;
+      if (audio && track?.audioFile === next.audioFile) {
+        if (at !== undefined) {
+          audio.currentTime = at;
+          clock.setTime(at);
+        }
+        // Another passage of the same file keeps the audio loaded
+        setTrack(next);
+        audio.play().catch((err) => {
+          console.log("Playback blocked:", err);
+        });
+        return;
+      }
+
+      // Keep the place in the track being left
+      if (track && audio && audio.currentTime > 0) {
+        recordProgress(track, audio.currentTime, audio.duration);
+      }
+
+      const saved = progress[next.audioFile];
+      const start = at ?? (saved && !saved.completed ? saved.position : 0);
+      pendingStartRef.current = start;
+      lastRecordedRef.current = start;
+      clock.setTime(start);
+      setDuration(0);
+      setTrack(next);
+    },
+    [track, progress, recordProgress, clock]
+  );
+
+  const play = useCallback(
+    (next: PlayerTrack, at?: number) => {
+      setTrackList(null);
+      startTrack(next, at);
+    },
+    [startTrack]
+  );
+
+  const playList = useCallback(
+    (list: PlayerTrack[], index = 0) => {
+      if (!list[index]) return;
+      setTrackList({ tracks: list, index });
+      startTrack(list[index], list[index].start ?? 0);
+    },
+    [startTrack]
+  );
+
+  // Step through the list or session
+  const moveBy = useCallback(
+    (offset: 1 | -1) => {
+      const target = offset === 1 ? nextTrack : previousTrack;
+      if (!target) return;
+      if (trackList) {
+        setTrackList({ ...trackList, index: trackList.index + offset });
+        startTrack(target, target.start ?? 0);
+      } else {
+        startTrack(target);
+      }
+    },
+    [nextTrack, previousTrack, trackList, startTrack]
+  );
+
+  const pause = useCallback(() => {
+    audioRef.current?.pause();
+  }, []);
+
+  const toggle = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      // A passage that has played to its end starts over
+      if (track?.end !== undefined && audio.currentTime >= track.end) {
+        audio.currentTime = track.start ?? 0;
+      }
+      audio.play().catch((err) => {
+        console.log("Playback blocked:", err);
+      });
+    } else {
+      audio.pause();
+    }
+  }, [track]);
+
+  const skip = useCallback(
+    (seconds: number) => {
+      if (audioRef.current) {
+        seek(audioRef.current.currentTime + seconds);
+      }
+    },
+    [seek]
+  );
+
+  const next = useCallback(() => moveBy(1), [moveBy]);
+
+  const previous = useCallback(() => {
+    const from = track?.start ?? 0;
+    if (previousTrack && (audioRef.current?.currentTime ?? 0) - from < RESTART_THRESHOLD) {
+      moveBy(-1);
+    } else {
+      seek(from);
+    }
+  }, [track, previousTrack, moveBy, seek]);
+
+  // The default rate carries over when the next track loads
+  const setPlaybackRate = useCallback((rate: number) => {
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = rate;
+      audioRef.current.playbackRate = rate;
+    }
+    setPlaybackRateState(rate);
+  }, []);
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    setDuration(audio.duration);
+    if (pendingStartRef.current > 0) {
+      audio.currentTime = pendingStartRef.current;
+      pendingStartRef.current = 0;
+    }
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    clock.setTime(audio.currentTime);
+    if (track && Math.abs(audio.currentTime - lastRecordedRef.current) >= PROGRESS_INTERVAL) {
+      recordProgress(track, audio.currentTime, audio.duration);
+    }
+    if (track?.end !== undefined && audio.currentTime >= track.end && !audio.paused) {
+      if (nextTrack) {
+        moveBy(1);
+      } else {
+        audio.pause();
+      }
+    }
+  };
+
+  const handlePause = () => {
+    const audio = audioRef.current;
+    setIsPlaying(false);
+    if (track && audio && !audio.ended) {
+      recordProgress(track, audio.currentTime, audio.duration);
+    }
+  };
+
+  const handleEnded = () => {
+    const audio = audioRef.current;
+    if (track && audio) {
+      recordProgress(track, audio.duration, audio.duration, true);
+    }
+    if (nextTrack) {
+      moveBy(1);
+    } else {
+      setIsPlaying(false);
+    }
+  };
+
+  const value = useMemo<Player>(
+    () => ({
+      track,
+      isPlaying,
+      duration,
+      playbackRate,
+      hasNext: nextTrack !== undefined,
+      hasPrevious: previousTrack !== undefined,
+      progress,
+      play,
+      playList,
+      toggle,
+      pause,
+      seek,
+      skip,
+      next,
+      previous,
+      setPlaybackRate,
+    }),
+    [
+      track,
+      isPlaying,
+      duration,
+      playbackRate,
+      nextTrack,
+      previousTrack,
+      progress,
+      play,
+      playList,
+      toggle,
+      pause,
+      seek,
+      skip,
+      next,
+      previous,
+      setPlaybackRate,
+    ]
+  );
+
+  return (
+    <PlayerContext.Provider value={value}>
+      <PlayerClockContext.Provider value={clock}>{children}</PlayerClockContext.Provider>
+      <audio
+        ref={audioRef}
+        src={track ? audioUrl(track.audioFile, track) : undefined}
+        preload="auto"
+        onTimeUpdate={handleTimeUpdate}
+        onLoadedMetadata={handleLoadedMetadata}
+        onPlay={() => setIsPlaying(true)}
+        onPause={handlePause}
+        onEnded={handleEnded}
+      >
+        {track && (
+          <track
+            key={track.audioFile}
+            kind="captions"
+            src={captionsUrl(track.audioFile, track)}
+            srcLang="en"
+            label="Transcript"
+          />
+        )}
+      </audio>
+    </PlayerContext.Provider>
+  );
+}
@@ -0,0 +1,184 @@
+import { useMemo, useState } from "react";
+import { formatSessionLabel } from "@/lib/sessionDates";
+import { formatTime } from "@/lib/timeFormat";
+import { usePlayer, usePlayerTime, type PlayerTrack } from "./PlayerProvider";
+import Subtitles from "./Subtitles";
+
+export interface PlaylistItem {
+  id: string;
+  audioFile: string;
+  start: number;
+  end: number;
+  note: string;
+  subject: string;
+  sessionId: string;
+}
+
+interface PlaylistItemsProps {
+  items: PlaylistItem[];
+  // Shared playlist token, for listeners who aren't signed in
+  playlistToken?: string;
+  // Editing controls, shown when given
+  onMove?: (itemId: string, offset: 1 | -1) => void;
+  onSaveNote?: (itemId: string, note: string) => Promise<void>;
+  onRemove?: (itemId: string) => void;
+}
+
+// Subtitles for the passage playing. Kept apart so only they follow the playback time,
+// not the whole list.
+function PlayingSubtitles({ item, playlistToken }: { item: PlaylistItem; playlistToken?: string }) {
+  const { isPlaying } = usePlayer();
+  const currentTime = usePlayerTime();
+  return (
+    <Subtitles
+      audioFile={item.audioFile}
+      currentTime={currentTime}
+      isPlaying={isPlaying}
+      highlightRange={{ start: item.start, end: item.end }}
+      playlistToken={playlistToken}
+    />
+  );
+}
+
+// A playlist's passages in order, with "Play all" and subtitles for the one playing
+export default function PlaylistItems({ items, playlistToken, onMove, onSaveNote, onRemove }: PlaylistItemsProps) {
+  const player = usePlayer();
+  const [editingNote, setEditingNote] = useState<{ itemId: string; note: string } | null>(null);
+  const [savingNote, setSavingNote] = useState(false);
+
+  const tracks = useMemo<PlayerTrack[]>(
+    () =>
+      items.map((item) => ({
+        audioFile: item.audioFile,
+        subject: item.subject,
+        sessionId: item.sessionId,
+        playlistToken,
+        start: item.start,
+        end: item.end,
+      })),
+    [items, playlistToken]
+  );
+
+  const isCurrent = (item: PlaylistItem) =>
+    player.track?.audioFile === item.audioFile &&
+    player.track.start === item.start &&
+    player.track.end === item.end;
+
+  const handleSaveNote = async () => {
+    if (!editingNote || !onSaveNote) return;
+    setSavingNote(true);
+    try {
+      await onSaveNote(editingNote.itemId, editingNote.note);
+      setEditingNote(null);
+    } finally {
+      setSavingNote(false);
+    }
+  };
+
+  if (items.length === 0) {
+    return <div className="text-stone-400 italic">Nothing here yet.</div>;
+  }
+
+  return (
+    <div>
+      <button
+        onClick={() => player.playList(tracks)}
+        className="mb-6 px-4 py-2 text-sm bg-stone-800 text-white rounded-lg hover:bg-stone-700"
+      >
+        &#9654; Play all
+      </button>
+
+      <ol className="space-y-4">
+        {items.map((item, index) => {
+          const current = isCurrent(item);
+          return (
+            <li
+              key={item.id}
+              className={`bg-white rounded-lg border p-5 ${current ? "border-amber-300" : "border-stone-200"}`}
+            >
+              <div className="flex items-start gap-4">
+                <button
+                  onClick={() => (current ? player.toggle() : player.playList(tracks, index))}
+                  aria-label={current && player.isPlaying ? "Pause" : "Play"}
+                  className="shrink-0 w-9 h-9 rounded-full bg-stone-800 text-white text-sm hover:bg-stone-700"
+                >
+                  {current && player.isPlaying ? "❚❚" : "▶"}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <h2 className="text-lg text-stone-800">{item.subject}</h2>
+                  <p className="text-xs text-stone-400">
+                    {formatSessionLabel(item.sessionId)} &middot; {formatTime(item.start)}–{formatTime(item.end)}
+                  </p>
+                  {editingNote?.itemId === item.id ? (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        type="text"
+                        value={editingNote.note}
+                        onChange={(e) => setEditingNote({ itemId: item.id, note: e.target.value })}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+                      />
+                      <button
+                        onClick={handleSaveNote}
+                        disabled={savingNote}
+                        className="px-2 py-1 text-sm bg-stone-800 text-white rounded hover:bg-stone-700 disabled:bg-stone-300"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingNote(null)}
+                        className="px-2 py-1 text-sm text-stone-500 hover:text-stone-800"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    item.note && <p className="mt-2 text-sm text-stone-600 italic">{item.note}</p>
+                  )}
+                </div>
+                {(onMove || onSaveNote || onRemove) && (
+                  <div className="shrink-0 flex gap-2 text-xs text-stone-400">
+                    {onMove && (
+                      <>
+                        <button
+                          onClick={() => onMove(item.id, -1)}
+                          disabled={index === 0}
+                          aria-label="Move up"
+                          className="hover:text-stone-800 disabled:text-stone-200"
+                        >
+                          &uarr;
+                        </button>
+                        <button
+                          onClick={() => onMove(item.id, 1)}
+                          disabled={index === items.length - 1}
+                          aria-label="Move down"
+                          className="hover:text-stone-800 disabled:text-stone-200"
+                        >
+                          &darr;
+                        </button>
+                      </>
+                    )}
+                    {onSaveNote && (
+                      <button
+                        onClick={() => setEditingNote({ itemId: item.id, note: item.note })}
+                        className="hover:text-stone-800"
+                      >
+                        Note
+                      </button>
+                    )}
+                    {onRemove && (
+                      <button onClick={() => onRemove(item.id)} className="hover:text-red-600">
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {current && <PlayingSubtitles item={item} playlistToken={playlistToken} />}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -1,20 +1,18 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
+import { formatTime } from "@/lib/timeFormat";
+import AddToPlaylist from "./AddToPlaylist";
 
 interface SearchResult {
   audioFile: string;
   timestamp: number;
+  start: number;
+  end: number;
   subject: string;
   quote: string;
 }
 
 interface SearchBoxProps {
-  onResultClick: (audioFile: string, timestamp: number) => void;
-}
-
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
+  onResultClick: (audioFile: string, start: number, end: number) => void;
 }
 
 export default function SearchBox({ onResultClick }: SearchBoxProps) {
@@ -24,37 +22,50 @@ export default function SearchBox({ onResultClick }: SearchBoxProps) {
   const [error, setError] = useState<string | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
 
-  const handleSearch = async (e: React.FormEvent) => {
+  const eventSourceRef = useRef<EventSource | null>(null);
+
+  // Close any open stream when the component unmounts
+  useEffect(() => {
+    return () => eventSourceRef.current?.close();
+  }, []);
+
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (!query.trim()) return;
 
+    // Cancel the in-flight query, if any - the server stops when the connection closes
+    eventSourceRef.current?.close();
+
     setLoading(true);
     setError(null);
+    setResults([]);
     setHasSearched(true);
 
-    try {
-      const response = await fetch("/api/search", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: query }),
-      });
+    const source = new EventSource(`/api/search/stream?question=${encodeURIComponent(query)}`);
+    eventSourceRef.current = source;
 
-      if (!response.ok) {
-        throw new Error("Search failed");
+    const finish = (message: string | null) => {
+      source.close();
+      if (eventSourceRef.current === source) {
+        eventSourceRef.current = null;
+        setError(message);
+        setLoading(false);
       }
-
-      const data = await response.json();
-      setResults(data.results || []);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Search failed");
-      setResults([]);
-    } finally {
-      setLoading(false);
-    }
+    };
+
+    // Results arrive one at a time as soon as the server has located them
+    source.addEventListener("result", (event) => {
+      const result: SearchResult = JSON.parse((event as MessageEvent).data);
+      setResults((previous) => [...previous, result]);
+    });
+    source.addEventListener("done", () => finish(null));
+    source.addEventListener("failure", () => finish("Search failed"));
+    // Connection errors, including non-200 responses
+    source.onerror = () => finish("Search failed");
   };
 
   const handleResultClick = (result: SearchResult) => {
-    onResultClick(result.audioFile, result.timestamp);
+    onResultClick(result.audioFile, result.start, result.end);
     // Scroll to the audio card
     const element = document.getElementById(result.audioFile);
     if (element) {
@@ -75,7 +86,7 @@ export default function SearchBox({ onResultClick }: SearchBoxProps) {
         />
         <button
           type="submit"
-          disabled={loading || !query.trim()}
+          disabled={!query.trim()}
           className="w-full px-6 py-3 bg-stone-800 text-white rounded-lg hover:bg-stone-700 disabled:bg-stone-400 disabled:cursor-not-allowed transition-colors"
           style={{ fontFamily: "var(--font-source-serif), Georgia, serif" }}
         >
@@ -89,7 +100,7 @@ export default function SearchBox({ onResultClick }: SearchBoxProps) {
         </div>
       )}
 
-      {loading && (
+      {loading && results.length === 0 && (
         <div className="mt-6 text-center text-stone-500 italic">
           Analyzing transcripts with AI...
         </div>
@@ -101,35 +112,43 @@ export default function SearchBox({ onResultClick }: SearchBoxProps) {
         </div>
       )}
 
-      {!loading && results.length > 0 && (
+      {results.length > 0 && (
         <div className="mt-6">
           <h3 className="text-sm text-stone-500 uppercase tracking-widest mb-4">
             {results.length} moment{results.length !== 1 ? "s" : ""} found
+            {loading && <span className="normal-case tracking-normal italic"> &middot; still searching...</span>}
           </h3>
           <div className="space-y-3">
             {results.map((result, index) => (
-              <button
-                key={`${result.audioFile}-${result.timestamp}-${index}`}
-                onClick={() => handleResultClick(result)}
-                className="w-full text-left p-4 bg-white border border-stone-200 rounded-lg hover:border-amber-400 hover:shadow-md transition-all group"
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <h4 
-                      className="text-stone-800 font-medium group-hover:text-amber-700 transition-colors"
-                      style={{ fontFamily: "var(--font-playfair), Georgia, serif" }}
-                    >
-                      {result.subject}
-                    </h4>
-                    <p className="text-stone-600 text-sm mt-1 italic line-clamp-2">
-                      &ldquo;{result.quote}&rdquo;
-                    </p>
+              <div key={`${result.audioFile}-${result.start}-${index}`}>
+                <button
+                  onClick={() => handleResultClick(result)}
+                  className="w-full text-left p-4 bg-white border border-stone-200 rounded-lg hover:border-amber-400 hover:shadow-md transition-all group"
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <h4 
+                        className="text-stone-800 font-medium group-hover:text-amber-700 transition-colors"
+                        style={{ fontFamily: "var(--font-playfair), Georgia, serif" }}
+                      >
+                        {result.subject}
+                      </h4>
+                      <p className="text-stone-600 text-sm mt-1 italic line-clamp-2">
+                        &ldquo;{result.quote}&rdquo;
+                      </p>
+                    </div>
+                    <span className="text-sm text-stone-400 tabular-nums ml-4 shrink-0">
+                      {formatTime(result.start)}
+                      {result.end > result.start && `–${formatTime(result.end)}`}
+                    </span>
+                  </div>
+                </button>
+                {result.end > result.start && (
+                  <div className="mt-1 text-right text-xs text-stone-400">
+                    <AddToPlaylist audioFile={result.audioFile} start={result.start} end={result.end} />
                   </div>
-                  <span className="text-sm text-stone-400 tabular-nums ml-4 shrink-0">
-                    {formatTime(result.timestamp)}
-                  </span>
-                </div>
-              </button>
+                )}
+              </div>
             ))}
           </div>
         </div>
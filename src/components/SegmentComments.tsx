@@ -0,0 +1,266 @@
+import { useState } from "react";
+import { formatTime } from "@/lib/timeFormat";
+import { isPersonalAccount, useCurrentUser } from "./PasswordGate";
+
+interface Comment {
+  id: string;
+  parentId: string | null;
+  anchor: { start: number; end: number } | null;
+  text: string;
+  author: { id: string; name: string };
+  createdAt: string;
+  editedAt: string | null;
+  deleted: boolean;
+}
+
+export interface CommentThread extends Comment {
+  replies: Comment[];
+}
+
+interface SegmentCommentsProps {
+  audioFile: string;
+  threads: CommentThread[];
+  // Where a new comment goes: the transcript selection, or else the playback position
+  anchor: { start: number; end: number };
+  onClearAnchor?: () => void;
+  // Thread to draw attention to, e.g. after its timeline marker was clicked
+  activeId: string | null;
+  onSeek: (time: number) => void;
+  // Called after any change so the caller can reload the threads
+  onChanged: () => void;
+}
+
+function formatAnchor(anchor: { start: number; end: number }): string {
+  return anchor.end > anchor.start ? `${formatTime(anchor.start)}–${formatTime(anchor.end)}` : formatTime(anchor.start);
+}
+
+export async function fetchComments(audioFile: string): Promise<CommentThread[]> {
+  const response = await fetch(`/api/segments/${encodeURIComponent(audioFile)}/comments`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch comments");
+  }
+  const data = await response.json();
+  return data.comments;
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to save comment");
+  }
+}
+
+// Family annotations on a segment: threads anchored to a moment or passage, with replies.
+// Authors can edit and delete their own comments; admins can delete any.
+export default function SegmentComments({
+  audioFile,
+  threads,
+  anchor,
+  onClearAnchor,
+  activeId,
+  onSeek,
+  onChanged,
+}: SegmentCommentsProps) {
+  const currentUser = useCurrentUser();
+  const [text, setText] = useState("");
+  // The thread being replied to, or the comment being edited, with the draft text
+  const [replying, setReplying] = useState<{ id: string; text: string } | null>(null);
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const baseUrl = `/api/segments/${encodeURIComponent(audioFile)}/comments`;
+  const canComment = isPersonalAccount(currentUser);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    run(async () => {
+      await send(baseUrl, "POST", { text, start: anchor.start, end: anchor.end });
+      setText("");
+      onClearAnchor?.();
+    });
+  };
+
+  const handleReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!replying?.text.trim()) return;
+    run(async () => {
+      await send(baseUrl, "POST", { text: replying.text, parentId: replying.id });
+      setReplying(null);
+    });
+  };
+
+  const handleEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing?.text.trim()) return;
+    run(async () => {
+      await send(`${baseUrl}/${encodeURIComponent(editing.id)}`, "PATCH", { text: editing.text });
+      setEditing(null);
+    });
+  };
+
+  const handleDelete = (comment: Comment) => {
+    if (!confirm("Delete this comment?")) return;
+    run(() => send(`${baseUrl}/${encodeURIComponent(comment.id)}`, "DELETE"));
+  };
+
+  const renderComment = (comment: Comment) => {
+    if (comment.deleted) {
+      return <p className="text-sm text-stone-400 italic">Comment deleted</p>;
+    }
+    const isAuthor = currentUser?.id === comment.author.id;
+    const isAdmin = currentUser?.role === "admin";
+
+    return (
+      <div>
+        <div className="flex items-baseline gap-2 text-xs text-stone-400">
+          <span className="text-stone-600">{comment.author.name}</span>
+          <span>{new Date(comment.createdAt).toLocaleDateString()}</span>
+          {comment.editedAt && <span className="italic">edited</span>}
+          {isAuthor && editing?.id !== comment.id && (
+            <button onClick={() => setEditing({ id: comment.id, text: comment.text })} className="hover:text-stone-700">
+              Edit
+            </button>
+          )}
+          {(isAuthor || isAdmin) && (
+            <button onClick={() => handleDelete(comment)} disabled={saving} className="hover:text-red-600">
+              Delete
+            </button>
+          )}
+        </div>
+        {editing?.id === comment.id ? (
+          <form onSubmit={handleEdit} className="mt-1 space-y-2">
+            <textarea
+              value={editing.text}
+              onChange={(e) => setEditing({ id: comment.id, text: e.target.value })}
+              rows={2}
+              className="w-full px-2 py-1 text-sm border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+            />
+            <div className="flex gap-3 text-xs">
+              <button type="submit" disabled={saving} className="text-amber-700 hover:text-amber-800">
+                Save
+              </button>
+              <button type="button" onClick={() => setEditing(null)} className="text-stone-400 hover:text-stone-700">
+                Cancel
+              </button>
+            </div>
+          </form>
+        ) : (
+          <p className="mt-1 text-sm text-stone-700 whitespace-pre-line">{comment.text}</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="mt-5 space-y-4">
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {threads.length === 0 && <p className="text-sm text-stone-400 italic">No comments yet.</p>}
+
+      {threads.map((thread, index) => (
+        <div
+          key={thread.id}
+          className={`p-4 rounded-lg border ${
+            thread.id === activeId ? "border-sky-300 bg-sky-50" : "border-stone-100 bg-stone-50"
+          }`}
+        >
+          {thread.anchor && (
+            <button
+              onClick={() => onSeek(thread.anchor!.start)}
+              className="mb-1 text-xs text-sky-700 tabular-nums hover:text-sky-900"
+            >
+              [{index + 1}] {formatAnchor(thread.anchor)}
+            </button>
+          )}
+          {renderComment(thread)}
+
+          {thread.replies.length > 0 && (
+            <div className="mt-3 ml-4 pl-4 border-l border-stone-200 space-y-3">
+              {thread.replies.map((reply) => (
+                <div key={reply.id}>{renderComment(reply)}</div>
+              ))}
+            </div>
+          )}
+
+          {canComment &&
+            !thread.deleted &&
+            (replying?.id === thread.id ? (
+              <form onSubmit={handleReply} className="mt-3 ml-4 space-y-2">
+                <textarea
+                  value={replying.text}
+                  onChange={(e) => setReplying({ id: thread.id, text: e.target.value })}
+                  placeholder="Reply"
+                  rows={2}
+                  className="w-full px-2 py-1 text-sm border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+                />
+                <div className="flex gap-3 text-xs">
+                  <button type="submit" disabled={saving} className="text-amber-700 hover:text-amber-800">
+                    Reply
+                  </button>
+                  <button type="button" onClick={() => setReplying(null)} className="text-stone-400 hover:text-stone-700">
+                    Cancel
+                  </button>
+                </div>
+              </form>
+            ) : (
+              <button
+                onClick={() => setReplying({ id: thread.id, text: "" })}
+                className="mt-2 text-xs text-stone-400 hover:text-stone-700"
+              >
+                Reply
+              </button>
+            ))}
+        </div>
+      ))}
+
+      {canComment ? (
+        <form onSubmit={handlePost} className="space-y-2">
+          <div className="flex items-center gap-2 text-xs text-stone-500">
+            <span>Comment at {formatAnchor(anchor)}</span>
+            {onClearAnchor && (
+              <button type="button" onClick={onClearAnchor} className="text-stone-400 hover:text-stone-700">
+                Use playback position
+              </button>
+            )}
+          </div>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Add context, e.g. who someone is or when this happened"
+            rows={2}
+            className="w-full px-3 py-2 text-sm border border-stone-200 rounded-lg focus:outline-none focus:border-amber-400"
+          />
+          <button
+            type="submit"
+            disabled={saving || !text.trim()}
+            className="px-3 py-1.5 text-sm bg-stone-800 text-white rounded hover:bg-stone-700 disabled:bg-stone-300"
+          >
+            Post comment
+          </button>
+        </form>
+      ) : (
+        <p className="text-xs text-stone-400 italic">Sign in with your own account to comment.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState } from "react";
+
+export interface SegmentMetadata {
+  subject: string;
+  description: string;
+  tags: string[];
+}
+
+interface SegmentMetadataFormProps {
+  audioFile: string;
+  initial: SegmentMetadata;
+  onSaved: (metadata: SegmentMetadata) => void;
+  onCancel: () => void;
+}
+
+// Inline editor for a segment's subject, description and tags. Tags are typed as a
+// comma-separated list.
+export default function SegmentMetadataForm({ audioFile, initial, onSaved, onCancel }: SegmentMetadataFormProps) {
+  const [subject, setSubject] = useState(initial.subject);
+  const [description, setDescription] = useState(initial.description);
+  const [tags, setTags] = useState(initial.tags.join(", "));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/segments/${encodeURIComponent(audioFile)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          subject,
+          description,
+          tags: tags.split(","),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save");
+      }
+      onSaved({
+        subject: data.segment.subject,
+        description: data.segment.description,
+        tags: data.segment.tags,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 mb-5">
+      <input
+        type="text"
+        value={subject}
+        onChange={(e) => setSubject(e.target.value)}
+        placeholder="Subject"
+        className="w-full px-3 py-2 border border-stone-300 rounded-lg text-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+      />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        rows={3}
+        className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+      />
+      <input
+        type="text"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+        placeholder="Tags, separated by commas"
+        className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+      />
+      {error && <div className="text-sm text-red-700">{error}</div>}
+      <div className="flex gap-3">
+        <button
+          type="submit"
+          disabled={saving || !subject.trim()}
+          className="px-4 py-1.5 bg-stone-800 text-white text-sm rounded-lg hover:bg-stone-700 disabled:bg-stone-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-1.5 text-sm text-stone-500 hover:text-stone-800"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
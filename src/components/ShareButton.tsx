@@ -1,40 +1,61 @@
 import { useState } from "react";
+import { formatTime } from "@/lib/timeFormat";
+import { usePlayerTime } from "./PlayerProvider";
 
 interface ShareButtonProps {
   audioFile: string | null;
-  currentTime: number;
+  // Passage to share instead of "from the current time", e.g. a search match
+  range?: { start: number; end: number };
 }
 
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = Math.floor(seconds % 60);
-  return `${mins}:${secs.toString().padStart(2, "0")}`;
+// Mint a signed, expiring link that opens just this clip without the family password, and
+// return its full URL
+export async function createShareLink(audioFile: string, start: number, end: number | null): Promise<string> {
+  const response = await fetch("/api/shares", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ audioFile, start, end }),
+  });
+  if (!response.ok) {
+    throw new Error("Failed to create share link");
+  }
+  const { token } = await response.json();
+  return `${window.location.origin}/share/${token}`;
 }
 
-export default function ShareButton({ audioFile, currentTime }: ShareButtonProps) {
+// Shares the player's current time, or the given range
+export default function ShareButton({ audioFile, range }: ShareButtonProps) {
+  const currentTime = usePlayerTime();
   const [copied, setCopied] = useState(false);
+  const [sharing, setSharing] = useState(false);
 
   if (!audioFile) {
     return null;
   }
 
   const handleShare = async () => {
-    const timestamp = Math.floor(currentTime);
-    const url = `${window.location.origin}${window.location.pathname}?audio=${encodeURIComponent(audioFile)}&t=${timestamp}`;
-    
+    setSharing(true);
     try {
+      const url = await createShareLink(
+        audioFile,
+        range ? range.start : Math.floor(currentTime),
+        range ? range.end : null
+      );
       await navigator.clipboard.writeText(url);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) {
-      console.error("Failed to copy:", err);
+      console.error("Failed to share:", err);
+    } finally {
+      setSharing(false);
     }
   };
 
   return (
     <button
       onClick={handleShare}
-      className="fixed bottom-6 right-6 bg-stone-800 text-white px-4 py-3 rounded-full shadow-lg hover:bg-stone-700 transition-all duration-200 flex items-center gap-2 z-50"
+      disabled={sharing}
+      className="fixed bottom-32 right-6 bg-stone-800 text-white px-4 py-3 rounded-full shadow-lg hover:bg-stone-700 transition-all duration-200 flex items-center gap-2 z-50"
       style={{ fontFamily: "var(--font-source-serif), Georgia, serif" }}
     >
       {copied ? (
@@ -49,7 +70,11 @@ export default function ShareButton({ audioFile, currentTime }: ShareButtonProps
           <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
             <path d="M15 8a3 3 0 10-2.977-2.63l-4.94 2.47a3 3 0 100 4.319l4.94 2.47a3 3 0 10.895-1.789l-4.94-2.47a3.027 3.027 0 000-.74l4.94-2.47C13.456 7.68 14.19 8 15 8z" />
           </svg>
-          <span>Share at {formatTime(currentTime)}</span>
+          <span>
+            {range
+              ? `Share ${formatTime(range.start)}–${formatTime(range.end)}`
+              : `Share at ${formatTime(currentTime)}`}
+          </span>
         </>
       )}
     </button>
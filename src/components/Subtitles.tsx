@@ -1,4 +1,5 @@
 import { useEffect, useState } from "react";
+import { transcriptUrl } from "@/lib/playbackUrls";
 
 interface Word {
   word: string;
@@ -10,9 +11,15 @@ interface SubtitlesProps {
   audioFile: string;
   currentTime: number;
   isPlaying: boolean;
+  // Seconds into the segment mp3 whose words should be marked, e.g. a search match
+  highlightRange?: { start: number; end: number };
+  // Share link token, for listeners who aren't signed in
+  shareToken?: string;
+  // Shared playlist token, likewise
+  playlistToken?: string;
 }
 
-export default function Subtitles({ audioFile, currentTime, isPlaying }: SubtitlesProps) {
+export default function Subtitles({ audioFile, currentTime, isPlaying, highlightRange, shareToken, playlistToken }: SubtitlesProps) {
   const [words, setWords] = useState<Word[]>([]);
   const [startTimeOffset, setStartTimeOffset] = useState(0);
   const [loading, setLoading] = useState(false);
@@ -25,7 +32,7 @@ export default function Subtitles({ audioFile, currentTime, isPlaying }: Subtitl
       setLoading(true);
       setError(null);
       try {
-        const response = await fetch(`/api/segments/${encodeURIComponent(audioFile)}/transcript`);
+        const response = await fetch(transcriptUrl(audioFile, { shareToken, playlistToken }));
         if (!response.ok) {
           throw new Error("Failed to fetch transcript");
         }
@@ -46,7 +53,7 @@ export default function Subtitles({ audioFile, currentTime, isPlaying }: Subtitl
     };
 
     fetchTranscript();
-  }, [audioFile, isPlaying, words.length]);
+  }, [audioFile, isPlaying, words.length, shareToken, playlistToken]);
 
 
   if (!isPlaying && words.length === 0) {
@@ -123,6 +130,11 @@ export default function Subtitles({ audioFile, currentTime, isPlaying }: Subtitl
           const globalIndex = chunkStart + index;
           const isActive = globalIndex === currentWordIndex;
           const isPast = globalIndex < currentWordIndex;
+          const wordStart = word.start - startTimeOffset;
+          const isHighlighted =
+            highlightRange !== undefined &&
+            wordStart >= highlightRange.start &&
+            wordStart <= highlightRange.end;
 
           return (
             <span key={`${globalIndex}-${word.start}`}>
@@ -133,7 +145,7 @@ export default function Subtitles({ audioFile, currentTime, isPlaying }: Subtitl
                     : isPast
                     ? "text-stone-400"
                     : "text-stone-600"
-                }`}
+                } ${isHighlighted ? "underline decoration-amber-400 decoration-2 underline-offset-4" : ""}`}
               >
                 {word.word}
               </span>
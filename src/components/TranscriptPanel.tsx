@@ -0,0 +1,280 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { splitIntoParagraphs } from "@/lib/paragraphs";
+import { transcriptUrl } from "@/lib/playbackUrls";
+import { formatTime } from "@/lib/timeFormat";
+import AddToPlaylist from "./AddToPlaylist";
+import { createShareLink } from "./ShareButton";
+
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface TranscriptPanelProps {
+  audioFile: string;
+  currentTime: number;
+  isPlaying: boolean;
+  // Seek the audio to this many seconds into the segment mp3
+  onSeek: (time: number) => void;
+  highlightRange?: { start: number; end: number };
+  // Share link token, for listeners who aren't signed in. They can't mint new links.
+  shareToken?: string;
+  // Comment threads in order: their passages are tinted and footnoted [1], [2]...
+  comments?: CommentMark[];
+  onCommentClick?: (id: string) => void;
+  // Start a comment on the selected passage
+  onComment?: (range: { start: number; end: number }) => void;
+}
+
+interface CommentMark {
+  id: string;
+  anchor: { start: number; end: number } | null;
+}
+
+interface Selection {
+  first: number;
+  last: number;
+}
+
+const NO_COMMENTS: CommentMark[] = [];
+
+// The word index a DOM node belongs to, from the data-index on its word span
+function wordIndexOf(node: Node | null): number | null {
+  const element = node instanceof Element ? node : node?.parentElement;
+  const wordElement = element?.closest("[data-index]");
+  return wordElement ? Number(wordElement.getAttribute("data-index")) : null;
+}
+
+// The whole transcript of a segment, paragraphed at pauses. Follows playback, seeks when a
+// word is clicked, and offers to copy or share a selected passage.
+export default function TranscriptPanel({
+  audioFile,
+  currentTime,
+  isPlaying,
+  onSeek,
+  highlightRange,
+  shareToken,
+  comments = NO_COMMENTS,
+  onCommentClick,
+  onComment,
+}: TranscriptPanelProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [words, setWords] = useState<Word[]>([]);
+  const [startTimeOffset, setStartTimeOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTranscript = async () => {
+      try {
+        const response = await fetch(transcriptUrl(audioFile, { shareToken }));
+        if (!response.ok) {
+          throw new Error("Failed to fetch transcript");
+        }
+        const data = await response.json();
+        setStartTimeOffset(data.startTime || 0);
+        setWords(data.transcript.words);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTranscript();
+  }, [audioFile, shareToken]);
+
+  // Paragraphs keep the original Word objects, so each can be mapped back to its index
+  const { paragraphs, indexOf } = useMemo(() => {
+    const split = splitIntoParagraphs(words);
+    const indices = new Map<Word, number>();
+    split.flatMap((p) => p.words).forEach((word, i) => indices.set(word, i));
+    return { paragraphs: split, indexOf: indices };
+  }, [words]);
+
+  const spokenWords = useMemo(() => paragraphs.flatMap((p) => p.words), [paragraphs]);
+
+  // Each comment's footnote goes after the last word to start within its passage
+  const footnotes = useMemo(() => {
+    const byWord = new Map<number, { id: string; number: number }[]>();
+    comments.forEach((comment, i) => {
+      if (!comment.anchor) return;
+      const end = comment.anchor.end + startTimeOffset;
+      let last = 0;
+      for (let w = 0; w < spokenWords.length && spokenWords[w].start <= end; w++) {
+        last = w;
+      }
+      byWord.set(last, [...(byWord.get(last) ?? []), { id: comment.id, number: i + 1 }]);
+    });
+    return byWord;
+  }, [comments, spokenWords, startTimeOffset]);
+
+  // The last word that has started; stays lit through the pause after it
+  const adjustedTime = currentTime + startTimeOffset;
+  let currentWordIndex = -1;
+  for (let i = 0; i < spokenWords.length && spokenWords[i].start <= adjustedTime; i++) {
+    currentWordIndex = i;
+  }
+
+  // Keep the current word in view while playing, scrolling only the panel
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!isPlaying || !container || currentWordIndex < 0) return;
+    const element = container.querySelector<HTMLElement>(`[data-index="${currentWordIndex}"]`);
+    if (!element) return;
+    const top = element.offsetTop;
+    if (top < container.scrollTop || top > container.scrollTop + container.clientHeight - element.offsetHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: "smooth" });
+    }
+  }, [currentWordIndex, isPlaying]);
+
+  const handleMouseUp = () => {
+    const domSelection = window.getSelection();
+    if (!domSelection || domSelection.isCollapsed) {
+      setSelection(null);
+      return;
+    }
+    const anchor = wordIndexOf(domSelection.anchorNode);
+    const focus = wordIndexOf(domSelection.focusNode);
+    if (anchor === null || focus === null) {
+      setSelection(null);
+      return;
+    }
+    setSelection({ first: Math.min(anchor, focus), last: Math.max(anchor, focus) });
+    setStatus(null);
+  };
+
+  const selectedWords = selection ? spokenWords.slice(selection.first, selection.last + 1) : [];
+  const selectedStart = selectedWords.length > 0 ? selectedWords[0].start - startTimeOffset : 0;
+  const selectedEnd = selectedWords.length > 0 ? selectedWords[selectedWords.length - 1].end - startTimeOffset : 0;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(selectedWords.map((w) => w.word.trim()).join(" "));
+    setStatus("Passage copied");
+  };
+
+  const handleShare = async () => {
+    try {
+      const url = await createShareLink(audioFile, selectedStart, selectedEnd);
+      await navigator.clipboard.writeText(url);
+      setStatus("Link copied");
+    } catch (err) {
+      console.error("Failed to share:", err);
+      setStatus("Couldn't create a link");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="mt-5 p-4 bg-stone-50 rounded-lg text-stone-400 text-center italic text-sm border border-stone-100">
+        Loading transcript...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="mt-5 p-4 bg-red-50 rounded-lg text-red-600 text-center text-sm border border-red-100">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-5 bg-stone-50 rounded-lg border border-stone-100">
+      {selection && (
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-stone-200 text-xs text-stone-500">
+          <span className="italic">
+            Selected {formatTime(selectedStart)}–{formatTime(selectedEnd)}
+          </span>
+          <button onClick={() => onSeek(selectedStart)} className="hover:text-stone-800">
+            Play
+          </button>
+          <button onClick={handleCopy} className="hover:text-stone-800">
+            Copy text
+          </button>
+          {!shareToken && (
+            <>
+              <button onClick={handleShare} className="hover:text-stone-800">
+                Share link
+              </button>
+              <a
+                href={`/api/clips?audioFile=${encodeURIComponent(audioFile)}&start=${selectedStart}&end=${selectedEnd}`}
+                download
+                className="hover:text-stone-800"
+              >
+                Download clip
+              </a>
+              <AddToPlaylist audioFile={audioFile} start={selectedStart} end={selectedEnd} />
+            </>
+          )}
+          {onComment && (
+            <button onClick={() => onComment({ start: selectedStart, end: selectedEnd })} className="hover:text-stone-800">
+              Comment
+            </button>
+          )}
+          {status && <span className="text-amber-700">{status}</span>}
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        onMouseUp={handleMouseUp}
+        className="relative max-h-96 overflow-y-auto px-5 py-4 space-y-4 text-stone-700 leading-relaxed"
+      >
+        {paragraphs.map((paragraph) => (
+          <p key={paragraph.start}>
+            <span className="block text-xs text-stone-400 tabular-nums mb-1 select-none">
+              {formatTime(paragraph.start - startTimeOffset)}
+            </span>
+            {paragraph.words.map((word) => {
+              const index = indexOf.get(word)!;
+              const wordStart = word.start - startTimeOffset;
+              const isActive = index === currentWordIndex;
+              const isHighlighted =
+                highlightRange !== undefined &&
+                wordStart >= highlightRange.start &&
+                wordStart <= highlightRange.end;
+              const isSelected = selection !== null && index >= selection.first && index <= selection.last;
+              const isCommented = comments.some(
+                ({ anchor }) =>
+                  anchor !== null && anchor.end > anchor.start && wordStart >= anchor.start && wordStart <= anchor.end
+              );
+
+              return (
+                <span key={index}>
+                  <span
+                    data-index={index}
+                    onClick={() => {
+                      if (window.getSelection()?.isCollapsed !== false) onSeek(wordStart);
+                    }}
+                    className={`cursor-pointer rounded transition-colors duration-150 hover:bg-stone-200 ${
+                      isActive ? "text-amber-700 bg-amber-100" : ""
+                    } ${isSelected ? "bg-amber-50" : isCommented ? "bg-sky-50" : ""} ${
+                      isHighlighted ? "underline decoration-amber-400 decoration-2 underline-offset-4" : ""
+                    }`}
+                  >
+                    {word.word.trim()}
+                  </span>
+                  {footnotes.get(index)?.map((footnote) => (
+                    <sup key={footnote.id}>
+                      <button
+                        onClick={() => onCommentClick?.(footnote.id)}
+                        className="ml-0.5 text-sky-700 hover:text-sky-900 select-none"
+                        aria-label={`Comment ${footnote.number}`}
+                      >
+                        [{footnote.number}]
+                      </button>
+                    </sup>
+                  ))}{" "}
+                </span>
+              );
+            })}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
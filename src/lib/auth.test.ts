@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  createSessionToken,
+  createSignedToken,
+  hashPassword,
+  readSignedToken,
+  verifyPassword,
+  verifySessionToken,
+} from "./auth";
+
+describe("password hashes", () => {
+  it("verifies the password a hash was made from", () => {
+    const stored = hashPassword("correct horse");
+    expect(stored).toMatch(/^scrypt:[0-9a-f]{32}:[0-9a-f]{128}$/);
+    expect(verifyPassword("correct horse", stored)).toBe(true);
+    expect(verifyPassword("wrong horse", stored)).toBe(false);
+  });
+
+  it("salts each hash", () => {
+    expect(hashPassword("pw")).not.toBe(hashPassword("pw"));
+  });
+
+  it("still verifies hashes in the old $-separated format", () => {
+    const hash = crypto.scryptSync("pw", "abcd", 64).toString("hex");
+    expect(verifyPassword("pw", `scrypt$abcd$${hash}`)).toBe(true);
+  });
+
+  it("rejects malformed hashes", () => {
+    expect(verifyPassword("pw", "")).toBe(false);
+    expect(verifyPassword("pw", "scrypt")).toBe(false);
+    expect(verifyPassword("pw", "bcrypt:abcd:1234")).toBe(false);
+  });
+});
+
+describe("signed tokens", () => {
+  beforeEach(() => {
+    vi.stubEnv("SESSION_SECRET", "test secret");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  const inAnHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+  it("round-trips the payload", () => {
+    const token = createSignedToken("share", { audioFile: "a.mp3", exp: inAnHour() });
+    expect(readSignedToken("share", token)).toMatchObject({ audioFile: "a.mp3" });
+  });
+
+  it("rejects a token minted for another purpose", () => {
+    const token = createSignedToken("share", { exp: inAnHour() });
+    expect(readSignedToken("session", token)).toBeNull();
+  });
+
+  it("rejects a tampered payload or signature", () => {
+    const token = createSignedToken("share", { audioFile: "a.mp3", exp: inAnHour() });
+    const [, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ audioFile: "b.mp3", exp: inAnHour() })).toString("base64url");
+    expect(readSignedToken("share", `${forged}.${signature}`)).toBeNull();
+    expect(readSignedToken("share", `${token}x`)).toBeNull();
+    expect(readSignedToken("share", "not-a-token")).toBeNull();
+    expect(readSignedToken("share", undefined)).toBeNull();
+  });
+
+  it("rejects a token signed with another secret", () => {
+    const token = createSignedToken("share", { exp: inAnHour() });
+    vi.stubEnv("SESSION_SECRET", "another secret");
+    expect(readSignedToken("share", token)).toBeNull();
+  });
+
+  it("expires", () => {
+    vi.useFakeTimers();
+    const token = createSessionToken("user-1", 60);
+    expect(verifySessionToken(token)?.sub).toBe("user-1");
+    vi.advanceTimersByTime(61 * 1000);
+    expect(verifySessionToken(token)).toBeNull();
+  });
+
+  it("refuses to sign without SESSION_SECRET", () => {
+    vi.stubEnv("SESSION_SECRET", "");
+    expect(() => createSessionToken("user-1")).toThrow("SESSION_SECRET not configured");
+  });
+});
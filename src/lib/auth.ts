@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import type { NextApiRequest } from "next";
+
+export const SESSION_COOKIE = "narrated_session";
+
+// Sessions last a month; relatives shouldn't have to log in every visit
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 30;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export interface SessionPayload {
+  // Who the session belongs to
+  sub: string;
+  // Expiry, in seconds since the epoch
+  exp: number;
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error("SESSION_SECRET not configured");
+  }
+  return secret;
+}
+
+// Hash a password as "scrypt:<salt>:<hash>" (hex). The same format is produced by
+// scripts/hash-password.mjs for SITE_PASSWORD_HASH; it has no "$", which .env files expand.
+export function hashPassword(password: string, salt = crypto.randomBytes(16).toString("hex")): string {
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString("hex");
+  return `scrypt:${salt}:${hash}`;
+}
+
+// Also accepts "scrypt$<salt>$<hash>", the format used before, so passphrases already
+// saved with it keep working
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(/[:$]/);
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// The purpose is part of the signed message, so a token minted for one use (e.g. a share
+// link) can never be replayed as another (e.g. a session)
+function sign(purpose: string, value: string): string {
+  return crypto.createHmac("sha256", getSessionSecret()).update(`${purpose}:${value}`).digest("base64url");
+}
+
+// Tokens are "<base64url JSON payload>.<base64url HMAC-SHA256>". The payload must carry
+// an expiry as `exp`, in seconds since the epoch.
+export function createSignedToken<T extends { exp: number }>(purpose: string, payload: T): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${encoded}.${sign(purpose, encoded)}`;
+}
+
+// Check a token's signature and expiry and return its payload. Callers validate the shape.
+export function readSignedToken(purpose: string, token: string | undefined): Record<string, unknown> | null {
+  if (!token) {
+    return null;
+  }
+
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(purpose, encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf-8"));
+    if (typeof payload !== "object" || payload === null || typeof payload.exp !== "number") {
+      return null;
+    }
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function createSessionToken(sub: string, maxAgeSeconds = SESSION_MAX_AGE_SECONDS): string {
+  return createSignedToken<SessionPayload>("session", {
+    sub,
+    exp: Math.floor(Date.now() / 1000) + maxAgeSeconds,
+  });
+}
+
+export function verifySessionToken(token: string | undefined): SessionPayload | null {
+  const payload = readSignedToken("session", token);
+  if (!payload || typeof payload.sub !== "string") {
+    return null;
+  }
+  return { sub: payload.sub, exp: payload.exp as number };
+}
+
+interface CookieOptions {
+  maxAge: number;
+}
+
+export function serializeSessionCookie(value: string, { maxAge }: CookieOptions): string {
+  const parts = [
+    `${SESSION_COOKIE}=${value}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${maxAge}`,
+  ];
+  if (process.env.NODE_ENV === "production") {
+    parts.push("Secure");
+  }
+  return parts.join("; ");
+}
+
+export function clearSessionCookie(): string {
+  return serializeSessionCookie("", { maxAge: 0 });
+}
+
+// Read and verify the session cookie of an API request
+export function getSession(req: NextApiRequest): SessionPayload | null {
+  return verifySessionToken(req.cookies[SESSION_COOKIE]);
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { makeManifest, makeSegment, makeWords } from "@/test/manifest";
+import { readZip } from "@/test/zip";
+import { BOOK_TITLE, buildBook, renderEpub, renderHtml, renderMarkdown } from "./book";
+
+const BASE_URL = "https://example.org";
+
+const school = makeSegment("21aug 2.mp3", "", {
+  subject: "School & <friends>",
+  description: "The walk to school",
+  segmentIndex: 1,
+  startTime: 100,
+});
+school.transcript.words = [...makeWords("We walked to school.", 100), ...makeWords("It was far.", 110)];
+
+const lahore = makeSegment("21aug 1.mp3", "We lived in Lahore.", { subject: "Lahore", segmentIndex: 0 });
+const trains = makeSegment("26dec2019 1.mp3", "The trains were full.", { sessionId: "26dec2019", subject: "Trains" });
+
+const manifest = makeManifest([school, lahore, trains]);
+
+describe("buildBook", () => {
+  it("makes a chapter per session, with segments in order and paragraphs timed from the mp3", () => {
+    const book = buildBook(manifest);
+    expect(book.map((chapter) => chapter.title)).toEqual(["21 August", "26 December 2019"]);
+    expect(book[0].segments.map((segment) => segment.subject)).toEqual(["Lahore", "School & <friends>"]);
+    expect(book[0].segments[1].paragraphs).toEqual([
+      { start: 0, text: "We walked to school." },
+      { start: 10, text: "It was far." },
+    ]);
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("links each paragraph to the player at its time", () => {
+    const markdown = renderMarkdown(buildBook(manifest), BASE_URL);
+    expect(markdown.startsWith(`# ${BOOK_TITLE}\n`)).toBe(true);
+    expect(markdown).toContain("## 21 August\n\n### Lahore\n");
+    expect(markdown).toContain("*The walk to school*");
+    expect(markdown).toContain("[0:10](https://example.org/?audio=21aug%202.mp3&t=10) It was far.");
+  });
+});
+
+describe("renderHtml", () => {
+  it("escapes transcript text and builds the contents", () => {
+    const html = renderHtml(buildBook(manifest), BASE_URL);
+    expect(html).toContain('<h3 id="chapter-1-2">School &amp; &lt;friends&gt;</h3>');
+    expect(html).toContain('<a href="#chapter-2">26 December 2019</a>');
+    expect(html).toContain('href="https://example.org/?audio=21aug%202.mp3&amp;t=10"');
+    expect(html).not.toContain("<friends>");
+  });
+});
+
+describe("renderEpub", () => {
+  it("packages one XHTML file per chapter after an uncompressed mimetype", () => {
+    const epub = renderEpub(buildBook(manifest), BASE_URL);
+    expect(epub.toString("latin1", 30, 58)).toBe("mimetypeapplication/epub+zip");
+    expect(readZip(epub).map((entry) => entry.name)).toEqual([
+      "mimetype",
+      "META-INF/container.xml",
+      "OEBPS/content.opf",
+      "OEBPS/nav.xhtml",
+      "OEBPS/style.css",
+      "OEBPS/chapter-1.xhtml",
+      "OEBPS/chapter-2.xhtml",
+    ]);
+  });
+
+  it("lists the chapters in the package document and links them from the contents", () => {
+    const files = new Map(readZip(renderEpub(buildBook(manifest), BASE_URL)).map((e) => [e.name, e.data.toString("utf-8")]));
+    const opf = files.get("OEBPS/content.opf");
+    expect(opf).toContain('<itemref idref="chapter-1" />\n    <itemref idref="chapter-2" />');
+    expect(opf).toMatch(/<dc:identifier id="book-id">urn:uuid:[0-9a-f-]{36}<\/dc:identifier>/);
+    expect(files.get("OEBPS/nav.xhtml")).toContain('<a href="chapter-2.xhtml#chapter-2">26 December 2019</a>');
+    expect(files.get("OEBPS/chapter-1.xhtml")).toContain("<title>21 August</title>");
+  });
+});
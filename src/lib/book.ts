@@ -0,0 +1,228 @@
+import crypto from "crypto";
+import type { Manifest } from "@/lib/manifest";
+import { splitIntoParagraphs } from "@/lib/paragraphs";
+import { formatSessionLabel } from "@/lib/sessionDates";
+import { formatTime } from "@/lib/timeFormat";
+import { createZip } from "@/lib/zip";
+
+export const BOOK_TITLE = "Stories from the Life of S. K. Vedi";
+
+export interface BookParagraph {
+  // Seconds into the segment's mp3
+  start: number;
+  text: string;
+}
+
+export interface BookSegment {
+  audioFile: string;
+  subject: string;
+  description: string;
+  paragraphs: BookParagraph[];
+}
+
+export interface BookChapter {
+  sessionId: string;
+  title: string;
+  segments: BookSegment[];
+}
+
+export type BookFormat = "md" | "html" | "epub";
+
+export const BOOK_FORMATS: BookFormat[] = ["md", "html", "epub"];
+
+// The collection as chapters (one per session, in manifest order) of segments, each with
+// its transcript paragraphed at pauses
+export function buildBook(manifest: Manifest): BookChapter[] {
+  return manifest.sessions.map((session) => ({
+    sessionId: session.sessionId,
+    title: formatSessionLabel(session.sessionId),
+    segments: [...session.segments]
+      .sort((a, b) => a.metadata.segmentIndex - b.metadata.segmentIndex)
+      .map((segment) => ({
+        audioFile: segment.audioFile,
+        subject: segment.metadata.subject,
+        description: segment.metadata.description,
+        paragraphs: splitIntoParagraphs(segment.transcript.words).map((paragraph) => ({
+          start: Math.max(0, paragraph.start - segment.metadata.startTime),
+          text: paragraph.text,
+        })),
+      })),
+  }));
+}
+
+// Link that opens the player at this point, using the home page's ?audio=&t= parameters
+function playerUrl(baseUrl: string, audioFile: string, start: number): string {
+  return `${baseUrl}/?audio=${encodeURIComponent(audioFile)}&t=${Math.floor(start)}`;
+}
+
+export function renderMarkdown(book: BookChapter[], baseUrl: string): string {
+  const lines = [`# ${BOOK_TITLE}`, ""];
+
+  for (const chapter of book) {
+    lines.push(`## ${chapter.title}`, "");
+    for (const segment of chapter.segments) {
+      lines.push(`### ${segment.subject}`, "");
+      if (segment.description) {
+        lines.push(`*${segment.description}*`, "");
+      }
+      for (const paragraph of segment.paragraphs) {
+        const link = playerUrl(baseUrl, segment.audioFile, paragraph.start);
+        lines.push(`[${formatTime(paragraph.start)}](${link}) ${paragraph.text}`, "");
+      }
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const STYLES = `body { font-family: Georgia, serif; max-width: 40em; margin: 2em auto; padding: 0 1em; color: #292524; line-height: 1.6; }
+h1, h2, h3 { font-weight: normal; }
+.description { font-style: italic; color: #57534e; }
+.time { font-size: 0.8em; color: #a8a29e; text-decoration: none; margin-right: 0.5em; font-variant-numeric: tabular-nums; }
+nav ol { list-style: none; padding-left: 0; }
+nav ol ol { padding-left: 1.5em; }
+@media print {
+  body { margin: 0; max-width: none; }
+  .chapter { page-break-before: always; }
+  .time { color: #78716c; }
+}`;
+
+// A chapter's body as (X)HTML, shared by the print page and the EPUB
+function renderChapterBody(chapter: BookChapter, chapterIndex: number, baseUrl: string): string {
+  const parts = [`<h2 id="chapter-${chapterIndex + 1}">${escapeHtml(chapter.title)}</h2>`];
+  chapter.segments.forEach((segment, segmentIndex) => {
+    parts.push(`<h3 id="chapter-${chapterIndex + 1}-${segmentIndex + 1}">${escapeHtml(segment.subject)}</h3>`);
+    if (segment.description) {
+      parts.push(`<p class="description">${escapeHtml(segment.description)}</p>`);
+    }
+    for (const paragraph of segment.paragraphs) {
+      const link = escapeHtml(playerUrl(baseUrl, segment.audioFile, paragraph.start));
+      parts.push(
+        `<p><a class="time" href="${link}">${formatTime(paragraph.start)}</a>${escapeHtml(paragraph.text)}</p>`
+      );
+    }
+  });
+  return parts.join("\n");
+}
+
+function renderContents(book: BookChapter[], chapterHref: (index: number) => string): string {
+  const items = book.map((chapter, chapterIndex) => {
+    const segments = chapter.segments
+      .map(
+        (segment, segmentIndex) =>
+          `<li><a href="${chapterHref(chapterIndex)}#chapter-${chapterIndex + 1}-${segmentIndex + 1}">${escapeHtml(segment.subject)}</a></li>`
+      )
+      .join("");
+    return `<li><a href="${chapterHref(chapterIndex)}#chapter-${chapterIndex + 1}">${escapeHtml(chapter.title)}</a><ol>${segments}</ol></li>`;
+  });
+  return `<ol>${items.join("\n")}</ol>`;
+}
+
+// A single self-contained page, laid out to print with one chapter per page
+export function renderHtml(book: BookChapter[], baseUrl: string): string {
+  const chapters = book
+    .map((chapter, i) => `<section class="chapter">\n${renderChapterBody(chapter, i, baseUrl)}\n</section>`)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(BOOK_TITLE)}</title>
+<style>
+${STYLES}
+</style>
+</head>
+<body>
+<h1>${escapeHtml(BOOK_TITLE)}</h1>
+<nav>
+<h2>Contents</h2>
+${renderContents(book, () => "")}
+</nav>
+${chapters}
+</body>
+</html>
+`;
+}
+
+function xhtmlPage(title: string, body: string, extraNamespace = ""): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml"${extraNamespace} lang="en" xml:lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css" />
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// An EPUB 3 book with one XHTML file per chapter and a navigation document
+export function renderEpub(book: BookChapter[], baseUrl: string): Buffer {
+  const chapterFile = (index: number) => `chapter-${index + 1}.xhtml`;
+  const identifier = `urn:uuid:${crypto.randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  const manifestItems = book
+    .map((_, i) => `<item id="chapter-${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml" />`)
+    .join("\n    ");
+  const spineItems = book.map((_, i) => `<itemref idref="chapter-${i + 1}" />`).join("\n    ");
+
+  const packageDocument = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeHtml(BOOK_TITLE)}</dc:title>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+    <item id="style" href="style.css" media-type="text/css" />
+    ${manifestItems}
+  </manifest>
+  <spine>
+    <itemref idref="nav" />
+    ${spineItems}
+  </spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+
+  const nav = xhtmlPage(
+    BOOK_TITLE,
+    `<h1>${escapeHtml(BOOK_TITLE)}</h1>\n<nav epub:type="toc" id="toc">\n<h2>Contents</h2>\n${renderContents(book, chapterFile)}\n</nav>`,
+    ' xmlns:epub="http://www.idpf.org/2007/ops"'
+  );
+
+  return createZip([
+    { name: "mimetype", data: "application/epub+zip", store: true },
+    { name: "META-INF/container.xml", data: container },
+    { name: "OEBPS/content.opf", data: packageDocument },
+    { name: "OEBPS/nav.xhtml", data: nav },
+    { name: "OEBPS/style.css", data: STYLES },
+    ...book.map((chapter, i) => ({
+      name: `OEBPS/${chapterFile(i)}`,
+      data: xhtmlPage(chapter.title, renderChapterBody(chapter, i, baseUrl)),
+    })),
+  ]);
+}
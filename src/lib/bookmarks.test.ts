@@ -0,0 +1,127 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addBookmark,
+  exportBookmarks,
+  importBookmarks,
+  listBookmarks,
+  MAX_LABEL_LENGTH,
+  parseBookmarkInput,
+} from "./bookmarks";
+
+vi.mock("@/lib/manifest", () => ({
+  getAllSegments: () => [
+    { audioFile: "a.mp3", subject: "The walk to school", duration: 60 },
+    { audioFile: "b.mp3", subject: "Lahore", duration: 120 },
+  ],
+}));
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "bookmarks-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("parseBookmarkInput", () => {
+  it("takes a segment, a time and a trimmed label", () => {
+    expect(parseBookmarkInput({ audioFile: "a.mp3", time: 12.5, label: "  Chachaji  " })).toEqual({
+      input: { audioFile: "a.mp3", time: 12.5, label: "Chachaji" },
+    });
+    expect(parseBookmarkInput({ audioFile: "a.mp3", time: 0 })).toEqual({
+      input: { audioFile: "a.mp3", time: 0, label: "" },
+    });
+  });
+
+  it("rejects missing segments, bad times and bad labels", () => {
+    expect(parseBookmarkInput(null)).toEqual({ error: "Bookmark must be an object" });
+    expect(parseBookmarkInput({ time: 1 })).toEqual({ error: "Audio file is required" });
+    expect(parseBookmarkInput({ audioFile: "a.mp3", time: -1 })).toEqual({
+      error: "Time must be a non-negative number of seconds",
+    });
+    expect(parseBookmarkInput({ audioFile: "a.mp3", time: "5" })).toHaveProperty("error");
+    expect(parseBookmarkInput({ audioFile: "a.mp3", time: 1, label: 3 })).toEqual({
+      error: "Label must be a string",
+    });
+    expect(parseBookmarkInput({ audioFile: "a.mp3", time: 1, label: "x".repeat(MAX_LABEL_LENGTH + 1) })).toEqual({
+      error: `Label must be at most ${MAX_LABEL_LENGTH} characters`,
+    });
+  });
+});
+
+describe("addBookmark", () => {
+  it("says why a bookmark can't be added", () => {
+    expect(addBookmark("user-1", { audioFile: "c.mp3", time: 1, label: "" })).toEqual({
+      error: "Segment not found",
+      kind: "not-found",
+    });
+    expect(addBookmark("user-1", { audioFile: "a.mp3", time: 61, label: "" })).toEqual({
+      error: "Time is past the end of the recording",
+      kind: "invalid",
+    });
+  });
+});
+
+describe("exportBookmarks and importBookmarks", () => {
+  it("round-trip one account's bookmarks into another", () => {
+    addBookmark("user-1", { audioFile: "a.mp3", time: 5, label: "School" });
+    addBookmark("user-1", { audioFile: "b.mp3", time: 30, label: "" });
+
+    const exported = exportBookmarks("user-1");
+    expect(exported.bookmarks.map((b) => [b.audioFile, b.subject, b.time])).toEqual([
+      ["a.mp3", "The walk to school", 5],
+      ["b.mp3", "Lahore", 30],
+    ]);
+
+    expect(importBookmarks("user-2", JSON.parse(JSON.stringify(exported)))).toEqual({ imported: 2, skipped: 0 });
+    const imported = listBookmarks("user-2");
+    expect(imported.map((b) => [b.audioFile, b.time, b.label])).toEqual([
+      ["b.mp3", 30, ""],
+      ["a.mp3", 5, "School"],
+    ]);
+    expect(imported.map((b) => b.createdAt)).toEqual(listBookmarks("user-1").map((b) => b.createdAt));
+  });
+
+  it("skips bookmarks that are already saved", () => {
+    addBookmark("user-1", { audioFile: "a.mp3", time: 5, label: "School" });
+    const exported = exportBookmarks("user-1");
+
+    expect(importBookmarks("user-1", exported)).toEqual({ imported: 0, skipped: 1 });
+    const twice = { ...exported, bookmarks: [...exported.bookmarks, ...exported.bookmarks] };
+    expect(importBookmarks("user-2", twice)).toEqual({ imported: 1, skipped: 1 });
+    expect(listBookmarks("user-2")).toHaveLength(1);
+  });
+
+  it("skips malformed entries and ones for segments not in the collection", () => {
+    const file = {
+      version: 1,
+      bookmarks: [
+        { audioFile: "a.mp3", time: 5, label: "School", createdAt: "not a date" },
+        { audioFile: "a.mp3", time: "5" },
+        { audioFile: "a.mp3", time: 90 },
+        { audioFile: "gone.mp3", time: 1 },
+        "a.mp3",
+        null,
+      ],
+    };
+
+    expect(importBookmarks("user-1", file)).toEqual({ imported: 1, skipped: 5 });
+    const [bookmark] = listBookmarks("user-1");
+    expect(bookmark).toMatchObject({ audioFile: "a.mp3", time: 5, label: "School" });
+    expect(Date.parse(bookmark.createdAt)).not.toBeNaN();
+  });
+
+  it("rejects files that aren't bookmark exports", () => {
+    const error = { error: "Not a bookmarks file: expected a bookmarks array" };
+    expect(importBookmarks("user-1", null)).toEqual(error);
+    expect(importBookmarks("user-1", { bookmarks: "a.mp3" })).toEqual(error);
+    expect(importBookmarks("user-1", [])).toEqual(error);
+  });
+});
@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import { readStore, updateStore } from "@/lib/jsonStore";
+import { getAllSegments, SegmentWithSession } from "@/lib/manifest";
+
+// A moment in a segment someone wants to come back to
+export interface Bookmark {
+  id: string;
+  audioFile: string;
+  // Seconds into the segment's mp3
+  time: number;
+  label: string;
+  createdAt: string;
+}
+
+// A bookmark with the segment it points into, for listing and playing it
+export interface BookmarkView extends Bookmark {
+  segment: SegmentWithSession;
+}
+
+export interface BookmarkInput {
+  audioFile: string;
+  time: number;
+  label: string;
+}
+
+// The file "Export" downloads and "Import" reads back. The subject is only there to make
+// the file readable; segments are matched by audioFile.
+export interface BookmarkExport {
+  version: 1;
+  exportedAt: string;
+  bookmarks: { audioFile: string; subject: string; time: number; label: string; createdAt: string }[];
+}
+
+// Why a bookmark wasn't added: its segment isn't in the collection, or it can't be kept
+export interface BookmarkError {
+  error: string;
+  kind: "not-found" | "invalid";
+}
+
+interface BookmarkStore {
+  // userId -> bookmarks, oldest first
+  users: Record<string, Bookmark[]>;
+}
+
+export const MAX_LABEL_LENGTH = 200;
+export const MAX_BOOKMARKS = 1000;
+
+const STORE_NAME = "bookmarks";
+
+const emptyStore = (): BookmarkStore => ({ users: {} });
+
+// Newest first. Bookmarks into segments that have left the manifest are left out.
+export function listBookmarks(userId: string): BookmarkView[] {
+  const segments = new Map(getAllSegments().map((segment) => [segment.audioFile, segment]));
+  const views: BookmarkView[] = [];
+  for (const bookmark of readStore(STORE_NAME, emptyStore()).users[userId] ?? []) {
+    const segment = segments.get(bookmark.audioFile);
+    if (segment) {
+      views.push({ ...bookmark, segment });
+    }
+  }
+  return views.reverse();
+}
+
+function parseLabel(label: unknown): string | { error: string } {
+  if (label === undefined || label === null) {
+    return "";
+  }
+  if (typeof label !== "string") {
+    return { error: "Label must be a string" };
+  }
+  if (label.trim().length > MAX_LABEL_LENGTH) {
+    return { error: `Label must be at most ${MAX_LABEL_LENGTH} characters` };
+  }
+  return label.trim();
+}
+
+// Check one bookmark from a POST body or an imported file
+export function parseBookmarkInput(body: unknown): { input: BookmarkInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Bookmark must be an object" };
+  }
+
+  const { audioFile, time, label } = body as Record<string, unknown>;
+  if (!audioFile || typeof audioFile !== "string") {
+    return { error: "Audio file is required" };
+  }
+  if (typeof time !== "number" || !Number.isFinite(time) || time < 0) {
+    return { error: "Time must be a non-negative number of seconds" };
+  }
+  const parsedLabel = parseLabel(label);
+  if (typeof parsedLabel !== "string") {
+    return parsedLabel;
+  }
+  return { input: { audioFile, time, label: parsedLabel } };
+}
+
+// Check a PATCH body, which can only change the label
+export function parseLabelEdit(body: unknown): { label: string } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+  const label = parseLabel((body as Record<string, unknown>).label);
+  return typeof label === "string" ? { label } : label;
+}
+
+export function addBookmark(userId: string, input: BookmarkInput): { bookmark: Bookmark } | BookmarkError {
+  const segment = getAllSegments().find((s) => s.audioFile === input.audioFile);
+  if (!segment) {
+    return { error: "Segment not found", kind: "not-found" };
+  }
+  if (input.time > segment.duration) {
+    return { error: "Time is past the end of the recording", kind: "invalid" };
+  }
+
+  return updateStore(STORE_NAME, emptyStore(), (store): { bookmark: Bookmark } | BookmarkError => {
+    const bookmarks = (store.users[userId] ??= []);
+    if (bookmarks.length >= MAX_BOOKMARKS) {
+      return { error: `You can keep at most ${MAX_BOOKMARKS} bookmarks`, kind: "invalid" };
+    }
+    const bookmark: Bookmark = { id: crypto.randomUUID(), ...input, createdAt: new Date().toISOString() };
+    bookmarks.push(bookmark);
+    return { bookmark };
+  });
+}
+
+export function updateBookmark(userId: string, id: string, label: string): Bookmark | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const bookmark = store.users[userId]?.find((b) => b.id === id);
+    if (!bookmark) {
+      return null;
+    }
+    bookmark.label = label;
+    return bookmark;
+  });
+}
+
+export function deleteBookmark(userId: string, id: string): boolean {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const bookmarks = store.users[userId] ?? [];
+    const remaining = bookmarks.filter((b) => b.id !== id);
+    store.users[userId] = remaining;
+    return remaining.length < bookmarks.length;
+  });
+}
+
+export function exportBookmarks(userId: string): BookmarkExport {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    bookmarks: listBookmarks(userId)
+      .reverse()
+      .map(({ audioFile, segment, time, label, createdAt }) => ({
+        audioFile,
+        subject: segment.subject,
+        time,
+        label,
+        createdAt,
+      })),
+  };
+}
+
+// Add the bookmarks from an exported file. Ones already saved (same moment and label),
+// ones for segments not in the collection and malformed entries are skipped.
+export function importBookmarks(
+  userId: string,
+  data: unknown
+): { imported: number; skipped: number } | { error: string } {
+  const entries = (data as Partial<BookmarkExport> | null)?.bookmarks;
+  if (!Array.isArray(entries)) {
+    return { error: "Not a bookmarks file: expected a bookmarks array" };
+  }
+
+  const durations = new Map(getAllSegments().map((segment) => [segment.audioFile, segment.duration]));
+  const now = new Date().toISOString();
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const bookmarks = (store.users[userId] ??= []);
+    const saved = new Set(bookmarks.map((b) => `${b.audioFile}|${b.time}|${b.label}`));
+    let imported = 0;
+
+    for (const entry of entries) {
+      const parsed = parseBookmarkInput(entry);
+      if ("error" in parsed || bookmarks.length >= MAX_BOOKMARKS) continue;
+      const { audioFile, time, label } = parsed.input;
+      const duration = durations.get(audioFile);
+      const key = `${audioFile}|${time}|${label}`;
+      if (duration === undefined || time > duration || saved.has(key)) continue;
+
+      const createdAt = typeof entry.createdAt === "string" && !isNaN(Date.parse(entry.createdAt)) ? entry.createdAt : now;
+      bookmarks.push({ id: crypto.randomUUID(), audioFile, time, label, createdAt });
+      saved.add(key);
+      imported++;
+    }
+
+    return { imported, skipped: entries.length - imported };
+  });
+}
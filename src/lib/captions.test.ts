@@ -0,0 +1,119 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { describe, expect, it, vi } from "vitest";
+import { makeSegment, makeWords } from "@/test/manifest";
+import { buildCues, createCaptionsHandler, formatSrt, formatVtt } from "./captions";
+
+const segment = makeSegment("a.mp3", "We walked home. It rained.", { startTime: 100 });
+
+vi.mock("@/lib/manifest", () => ({
+  getTranscriptByAudioFile: (audioFile: string) =>
+    audioFile === segment.audioFile
+      ? { transcript: segment.transcript, startTime: segment.metadata.startTime }
+      : null,
+}));
+
+describe("buildCues", () => {
+  it("ends cues at sentence ends, with times relative to the mp3", () => {
+    const cues = buildCues(makeWords("We walked home. It rained.", 100), 100);
+    expect(cues.map((cue) => cue.text)).toEqual(["We walked home.", "It rained."]);
+    expect(cues[0]).toMatchObject({ start: 0, end: expect.closeTo(1.4) });
+    expect(cues[1]).toMatchObject({ start: 1.5, end: expect.closeTo(2.4) });
+  });
+
+  it("ends a cue at a long pause", () => {
+    const words = [...makeWords("we walked", 0), ...makeWords("to Lahore", 5)];
+    expect(buildCues(words, 0).map((cue) => cue.text)).toEqual(["we walked", "to Lahore"]);
+  });
+
+  it("keeps cues within the duration limit", () => {
+    const cues = buildCues(makeWords(Array(20).fill("a").join(" ")), 0);
+    expect(cues[0].end).toBeCloseTo(5.9);
+    expect(cues[1].start).toBe(6);
+  });
+
+  it("wraps long cues onto two balanced lines", () => {
+    const text = "my father kept a small shop near the station in old Lahore";
+    const [cue] = buildCues(makeWords(text), 0);
+    expect(cue.text).toBe("my father kept a small shop\nnear the station in old Lahore");
+  });
+
+  it("keeps a short cue on screen for half a second", () => {
+    const [cue] = buildCues([{ word: "Yes.", start: 2, end: 2.1 }], 0);
+    expect(cue.end).toBeCloseTo(2.5);
+  });
+
+  it("skips blanks and ellipses", () => {
+    const words = [
+      { word: "...", start: 0, end: 0.2 },
+      { word: "Yes.", start: 0.5, end: 1 },
+    ];
+    expect(buildCues(words, 0)).toEqual([{ start: 0.5, end: 1, text: "Yes." }]);
+  });
+});
+
+describe("formatVtt", () => {
+  it("writes a WebVTT file with escaped text", () => {
+    const vtt = formatVtt([{ start: 3661.5, end: 3662, text: "Tom & <Jerry>" }]);
+    expect(vtt).toBe("WEBVTT\n\n01:01:01.500 --> 01:01:02.000\nTom &amp; &lt;Jerry&gt;\n");
+  });
+});
+
+describe("formatSrt", () => {
+  it("numbers the cues and uses commas in timestamps", () => {
+    const srt = formatSrt([
+      { start: 0, end: 1.25, text: "one" },
+      { start: 2, end: 3, text: "two\nlines" },
+    ]);
+    expect(srt).toBe("1\n00:00:00,000 --> 00:00:01,250\none\n\n2\n00:00:02,000 --> 00:00:03,000\ntwo\nlines\n");
+  });
+});
+
+function call(format: "vtt" | "srt", method: string, audioFile?: string) {
+  const res = {
+    statusCode: 200,
+    headers: {} as Record<string, unknown>,
+    body: undefined as unknown,
+    setHeader(name: string, value: unknown) {
+      this.headers[name] = value;
+      return this;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+    send(body: unknown) {
+      this.body = body;
+      return this;
+    },
+  };
+  createCaptionsHandler(format)(
+    { method, query: audioFile ? { audioFile } : {} } as unknown as NextApiRequest,
+    res as unknown as NextApiResponse
+  );
+  return res;
+}
+
+describe("createCaptionsHandler", () => {
+  it("serves a segment's captions in the requested format", () => {
+    const vtt = call("vtt", "GET", "a.mp3");
+    expect(vtt.statusCode).toBe(200);
+    expect(vtt.headers["Content-Type"]).toBe("text/vtt; charset=utf-8");
+    expect(vtt.headers["Content-Disposition"]).toBe('inline; filename="a.vtt"');
+    expect(vtt.body).toMatch(/^WEBVTT\n\n00:00:00.000 --> /);
+
+    const srt = call("srt", "GET", "a.mp3");
+    expect(srt.headers["Content-Type"]).toBe("application/x-subrip; charset=utf-8");
+    expect(srt.headers["Content-Disposition"]).toBe('inline; filename="a.srt"');
+    expect(srt.body).toMatch(/^1\n00:00:00,000 --> /);
+  });
+
+  it("rejects other methods, missing parameters and unknown segments", () => {
+    expect(call("vtt", "POST", "a.mp3")).toMatchObject({ statusCode: 405, headers: { Allow: ["GET"] } });
+    expect(call("vtt", "GET").statusCode).toBe(400);
+    expect(call("srt", "GET", "missing.mp3").statusCode).toBe(404);
+  });
+});
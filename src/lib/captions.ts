@@ -0,0 +1,204 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getTranscriptByAudioFile, TranscriptWithOffset, Word } from "@/lib/manifest";
+import { isSpokenWord } from "@/lib/paragraphs";
+
+export interface Cue {
+  // Seconds into the segment's mp3
+  start: number;
+  end: number;
+  // One or two lines, joined with "\n"
+  text: string;
+}
+
+interface CueOptions {
+  maxLineLength?: number;
+  maxLines?: number;
+  // Longest a cue stays on screen
+  maxDuration?: number;
+  // A silence at least this long always ends the cue
+  pauseSeconds?: number;
+}
+
+// Usual broadcast subtitle limits
+export const DEFAULT_CUE_OPTIONS: Required<CueOptions> = {
+  maxLineLength: 42,
+  maxLines: 2,
+  maxDuration: 6,
+  pauseSeconds: 1,
+};
+
+const SENTENCE_END = /[.?!]["')\]]*$/;
+const CLAUSE_END = /[,;:]["')\]]*$/;
+
+// Lines needed to fit the words at maxLineLength, filling each line greedily
+function countLines(words: string[], maxLineLength: number): number {
+  let lines = 1;
+  let lineLength = -1;
+  for (const word of words) {
+    if (lineLength >= 0 && lineLength + 1 + word.length > maxLineLength) {
+      lines++;
+      lineLength = word.length;
+    } else {
+      lineLength += 1 + word.length;
+    }
+  }
+  return lines;
+}
+
+// Break text into at most maxLines lines of up to maxLineLength characters, balancing two
+// lines so the second isn't a lone word
+function wrapLines(words: string[], maxLineLength: number, maxLines: number): string {
+  const text = words.join(" ");
+  if (text.length <= maxLineLength || maxLines < 2) {
+    return text;
+  }
+
+  let best = text;
+  let bestDifference = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(" ");
+    const second = words.slice(i).join(" ");
+    const difference = Math.abs(first.length - second.length);
+    if (first.length <= maxLineLength && second.length <= maxLineLength && difference < bestDifference) {
+      best = `${first}\n${second}`;
+      bestDifference = difference;
+    }
+  }
+  return best;
+}
+
+// Group a segment's words into caption cues. Cues end at sentence ends, at long pauses, at
+// a clause break once they are reasonably full, and before they would run over the length
+// or duration limits. Word times are absolute, so offset (the segment's startTime) is
+// subtracted to get times in the mp3.
+export function buildCues(words: Word[], offset: number, options: CueOptions = {}): Cue[] {
+  const { maxLineLength, maxLines, maxDuration, pauseSeconds } = { ...DEFAULT_CUE_OPTIONS, ...options };
+
+  const cues: Cue[] = [];
+  let current: Word[] = [];
+
+  const texts = (cueWords: Word[]) => cueWords.map((w) => w.word.trim());
+
+  const flush = () => {
+    if (current.length === 0) return;
+    cues.push({
+      start: Math.max(0, current[0].start - offset),
+      end: Math.max(0, current[current.length - 1].end - offset),
+      text: wrapLines(texts(current), maxLineLength, maxLines),
+    });
+    current = [];
+  };
+
+  for (const word of words.filter(isSpokenWord)) {
+    const previous = current[current.length - 1];
+    if (
+      previous &&
+      (word.start - previous.end >= pauseSeconds ||
+        countLines(texts([...current, word]), maxLineLength) > maxLines ||
+        word.end - current[0].start > maxDuration)
+    ) {
+      flush();
+    }
+
+    current.push(word);
+
+    const text = word.word.trim();
+    // A clause break is worth ending on once the first line is full
+    if (SENTENCE_END.test(text) || (CLAUSE_END.test(text) && countLines(texts(current), maxLineLength) > 1)) {
+      flush();
+    }
+  }
+  flush();
+
+  // Keep every cue visible for a moment, without running into the next one
+  for (let i = 0; i < cues.length; i++) {
+    const next = cues[i + 1];
+    const minEnd = cues[i].start + 0.5;
+    if (cues[i].end < minEnd) {
+      cues[i].end = next ? Math.min(minEnd, next.start) : minEnd;
+    }
+    if (next && cues[i].end > next.start) {
+      cues[i].end = next.start;
+    }
+  }
+
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: "." | ","): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+export function formatVtt(cues: Cue[]): string {
+  const escape = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const body = cues
+    .map((cue) => `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${escape(cue.text)}`)
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
+
+export function formatSrt(cues: Cue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`)
+    .join("\n");
+}
+
+const CAPTION_FORMATS = {
+  vtt: { contentType: "text/vtt; charset=utf-8", format: formatVtt },
+  srt: { contentType: "application/x-subrip; charset=utf-8", format: formatSrt },
+};
+
+export type CaptionFormat = keyof typeof CAPTION_FORMATS;
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Reply with captions for the transcript's words, as <baseName>.<format>
+export function sendCaptions(
+  res: NextApiResponse<string | ErrorResponse>,
+  format: CaptionFormat,
+  { transcript, startTime }: TranscriptWithOffset,
+  baseName: string
+) {
+  const { contentType, format: formatCues } = CAPTION_FORMATS[format];
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", `inline; filename="${baseName}.${format}"`);
+  res.status(200).send(formatCues(buildCues(transcript.words, startTime)));
+}
+
+// API route serving a segment's captions, as captions.<format>. Access is checked by the
+// proxy, which also lets shared playlists through for their segments.
+export function createCaptionsHandler(format: CaptionFormat) {
+  return function handler(req: NextApiRequest, res: NextApiResponse<string | ErrorResponse>) {
+    if (req.method !== "GET") {
+      res.setHeader("Allow", ["GET"]);
+      return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+    }
+
+    const { audioFile } = req.query;
+
+    if (!audioFile || typeof audioFile !== "string") {
+      return res.status(400).json({ error: "Audio file parameter is required" });
+    }
+
+    try {
+      const result = getTranscriptByAudioFile(audioFile);
+
+      if (!result) {
+        return res.status(404).json({ error: "Transcript not found" });
+      }
+
+      sendCaptions(res, format, result, audioFile.replace(/\.mp3$/, ""));
+    } catch (error) {
+      console.error("Error building captions:", error);
+      res.status(500).json({ error: "Failed to build captions" });
+    }
+  };
+}
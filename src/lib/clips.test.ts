@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { makeWords } from "@/test/manifest";
+import { clipTranscript, MAX_CLIP_SECONDS, quotePassage, resolveClipRange } from "./clips";
+
+// Words at 100s, 100.5s... in the session; the segment's mp3 starts at 100s
+const transcript = {
+  transcript: { text: "We walked to Lahore that summer", words: makeWords("We walked to Lahore that summer", 100) },
+  startTime: 100,
+};
+
+describe("resolveClipRange", () => {
+  it("takes start and end seconds", () => {
+    expect(resolveClipRange({ start: "1.5", end: "4" }, transcript)).toEqual({ range: { start: 1.5, end: 4 } });
+  });
+
+  it("takes a word range, relative to the mp3", () => {
+    const result = resolveClipRange({ fromWord: "1", toWord: "3" }, transcript);
+    expect(result).toEqual({ range: { start: 0.5, end: expect.closeTo(1.9) } });
+    expect(resolveClipRange({ fromWord: "2" }, transcript)).toEqual({
+      range: { start: 1, end: expect.closeTo(1.4) },
+    });
+  });
+
+  it("rejects word ranges outside the transcript", () => {
+    expect(resolveClipRange({ fromWord: "3", toWord: "1" }, transcript)).toEqual({
+      error: "Word range must be within 0-5",
+    });
+    expect(resolveClipRange({ fromWord: "0", toWord: "6" }, transcript)).toHaveProperty("error");
+    expect(resolveClipRange({ fromWord: "a" }, transcript)).toHaveProperty("error");
+  });
+
+  it("needs a range that runs forwards and isn't too long", () => {
+    expect(resolveClipRange({ start: "1" }, transcript)).toEqual({
+      error: "Either start and end, or fromWord and toWord, are required",
+    });
+    expect(resolveClipRange({ start: "4", end: "4" }, transcript)).toEqual({ error: "End must be after start" });
+    expect(resolveClipRange({ start: "-1", end: "4" }, transcript)).toEqual({ error: "End must be after start" });
+    expect(resolveClipRange({ start: "0", end: String(MAX_CLIP_SECONDS + 1) }, transcript)).toEqual({
+      error: "Clips can be at most 10 minutes long",
+    });
+  });
+});
+
+describe("quotePassage", () => {
+  it("quotes the words that start within the range", () => {
+    expect(quotePassage(transcript, { start: 0.5, end: 2 })).toBe("“walked to Lahore”");
+  });
+
+  it("is empty when nothing is said", () => {
+    expect(quotePassage(transcript, { start: 10, end: 20 })).toBe("");
+  });
+
+  it("shortens long passages", () => {
+    const text = Array(200).fill("remember").join(" ");
+    const long = { transcript: { text, words: makeWords(text) }, startTime: 0 };
+    const quote = quotePassage(long, { start: 0, end: 600 });
+    expect(quote.length).toBeLessThan(510);
+    expect(quote.endsWith("…”")).toBe(true);
+  });
+});
+
+describe("clipTranscript", () => {
+  it("keeps the range's words, timed from the start of the clip", () => {
+    const clip = clipTranscript(transcript, { start: 0.5, end: 2 });
+    expect(clip.transcript.text).toBe("walked to Lahore");
+    expect(clip.transcript.words.map((word) => word.start - clip.startTime)).toEqual([0, 0.5, 1]);
+  });
+
+  it("is empty when nothing is said", () => {
+    expect(clipTranscript(transcript, { start: 10, end: 20 }).transcript).toEqual({ text: "", words: [] });
+  });
+});
@@ -0,0 +1,117 @@
+import fs from "fs";
+import { BOOK_TITLE } from "@/lib/book";
+import { getAudioPath, TranscriptWithOffset, Word } from "@/lib/manifest";
+import { buildId3Tag, cutMp3 } from "@/lib/mp3";
+import { isSpokenWord } from "@/lib/paragraphs";
+import { formatTime } from "@/lib/timeFormat";
+
+// Seconds relative to the start of the segment's mp3
+export interface ClipRange {
+  start: number;
+  end: number;
+}
+
+export interface ClipParams {
+  start?: string;
+  end?: string;
+  // Indices into the segment transcript's words, both included
+  fromWord?: string;
+  toWord?: string;
+}
+
+export interface Clip {
+  data: Buffer;
+  fileName: string;
+}
+
+export const MAX_CLIP_SECONDS = 10 * 60;
+
+// Longest quotation put in the clip's comment tag
+const MAX_QUOTE_LENGTH = 500;
+
+// Work out the clip's range from either start/end seconds or a word range, returning a
+// message for the first problem
+export function resolveClipRange(
+  params: ClipParams,
+  { transcript, startTime }: TranscriptWithOffset
+): { range: ClipRange } | { error: string } {
+  let range: ClipRange;
+
+  if (params.fromWord !== undefined || params.toWord !== undefined) {
+    const from = Number(params.fromWord);
+    const to = Number(params.toWord ?? params.fromWord);
+    const words = transcript.words;
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to < from || to >= words.length) {
+      return { error: `Word range must be within 0-${words.length - 1}` };
+    }
+    range = { start: Math.max(0, words[from].start - startTime), end: words[to].end - startTime };
+  } else {
+    const start = Number(params.start);
+    const end = Number(params.end);
+    if (params.start === undefined || params.end === undefined || !Number.isFinite(start) || !Number.isFinite(end)) {
+      return { error: "Either start and end, or fromWord and toWord, are required" };
+    }
+    range = { start, end };
+  }
+
+  if (range.start < 0 || range.end <= range.start) {
+    return { error: "End must be after start" };
+  }
+  if (range.end - range.start > MAX_CLIP_SECONDS) {
+    return { error: `Clips can be at most ${MAX_CLIP_SECONDS / 60} minutes long` };
+  }
+  return { range };
+}
+
+// The transcript words that start within the range
+function wordsInRange({ transcript, startTime }: TranscriptWithOffset, range: ClipRange): Word[] {
+  return transcript.words.filter(
+    (word) => word.start - startTime >= range.start && word.start - startTime < range.end
+  );
+}
+
+// The words spoken during the range, in quotation marks
+export function quotePassage(transcript: TranscriptWithOffset, range: ClipRange): string {
+  const text = wordsInRange(transcript, range)
+    .filter(isSpokenWord)
+    .map((word) => word.word.trim())
+    .join(" ");
+  const quote = text.length > MAX_QUOTE_LENGTH ? `${text.slice(0, MAX_QUOTE_LENGTH).trimEnd()}…` : text;
+  return quote ? `“${quote}”` : "";
+}
+
+// Just the range's words, timed to go with the clip: startTime moves on by range.start, so
+// word.start - startTime is seconds into the clip rather than the segment
+export function clipTranscript(transcript: TranscriptWithOffset, range: ClipRange): TranscriptWithOffset {
+  const words = wordsInRange(transcript, range);
+  return {
+    transcript: { text: words.map((word) => word.word.trim()).filter(Boolean).join(" "), words },
+    startTime: transcript.startTime + range.start,
+  };
+}
+
+// "The river crossing, 1:05-1:40.mp3", safe to use as a download name
+function clipFileName(subject: string, range: ClipRange): string {
+  const title = subject.replace(/[\\/:*?"<>|]+/g, " ").replace(/\s+/g, " ").trim() || "Clip";
+  return `${title}, ${formatTime(range.start).replace(":", ".")}-${formatTime(range.end).replace(":", ".")}.mp3`;
+}
+
+// Cut the range out of the segment's mp3 and tag it with the subject and what is said
+export function createClip(
+  audioFile: string,
+  subject: string,
+  transcript: TranscriptWithOffset,
+  range: ClipRange
+): Clip | null {
+  const audio = cutMp3(fs.readFileSync(getAudioPath(audioFile)), range.start, range.end);
+  if (audio.length === 0) {
+    return null;
+  }
+
+  const tag = buildId3Tag({
+    title: `${subject} (${formatTime(range.start)}–${formatTime(range.end)})`,
+    album: BOOK_TITLE,
+    comment: quotePassage(transcript, range),
+  });
+  return { data: Buffer.concat([tag, audio]), fileName: clipFileName(subject, range) };
+}
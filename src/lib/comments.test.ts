@@ -0,0 +1,82 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { addComment, deleteComment, listComments, SegmentComment } from "./comments";
+
+const asha = { id: "user-1", name: "Asha", role: "viewer" as const };
+const ravi = { id: "user-2", name: "Ravi", role: "viewer" as const };
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "comments-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function post(text: string, parentId: string | null = null, audioFile = "a.mp3"): SegmentComment {
+  const result = addComment(audioFile, asha, { text, anchor: parentId ? null : { start: 5, end: 5 }, parentId });
+  if ("error" in result) {
+    throw new Error(result.error);
+  }
+  return result.comment;
+}
+
+describe("addComment", () => {
+  it("adds replies to the thread", () => {
+    const thread = post("Who is Chachaji?");
+    const reply = addComment("a.mp3", ravi, { text: "Rajan Vedi", anchor: null, parentId: thread.id });
+    expect(reply).toMatchObject({ comment: { parentId: thread.id, author: { name: "Ravi" } } });
+    expect(listComments("a.mp3")[0].replies.map((r) => r.text)).toEqual(["Rajan Vedi"]);
+  });
+
+  it("refuses replies to comments that don't exist or are on another segment", () => {
+    const thread = post("Who is Chachaji?", null, "b.mp3");
+    expect(addComment("a.mp3", ravi, { text: "hi", anchor: null, parentId: "missing" })).toEqual({
+      error: "Comment not found",
+      kind: "not-found",
+    });
+    expect(addComment("a.mp3", ravi, { text: "hi", anchor: null, parentId: thread.id })).toEqual({
+      error: "Comment not found",
+      kind: "not-found",
+    });
+  });
+
+  it("refuses replies to a deleted thread", () => {
+    const thread = post("Who is Chachaji?");
+    post("Rajan Vedi", thread.id);
+    deleteComment(thread.id);
+
+    expect(addComment("a.mp3", ravi, { text: "hi", anchor: null, parentId: thread.id })).toEqual({
+      error: "That comment has been deleted",
+      kind: "deleted",
+    });
+    expect(listComments("a.mp3")[0].replies).toHaveLength(1);
+  });
+
+  it("refuses replies to replies", () => {
+    const reply = post("Rajan Vedi", post("Who is Chachaji?").id);
+    expect(addComment("a.mp3", ravi, { text: "hi", anchor: null, parentId: reply.id })).toEqual({
+      error: "Replies can't be replied to; reply to the thread instead",
+      kind: "invalid",
+    });
+  });
+});
+
+describe("deleteComment", () => {
+  it("keeps a deleted thread, without its text, while it has replies", () => {
+    const thread = post("Who is Chachaji?");
+    const reply = post("Rajan Vedi", thread.id);
+
+    deleteComment(thread.id);
+    expect(listComments("a.mp3")[0]).toMatchObject({ deleted: true, text: "" });
+
+    deleteComment(reply.id);
+    expect(listComments("a.mp3")).toEqual([]);
+  });
+});
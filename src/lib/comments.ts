@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import { readStore, updateStore } from "@/lib/jsonStore";
+import { TranscriptWithOffset } from "@/lib/manifest";
+import { hasRole, type CurrentUser } from "@/lib/users";
+
+// Where in a segment a comment applies, in seconds into its mp3. A comment on a single
+// moment has end equal to start.
+export interface CommentAnchor {
+  start: number;
+  end: number;
+}
+
+// A note on a segment, e.g. who "Chachaji" is. Replies belong to a top-level comment and
+// have no anchor of their own.
+export interface SegmentComment {
+  id: string;
+  audioFile: string;
+  parentId: string | null;
+  anchor: CommentAnchor | null;
+  text: string;
+  author: { id: string; name: string };
+  createdAt: string;
+  editedAt: string | null;
+  // A deleted comment that still has replies stays, without its text, to hold the thread
+  deleted: boolean;
+}
+
+export interface CommentThread extends SegmentComment {
+  replies: SegmentComment[];
+}
+
+export interface CommentInput {
+  text: string;
+  anchor: CommentAnchor | null;
+  parentId: string | null;
+}
+
+// Why a reply was refused: its parent is gone, was deleted, or is itself a reply
+export interface ReplyError {
+  error: string;
+  kind: "not-found" | "deleted" | "invalid";
+}
+
+interface CommentStore {
+  comments: SegmentComment[];
+}
+
+export const MAX_COMMENT_LENGTH = 2000;
+
+const STORE_NAME = "comments";
+
+const emptyStore = (): CommentStore => ({ comments: [] });
+
+// A segment's comments as threads, in the order they come up in the recording, each with
+// its replies oldest first
+export function listComments(audioFile: string): CommentThread[] {
+  const comments = readStore(STORE_NAME, emptyStore()).comments.filter((c) => c.audioFile === audioFile);
+  const byTime = (a: SegmentComment, b: SegmentComment) => a.createdAt.localeCompare(b.createdAt);
+
+  return comments
+    .filter((comment) => comment.parentId === null)
+    .sort((a, b) => (a.anchor?.start ?? 0) - (b.anchor?.start ?? 0) || byTime(a, b))
+    .map((thread) => ({
+      ...thread,
+      replies: comments.filter((c) => c.parentId === thread.id).sort(byTime),
+    }));
+}
+
+function parseText(text: unknown): string | { error: string } {
+  if (typeof text !== "string" || !text.trim()) {
+    return { error: "Comment text is required" };
+  }
+  if (text.trim().length > MAX_COMMENT_LENGTH) {
+    return { error: `Comments must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+  return text.trim();
+}
+
+// Check a POST body: the text, and for a new thread an anchor given either as start (and
+// optionally end) seconds or as fromWord/toWord indices into the transcript's words.
+// Replies take parentId instead.
+export function parseCommentInput(
+  body: unknown,
+  { transcript, startTime }: TranscriptWithOffset,
+  duration: number
+): { input: CommentInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+
+  const { text, parentId, start, end, fromWord, toWord } = body as Record<string, unknown>;
+  const parsedText = parseText(text);
+  if (typeof parsedText !== "string") {
+    return parsedText;
+  }
+
+  if (parentId !== undefined && parentId !== null) {
+    if (typeof parentId !== "string") {
+      return { error: "parentId must be a comment id" };
+    }
+    return { input: { text: parsedText, anchor: null, parentId } };
+  }
+
+  let anchor: CommentAnchor;
+  if (fromWord !== undefined || toWord !== undefined) {
+    const from = Number(fromWord);
+    const to = Number(toWord ?? fromWord);
+    const words = transcript.words;
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < 0 || to < from || to >= words.length) {
+      return { error: `Word range must be within 0-${words.length - 1}` };
+    }
+    anchor = { start: Math.max(0, words[from].start - startTime), end: words[to].end - startTime };
+  } else {
+    if (typeof start !== "number" || !Number.isFinite(start) || start < 0) {
+      return { error: "Either start (and end) seconds, or fromWord and toWord, are required" };
+    }
+    const until = end ?? start;
+    if (typeof until !== "number" || !Number.isFinite(until) || until < start) {
+      return { error: "End must not be before start" };
+    }
+    anchor = { start, end: until };
+  }
+
+  if (anchor.start > duration) {
+    return { error: "Start is past the end of the recording" };
+  }
+  anchor.end = Math.min(anchor.end, duration);
+  return { input: { text: parsedText, anchor, parentId: null } };
+}
+
+// Check a PATCH body, which can only change the text
+export function parseCommentEdit(body: unknown): { text: string } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+  const text = parseText((body as Record<string, unknown>).text);
+  return typeof text === "string" ? { text } : text;
+}
+
+export function addComment(
+  audioFile: string,
+  user: CurrentUser,
+  input: CommentInput
+): { comment: SegmentComment } | ReplyError {
+  return updateStore(STORE_NAME, emptyStore(), (store): { comment: SegmentComment } | ReplyError => {
+    if (input.parentId !== null) {
+      const parent = store.comments.find((c) => c.id === input.parentId && c.audioFile === audioFile);
+      if (!parent) {
+        return { error: "Comment not found", kind: "not-found" };
+      }
+      // A deleted comment only stays to hold its existing replies
+      if (parent.deleted) {
+        return { error: "That comment has been deleted", kind: "deleted" };
+      }
+      if (parent.parentId !== null) {
+        return { error: "Replies can't be replied to; reply to the thread instead", kind: "invalid" };
+      }
+    }
+
+    const comment: SegmentComment = {
+      id: crypto.randomUUID(),
+      audioFile,
+      parentId: input.parentId,
+      anchor: input.anchor,
+      text: input.text,
+      author: { id: user.id, name: user.name },
+      createdAt: new Date().toISOString(),
+      editedAt: null,
+      deleted: false,
+    };
+    store.comments.push(comment);
+    return { comment };
+  });
+}
+
+export function getComment(audioFile: string, id: string): SegmentComment | null {
+  return (
+    readStore(STORE_NAME, emptyStore()).comments.find((c) => c.id === id && c.audioFile === audioFile) ?? null
+  );
+}
+
+// Only the author edits a comment; admins can also delete one
+export function canEditComment(user: CurrentUser, comment: SegmentComment): boolean {
+  return comment.author.id === user.id;
+}
+
+export function canDeleteComment(user: CurrentUser, comment: SegmentComment): boolean {
+  return comment.author.id === user.id || hasRole(user, "admin");
+}
+
+export function editComment(id: string, text: string): SegmentComment | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const comment = store.comments.find((c) => c.id === id && !c.deleted);
+    if (!comment) {
+      return null;
+    }
+    comment.text = text;
+    comment.editedAt = new Date().toISOString();
+    return comment;
+  });
+}
+
+// Remove a comment. A thread with replies keeps an empty placeholder, which goes once its
+// last reply does.
+export function deleteComment(id: string): boolean {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const comment = store.comments.find((c) => c.id === id);
+    if (!comment) {
+      return false;
+    }
+
+    const hasReplies = store.comments.some((c) => c.parentId === id);
+    if (hasReplies) {
+      comment.deleted = true;
+      comment.text = "";
+      return true;
+    }
+
+    store.comments = store.comments.filter((c) => c.id !== id);
+    const parent = store.comments.find((c) => c.id === comment.parentId);
+    if (parent?.deleted && !store.comments.some((c) => c.parentId === parent.id)) {
+      store.comments = store.comments.filter((c) => c.id !== parent.id);
+    }
+    return true;
+  });
+}
@@ -0,0 +1,99 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Manifest } from "@/lib/manifest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { entityId, getEntity, getEntityDefinitions, listEntities } from "./entities";
+
+let manifest: Manifest = makeManifest([]);
+
+vi.mock("@/lib/manifest", () => ({
+  getManifest: () => manifest,
+  getAllSegments: () => [],
+}));
+
+let dir: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "entities-"));
+  fs.mkdirSync(path.join(dir, "public", "audio"), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, "public", "audio", "entities.json"),
+    JSON.stringify({
+      people: [{ name: "Rajan Vedi", aliases: ["Chachaji"] }, { name: "  " }],
+      places: [{ name: "Anarkali Bazaar", aliases: ["Anarkali"] }, { name: "Lahore", aliases: ["Lahore city"] }],
+    })
+  );
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("entityId", () => {
+  it("slugs the name under its type", () => {
+    expect(entityId("place", "Anarkali Bazaar")).toBe("place-anarkali-bazaar");
+    expect(entityId("person", "Crème Brûlée")).toBe("person-creme-brulee");
+    expect(entityId("place", "लाहौर")).toBe("place-लाहौर");
+  });
+});
+
+describe("getEntityDefinitions", () => {
+  it("combines curated people and places with the built-in places", () => {
+    const definitions = getEntityDefinitions();
+    expect(definitions.filter((d) => d.type === "person").map((d) => d.name)).toEqual(["Rajan Vedi"]);
+    expect(definitions.find((d) => d.name === "Delhi")?.aliases).toContain("New Delhi");
+  });
+
+  it("lets a curated place replace the built-in one of the same name", () => {
+    const lahores = getEntityDefinitions().filter((d) => d.name === "Lahore");
+    expect(lahores).toEqual([{ name: "Lahore", type: "place", aliases: ["Lahore city"] }]);
+  });
+});
+
+describe("entity index", () => {
+  it("finds people, places and years, with their context", () => {
+    manifest = makeManifest([
+      makeSegment("a.mp3", "In 1947 Chachaji's shop in Anarkali was burned and we left Lahore", { startTime: 100 }),
+      makeSegment("b.mp3", "By the 1950s we lived in New Delhi near Rajan Vedi", { segmentIndex: 1 }),
+    ]);
+
+    const chachaji = getEntity("person-rajan-vedi");
+    expect(chachaji).toMatchObject({ mentionCount: 2, segmentCount: 2 });
+    expect(chachaji?.mentions[0]).toMatchObject({
+      audioFile: "a.mp3",
+      wordIndex: 2,
+      timestamp: 1,
+      matched: "Chachaji's",
+      before: "In 1947",
+      after: "shop in Anarkali was burned and we left",
+    });
+    expect(chachaji?.mentions[1].matched).toBe("Rajan Vedi");
+
+    expect(getEntity("place-anarkali-bazaar")?.mentions[0].matched).toBe("Anarkali");
+    expect(getEntity("year-1947")?.mentionCount).toBe(1);
+    expect(getEntity("year-1950s")?.mentions[0].audioFile).toBe("b.mp3");
+  });
+
+  it("matches the longest alias, so New Delhi is one mention of Delhi", () => {
+    manifest = makeManifest([makeSegment("a.mp3", "from New Delhi to Delhi")]);
+    expect(getEntity("place-delhi")?.mentions.map((m) => m.matched)).toEqual(["New Delhi", "Delhi"]);
+  });
+
+  it("only counts years from 1850 to 2029", () => {
+    manifest = makeManifest([makeSegment("a.mp3", "1849 1850 2029 2030 300")]);
+    expect(listEntities("year").map((e) => e.name)).toEqual(["1850", "2029"]);
+  });
+
+  it("lists entities by name, optionally of one type", () => {
+    manifest = makeManifest([makeSegment("a.mp3", "Lahore Amritsar 1947 Chachaji")]);
+    expect(listEntities().map((e) => e.id)).toEqual(["year-1947", "place-amritsar", "place-lahore", "person-rajan-vedi"]);
+    expect(listEntities("place")).toEqual([
+      { id: "place-amritsar", name: "Amritsar", type: "place", mentionCount: 1, segmentCount: 1 },
+      { id: "place-lahore", name: "Lahore", type: "place", mentionCount: 1, segmentCount: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,278 @@
+import fs from "fs";
+import path from "path";
+import { getAllSegments, getManifest, Manifest } from "@/lib/manifest";
+import { isSpokenWord } from "@/lib/paragraphs";
+import { normalizeWord } from "@/lib/search/lexicalSearch";
+// Places that come up across family histories of the Punjab and Partition, so a bare
+// collection still gets a useful index. The alias list adds to these and can override them.
+// Also read by scripts/entities.mjs, so it doesn't suggest them.
+import BUILT_IN_PLACES from "@/lib/builtInPlaces.json";
+
+export type EntityType = "person" | "place" | "year";
+
+export const ENTITY_TYPES: EntityType[] = ["person", "place", "year"];
+
+// One way an entity is spoken of, from the alias list or the built-in places
+export interface EntityDefinition {
+  name: string;
+  type: EntityType;
+  // Other names for the same person or place, e.g. "Chachaji" or "Bombay"
+  aliases: string[];
+}
+
+export interface EntityMention {
+  audioFile: string;
+  // Index into the segment transcript's words of the mention's first word
+  wordIndex: number;
+  // Seconds relative to the start of the segment's mp3
+  timestamp: number;
+  // The words as spoken, e.g. "Lahore" or "Chachaji"
+  matched: string;
+  // A few words either side, for context
+  before: string;
+  after: string;
+}
+
+export interface EntitySummary {
+  // Stable for links, e.g. "place-lahore" or "year-1947"
+  id: string;
+  name: string;
+  type: EntityType;
+  mentionCount: number;
+  segmentCount: number;
+}
+
+export interface Entity extends EntitySummary {
+  aliases: string[];
+  // In manifest order
+  mentions: EntityMention[];
+}
+
+interface AliasList {
+  people?: { name: string; aliases?: string[] }[];
+  places?: { name: string; aliases?: string[] }[];
+}
+
+interface EntityIndex {
+  manifest: Manifest;
+  aliasVersion: number;
+  entities: Entity[];
+}
+
+// The curated list of people and places, beside the manifest. Re-read when it changes.
+const ALIAS_LIST_PATH = path.join("public", "audio", "entities.json");
+
+const CONTEXT_WORDS = 8;
+
+// Years from 1850 to 2029, and decades like "1940s"
+const YEAR_PATTERN = /^(18[5-9]\d|19\d\d|20[0-2]\d)s?$/;
+
+let cachedAliasMtime = -1;
+let cachedAliasList: AliasList = {};
+
+function cleanDefinitions(entries: unknown, type: EntityType): EntityDefinition[] {
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+  return entries
+    .filter((entry) => entry && typeof entry.name === "string" && entry.name.trim())
+    .map((entry) => ({
+      name: entry.name.trim(),
+      type,
+      aliases: Array.isArray(entry.aliases)
+        ? entry.aliases.filter((alias: unknown): alias is string => typeof alias === "string" && alias.trim() !== "")
+        : [],
+    }));
+}
+
+// Read the alias list if it changed. A missing file just means no curated names; a broken
+// one is logged and the last good version kept, as with the manifest.
+function loadAliasList(): number {
+  const aliasPath = path.join(process.cwd(), ALIAS_LIST_PATH);
+  let mtime: number;
+  try {
+    mtime = fs.statSync(aliasPath).mtimeMs;
+  } catch {
+    cachedAliasMtime = 0;
+    cachedAliasList = {};
+    return 0;
+  }
+  if (mtime === cachedAliasMtime) {
+    return mtime;
+  }
+
+  try {
+    cachedAliasList = JSON.parse(fs.readFileSync(aliasPath, "utf-8"));
+  } catch (error) {
+    console.error("Error loading entity alias list:", error instanceof Error ? error.message : error);
+  }
+  cachedAliasMtime = mtime;
+  return mtime;
+}
+
+// Built-in places plus the curated list. A curated place with the same name as a built-in
+// one replaces it.
+export function getEntityDefinitions(): EntityDefinition[] {
+  loadAliasList();
+  const curatedPlaces = cleanDefinitions(cachedAliasList.places, "place");
+  const curatedNames = new Set(curatedPlaces.map((place) => place.name.toLowerCase()));
+  return [
+    ...cleanDefinitions(cachedAliasList.people, "person"),
+    ...cleanDefinitions(BUILT_IN_PLACES, "place").filter((place) => !curatedNames.has(place.name.toLowerCase())),
+    ...curatedPlaces,
+  ];
+}
+
+// Accents come off Latin letters ("Crème" -> "creme"); other scripts keep their vowel signs
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function entityId(type: EntityType, name: string): string {
+  return `${type}-${slugify(name)}`;
+}
+
+interface Matcher {
+  tokens: string[];
+  definition: EntityDefinition;
+}
+
+// Find every mention in every transcript. Names are matched on whole normalized words,
+// longest alias first, so "New Delhi" is one mention rather than a mention of Delhi.
+function buildEntityIndex(manifest: Manifest, definitions: EntityDefinition[], aliasVersion: number): EntityIndex {
+  const matchers: Matcher[] = definitions
+    .flatMap((definition) =>
+      [definition.name, ...definition.aliases].map((alias) => ({
+        tokens: alias.split(/\s+/).map(normalizeWord).filter(Boolean),
+        definition,
+      }))
+    )
+    .filter((matcher) => matcher.tokens.length > 0)
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+
+  // First token -> matchers starting with it
+  const byFirstToken = new Map<string, Matcher[]>();
+  for (const matcher of matchers) {
+    const list = byFirstToken.get(matcher.tokens[0]) ?? [];
+    list.push(matcher);
+    byFirstToken.set(matcher.tokens[0], list);
+  }
+
+  const entities = new Map<string, Entity>();
+  const add = (definition: EntityDefinition, mention: EntityMention) => {
+    const id = entityId(definition.type, definition.name);
+    let entity = entities.get(id);
+    if (!entity) {
+      entity = {
+        id,
+        name: definition.name,
+        type: definition.type,
+        aliases: definition.aliases,
+        mentionCount: 0,
+        segmentCount: 0,
+        mentions: [],
+      };
+      entities.set(id, entity);
+    }
+    entity.mentions.push(mention);
+  };
+
+  for (const session of manifest.sessions) {
+    for (const segment of session.segments) {
+      const { words } = segment.transcript;
+      const spoken = words.map((word, index) => ({ word, index })).filter(({ word }) => isSpokenWord(word));
+      // "Chachaji's" is a mention of Chachaji
+      const tokens = spoken.map(({ word }) => normalizeWord(word.word.replace(/['’]s(?=\W*$)/i, "")));
+      const startTime = segment.metadata.startTime;
+
+      const mention = (from: number, length: number): EntityMention => ({
+        audioFile: segment.audioFile,
+        wordIndex: spoken[from].index,
+        timestamp: Math.max(0, spoken[from].word.start - startTime),
+        matched: spoken
+          .slice(from, from + length)
+          .map(({ word }) => word.word.trim())
+          .join(" "),
+        before: spoken
+          .slice(Math.max(0, from - CONTEXT_WORDS), from)
+          .map(({ word }) => word.word.trim())
+          .join(" "),
+        after: spoken
+          .slice(from + length, from + length + CONTEXT_WORDS)
+          .map(({ word }) => word.word.trim())
+          .join(" "),
+      });
+
+      for (let i = 0; i < tokens.length; i++) {
+        const match = (byFirstToken.get(tokens[i]) ?? []).find((matcher) =>
+          matcher.tokens.every((token, offset) => tokens[i + offset] === token)
+        );
+        if (match) {
+          add(match.definition, mention(i, match.tokens.length));
+          i += match.tokens.length - 1;
+          continue;
+        }
+
+        if (YEAR_PATTERN.test(tokens[i])) {
+          add({ name: tokens[i], type: "year", aliases: [] }, mention(i, 1));
+        }
+      }
+    }
+  }
+
+  for (const entity of entities.values()) {
+    entity.mentionCount = entity.mentions.length;
+    entity.segmentCount = new Set(entity.mentions.map((m) => m.audioFile)).size;
+  }
+
+  return { manifest, aliasVersion, entities: [...entities.values()] };
+}
+
+// The index is rebuilt when the manifest (with its edits) or the alias list changes
+let cachedIndex: EntityIndex | null = null;
+
+function getEntityIndex(): EntityIndex {
+  const manifest = getManifest();
+  const aliasVersion = loadAliasList();
+  if (!cachedIndex || cachedIndex.manifest !== manifest || cachedIndex.aliasVersion !== aliasVersion) {
+    cachedIndex = buildEntityIndex(manifest, getEntityDefinitions(), aliasVersion);
+  }
+  return cachedIndex;
+}
+
+// Everything mentioned at least once: people and places by name, years in order
+export function listEntities(type?: EntityType): EntitySummary[] {
+  return getEntityIndex()
+    .entities.filter((entity) => !type || entity.type === type)
+    .map(({ id, name, type: entityType, mentionCount, segmentCount }) => ({
+      id,
+      name,
+      type: entityType,
+      mentionCount,
+      segmentCount,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+export function getEntity(id: string): Entity | null {
+  return getEntityIndex().entities.find((entity) => entity.id === id) ?? null;
+}
+
+// A mention with the segment it is in, for listing and playing it
+export interface EntityMentionView extends EntityMention {
+  subject: string;
+  sessionId: string;
+}
+
+export function describeMentions(mentions: EntityMention[]): EntityMentionView[] {
+  const segments = new Map(getAllSegments().map((segment) => [segment.audioFile, segment]));
+  return mentions.flatMap((mention) => {
+    const segment = segments.get(mention.audioFile);
+    return segment ? [{ ...mention, subject: segment.subject, sessionId: segment.sessionId }] : [];
+  });
+}
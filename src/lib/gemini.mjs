@@ -0,0 +1,9 @@
+// Gemini settings shared by the app's search (src/lib/search/geminiProvider.ts) and the
+// scripts that draft with --llm (through scripts/lib/gemini.mjs)
+
+// Used when GEMINI_MODEL isn't set
+export const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash";
+
+export function getGeminiModel() {
+  return process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL;
+}
@@ -0,0 +1,52 @@
+import fs from "fs";
+import path from "path";
+
+// Runtime data (accounts, edits, share tokens...) lives in small JSON files under DATA_DIR,
+// which defaults to ./data next to the app
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), "data");
+}
+
+function resolveStorePath(name: string): string {
+  return path.join(getDataDir(), `${name}.json`);
+}
+
+export function readStore<T>(name: string, fallback: T): T {
+  const storePath = resolveStorePath(name);
+  if (!fs.existsSync(storePath)) {
+    return fallback;
+  }
+  return JSON.parse(fs.readFileSync(storePath, "utf-8")) as T;
+}
+
+// Writes made by this process, per store. Two writes within the file system's mtime
+// resolution leave the mtime unchanged, so the count is what versions our own writes.
+const writeCounts = new Map<string, number>();
+
+// Changes whenever the store is written; "0:0" if it doesn't exist yet. Lets callers cache
+// data derived from a store. The mtime catches writes by other processes, or by copies of
+// this module bundled into other routes.
+export function getStoreVersion(name: string): string {
+  const storePath = resolveStorePath(name);
+  const mtime = fs.existsSync(storePath) ? fs.statSync(storePath).mtimeMs : 0;
+  return `${writeCounts.get(name) ?? 0}:${mtime}`;
+}
+
+// Write via a temporary file and rename, so readers never see a half-written store
+export function writeStore<T>(name: string, data: T): void {
+  const storePath = resolveStorePath(name);
+  fs.mkdirSync(path.dirname(storePath), { recursive: true });
+
+  const tempPath = `${storePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, storePath);
+  writeCounts.set(name, (writeCounts.get(name) ?? 0) + 1);
+}
+
+// Read, modify and write a store in one step. The updater may mutate the data in place.
+export function updateStore<T, R>(name: string, fallback: T, updater: (data: T) => R): R {
+  const data = readStore(name, fallback);
+  const result = updater(data);
+  writeStore(name, data);
+  return result;
+}
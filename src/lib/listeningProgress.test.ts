@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseProgressUpdate } from "./listeningProgress";
+
+describe("parseProgressUpdate", () => {
+  it("accepts a position and duration, defaulting completed to false", () => {
+    expect(parseProgressUpdate({ position: 12.5, duration: 60 })).toEqual({
+      update: { position: 12.5, duration: 60, completed: false, updatedAt: undefined },
+    });
+  });
+
+  it("keeps completed and the time the position was recorded", () => {
+    const updatedAt = "2026-03-01T10:00:00.000Z";
+    expect(parseProgressUpdate({ position: 60, duration: 60, completed: true, updatedAt })).toEqual({
+      update: { position: 60, duration: 60, completed: true, updatedAt },
+    });
+  });
+
+  it("caps the position at the duration", () => {
+    expect(parseProgressUpdate({ position: 75, duration: 60 })).toMatchObject({ update: { position: 60 } });
+  });
+
+  it("rejects bad positions, durations, flags and dates", () => {
+    expect(parseProgressUpdate(null)).toEqual({ error: "Request body must be an object" });
+    expect(parseProgressUpdate({ position: -1, duration: 60 })).toEqual({
+      error: "Position must be a non-negative number",
+    });
+    expect(parseProgressUpdate({ position: Infinity, duration: 60 })).toEqual({
+      error: "Position must be a non-negative number",
+    });
+    expect(parseProgressUpdate({ position: 0, duration: 0 })).toEqual({ error: "Duration must be a positive number" });
+    expect(parseProgressUpdate({ position: 0, duration: 60, completed: "yes" })).toEqual({
+      error: "Completed must be a boolean",
+    });
+    expect(parseProgressUpdate({ position: 0, duration: 60, updatedAt: "yesterday" })).toEqual({
+      error: "updatedAt must be an ISO date",
+    });
+  });
+});
@@ -0,0 +1,54 @@
+// Shared with the player in the browser, so no server-only imports here; saved progress
+// is read and written by listeningProgressStore
+
+// How far someone has got through one segment
+export interface ListeningProgress {
+  // Seconds into the segment's mp3
+  position: number;
+  duration: number;
+  // Stays set once the segment has been heard to the end, even if it is played again
+  completed: boolean;
+  updatedAt: string;
+}
+
+export interface ProgressUpdate {
+  position: number;
+  duration: number;
+  completed: boolean;
+  // When the position was recorded, for progress saved in the browser while offline
+  updatedAt?: string;
+}
+
+// Stopping this close to the end counts as having listened to the whole segment
+export const COMPLETION_MARGIN_SECONDS = 15;
+
+// Check a PUT body, returning the update or a message for the first problem
+export function parseProgressUpdate(body: unknown): { update: ProgressUpdate } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+
+  const { position, duration, completed, updatedAt } = body as Record<string, unknown>;
+
+  if (typeof position !== "number" || !Number.isFinite(position) || position < 0) {
+    return { error: "Position must be a non-negative number" };
+  }
+  if (typeof duration !== "number" || !Number.isFinite(duration) || duration <= 0) {
+    return { error: "Duration must be a positive number" };
+  }
+  if (completed !== undefined && typeof completed !== "boolean") {
+    return { error: "Completed must be a boolean" };
+  }
+  if (updatedAt !== undefined && (typeof updatedAt !== "string" || isNaN(Date.parse(updatedAt)))) {
+    return { error: "updatedAt must be an ISO date" };
+  }
+
+  return {
+    update: {
+      position: Math.min(position, duration),
+      duration,
+      completed: completed === true,
+      updatedAt,
+    },
+  };
+}
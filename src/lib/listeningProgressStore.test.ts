@@ -0,0 +1,64 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { COMPLETION_MARGIN_SECONDS } from "./listeningProgress";
+import { getProgress, saveProgress } from "./listeningProgressStore";
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "progress-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("saveProgress", () => {
+  it("keeps each listener's progress separately", () => {
+    saveProgress("user-1", "a.mp3", { position: 10, duration: 120, completed: false });
+    saveProgress("user-2", "a.mp3", { position: 50, duration: 120, completed: false });
+
+    expect(getProgress("user-1")).toEqual({
+      "a.mp3": { position: 10, duration: 120, completed: false, updatedAt: expect.any(String) },
+    });
+    expect(getProgress("user-2")["a.mp3"].position).toBe(50);
+    expect(getProgress("user-3")).toEqual({});
+  });
+
+  it("counts stopping within the completion margin of the end as finished", () => {
+    const nearEnd = 120 - COMPLETION_MARGIN_SECONDS;
+    const short = saveProgress("user-1", "a.mp3", { position: nearEnd - 1, duration: 120, completed: false });
+    expect(short.completed).toBe(false);
+
+    const within = saveProgress("user-1", "a.mp3", { position: nearEnd, duration: 120, completed: false });
+    expect(within.completed).toBe(true);
+  });
+
+  it("stays completed when the segment is played again from the start", () => {
+    saveProgress("user-1", "a.mp3", { position: 120, duration: 120, completed: true });
+    expect(saveProgress("user-1", "a.mp3", { position: 5, duration: 120, completed: false })).toMatchObject({
+      position: 5,
+      completed: true,
+    });
+  });
+
+  it("ignores positions recorded before the stored one", () => {
+    saveProgress("user-1", "a.mp3", { position: 80, duration: 120, completed: false });
+    const stale = new Date(Date.now() - 60_000).toISOString();
+
+    const saved = saveProgress("user-1", "a.mp3", { position: 20, duration: 120, completed: false, updatedAt: stale });
+    expect(saved.position).toBe(80);
+  });
+
+  it("doesn't let a client clock ahead of the server's win later saves", () => {
+    const future = new Date(Date.now() + 60 * 60_000).toISOString();
+    const saved = saveProgress("user-1", "a.mp3", { position: 80, duration: 120, completed: false, updatedAt: future });
+    expect(Date.parse(saved.updatedAt)).toBeLessThanOrEqual(Date.now());
+
+    expect(saveProgress("user-1", "a.mp3", { position: 90, duration: 120, completed: false }).position).toBe(90);
+  });
+});
@@ -0,0 +1,43 @@
+import { readStore, updateStore } from "@/lib/jsonStore";
+import { COMPLETION_MARGIN_SECONDS, ListeningProgress, ProgressUpdate } from "@/lib/listeningProgress";
+
+interface ProgressStore {
+  // userId -> audioFile -> progress
+  users: Record<string, Record<string, ListeningProgress>>;
+}
+
+const STORE_NAME = "listening-progress";
+
+const emptyStore = (): ProgressStore => ({ users: {} });
+
+export function getProgress(userId: string): Record<string, ListeningProgress> {
+  return readStore(STORE_NAME, emptyStore()).users[userId] ?? {};
+}
+
+// Record a position, unless the stored one is more recent (another device got further
+// since). Returns what is stored afterwards.
+export function saveProgress(userId: string, audioFile: string, update: ProgressUpdate): ListeningProgress {
+  const now = Date.now();
+  // Never trust a client clock that is ahead of ours
+  const recordedAt = update.updatedAt ? Math.min(Date.parse(update.updatedAt), now) : now;
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const progress = (store.users[userId] ??= {});
+    const existing = progress[audioFile];
+    if (existing && Date.parse(existing.updatedAt) > recordedAt) {
+      return existing;
+    }
+
+    const entry: ListeningProgress = {
+      position: update.position,
+      duration: update.duration,
+      completed:
+        update.completed ||
+        existing?.completed === true ||
+        update.position >= update.duration - COMPLETION_MARGIN_SECONDS,
+      updatedAt: new Date(recordedAt).toISOString(),
+    };
+    progress[audioFile] = entry;
+    return entry;
+  });
+}
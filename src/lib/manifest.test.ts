@@ -0,0 +1,105 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { getManifest, getManifestStatus } from "./manifest";
+import { saveMetadataEdit } from "./segmentEdits";
+import { saveRevision } from "./transcriptEdits";
+
+const editor = { id: "user-1", name: "Asha", role: "editor" as const };
+
+const original = {
+  subject: "The walk to school",
+  description: "",
+  tags: [],
+};
+
+let dir: string;
+
+// Give a store the same mtime after every write, as two writes within the file system's
+// timestamp resolution would have
+function freezeMtime(store: string) {
+  const time = new Date("2024-01-01T00:00:00.000Z");
+  fs.utimesSync(path.join(dir, "data", `${store}.json`), time, time);
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+  fs.mkdirSync(path.join(dir, "public", "audio"), { recursive: true });
+  fs.writeFileSync(
+    path.join(dir, "public", "audio", "manifest.json"),
+    JSON.stringify(makeManifest([makeSegment("a.mp3", "we walked to school", { subject: original.subject })]))
+  );
+  vi.spyOn(process, "cwd").mockReturnValue(dir);
+  vi.stubEnv("DATA_DIR", path.join(dir, "data"));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// Replace manifest.json, with an mtime later than any earlier write so it is re-read
+function replaceManifest(contents: string, minutesLater: number) {
+  const file = path.join(dir, "public", "audio", "manifest.json");
+  fs.writeFileSync(file, contents);
+  const time = new Date(Date.now() + minutesLater * 60 * 1000);
+  fs.utimesSync(file, time, time);
+}
+
+function firstSegment() {
+  return getManifest().sessions[0].segments[0];
+}
+
+describe("getManifest", () => {
+  it("applies each metadata edit, even when the store's mtime doesn't change", () => {
+    saveMetadataEdit("a.mp3", original, { subject: "Walking to school" }, editor);
+    freezeMtime("segment-edits");
+    expect(firstSegment().metadata.subject).toBe("Walking to school");
+
+    saveMetadataEdit("a.mp3", { ...original, subject: "Walking to school" }, { subject: "Off to school" }, editor);
+    freezeMtime("segment-edits");
+    expect(firstSegment().metadata.subject).toBe("Off to school");
+  });
+
+  it("applies each transcript revision, even when the store's mtime doesn't change", () => {
+    saveRevision("a.mp3", [{ word: "we", start: 0, end: 0.4 }], editor);
+    freezeMtime("transcript-edits");
+    expect(firstSegment().transcript.text).toBe("we");
+
+    saveRevision("a.mp3", [{ word: "they", start: 0, end: 0.4 }], editor);
+    freezeMtime("transcript-edits");
+    expect(firstSegment().transcript.text).toBe("they");
+  });
+});
+
+describe("getManifest when manifest.json goes bad", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("keeps serving the last good manifest when the file doesn't parse", () => {
+    expect(firstSegment().metadata.subject).toBe(original.subject);
+
+    replaceManifest('{"sessions": [', 1);
+    expect(firstSegment().metadata.subject).toBe(original.subject);
+    expect(getManifestStatus().error).toMatch(/JSON/);
+  });
+
+  it("keeps serving the last good manifest when the file fails validation", () => {
+    expect(firstSegment().metadata.subject).toBe(original.subject);
+
+    const duplicated = makeManifest([makeSegment("a.mp3", "one"), makeSegment("a.mp3", "two")]);
+    replaceManifest(JSON.stringify(duplicated), 2);
+    expect(firstSegment().metadata.subject).toBe(original.subject);
+    expect(getManifestStatus().errors).toEqual([
+      expect.objectContaining({ path: "$.sessions[0].segments[1].audioFile" }),
+    ]);
+
+    replaceManifest(JSON.stringify(makeManifest([makeSegment("a.mp3", "one", { subject: "Fixed" })])), 3);
+    expect(firstSegment().metadata.subject).toBe("Fixed");
+    expect(getManifestStatus().error).toBeNull();
+  });
+});
@@ -1,5 +1,9 @@
 import fs from "fs";
 import path from "path";
+import { ManifestError, ManifestIssue, parseManifest } from "@/lib/manifestSchema";
+import { compareSessionIds, formatSessionLabel, parseSessionDate, SessionDate } from "@/lib/sessionDates";
+import { getSegmentEdits, getSegmentEditsVersion, SegmentMetadataEdit } from "@/lib/segmentEdits";
+import { getLatestTranscripts, getTranscriptEditsVersion } from "@/lib/transcriptEdits";
 
 export interface Word {
   word: string;
@@ -19,6 +23,7 @@ export interface SegmentMetadata {
   duration: number;
   startTime: number;
   endTime: number;
+  tags?: string[];
 }
 
 export interface Segment {
@@ -40,18 +45,141 @@ export interface Manifest {
   sessions: Session[];
 }
 
-// Cache the parsed manifest in memory
+const AUDIO_DIR = path.join("public", "audio");
+const MANIFEST_PATH = path.join(AUDIO_DIR, "manifest.json");
+
+// The last manifest.json that loaded successfully, and the file mtime it was read at
+let cachedBaseManifest: Manifest | null = null;
+let cachedBaseMtime = -1;
+
+// The manifest with transcript and metadata corrections applied, rebuilt whenever
+// manifest.json or the edits change
 let cachedManifest: Manifest | null = null;
+let cachedVersion = "";
+
+export interface ManifestStatus {
+  // Relative to the app directory
+  path: string;
+  loadedAt: string | null;
+  // mtime of the manifest.json being served
+  modifiedAt: string | null;
+  sessionCount: number;
+  segmentCount: number;
+  warnings: ManifestIssue[];
+  // Set when the file on disk failed to load; the previous manifest, if any, is still served
+  error: string | null;
+  errors: ManifestIssue[];
+}
+
+let status: ManifestStatus = {
+  path: MANIFEST_PATH,
+  loadedAt: null,
+  modifiedAt: null,
+  sessionCount: 0,
+  segmentCount: 0,
+  warnings: [],
+  error: null,
+  errors: [],
+};
+
+// Re-read manifest.json when its mtime changes. A file that is missing or fails to parse
+// or validate is reported in the status; if an earlier version loaded, that one keeps
+// being served so a half-copied manifest doesn't take the site down.
+function loadBaseManifest(): void {
+  const manifestPath = path.join(process.cwd(), MANIFEST_PATH);
+
+  try {
+    const mtime = fs.statSync(manifestPath).mtimeMs;
+    if (mtime === cachedBaseMtime) {
+      return;
+    }
+    cachedBaseMtime = mtime;
+
+    const data = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+    const { manifest, warnings } = parseManifest(data);
+    cachedBaseManifest = manifest;
+    status = {
+      path: MANIFEST_PATH,
+      loadedAt: new Date().toISOString(),
+      modifiedAt: new Date(mtime).toISOString(),
+      sessionCount: manifest.sessions.length,
+      segmentCount: manifest.sessions.reduce((sum, session) => sum + session.segments.length, 0),
+      warnings,
+      error: null,
+      errors: [],
+    };
+    if (warnings.length > 0) {
+      console.warn(`Manifest loaded with ${warnings.length} warnings; see /api/manifest/health`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Only log once per distinct problem; this runs on every request
+    if (message !== status.error) {
+      console.error("Error loading manifest:", message);
+    }
+    status = {
+      ...status,
+      path: MANIFEST_PATH,
+      error: message,
+      errors: error instanceof ManifestError ? error.issues : [{ path: "$", message }],
+    };
+  }
+}
+
+// The manifest exactly as generated, without any corrections
+export function getBaseManifest(): Manifest {
+  loadBaseManifest();
+  if (!cachedBaseManifest) {
+    throw new Error(status.error || "Manifest not loaded");
+  }
+  return cachedBaseManifest;
+}
+
+// Load state and validation results for the health check
+export function getManifestStatus(): ManifestStatus {
+  loadBaseManifest();
+  return status;
+}
+
+function applyEdits(
+  manifest: Manifest,
+  transcripts: Map<string, Transcript>,
+  metadataEdits: Map<string, SegmentMetadataEdit>
+): Manifest {
+  if (transcripts.size === 0 && metadataEdits.size === 0) {
+    return manifest;
+  }
+
+  return {
+    ...manifest,
+    sessions: manifest.sessions.map((session) => ({
+      ...session,
+      segments: session.segments.map((segment) => {
+        const transcript = transcripts.get(segment.audioFile);
+        const metadataEdit = metadataEdits.get(segment.audioFile);
+        if (!transcript && !metadataEdit) {
+          return segment;
+        }
+        return {
+          ...segment,
+          metadata: metadataEdit ? { ...segment.metadata, ...metadataEdit } : segment.metadata,
+          transcript: transcript || segment.transcript,
+        };
+      }),
+    })),
+  };
+}
 
 export function getManifest(): Manifest {
-  if (cachedManifest) {
+  const base = getBaseManifest();
+  const version = `${cachedBaseMtime}:${getTranscriptEditsVersion()}:${getSegmentEditsVersion()}`;
+  if (cachedManifest && version === cachedVersion) {
     return cachedManifest;
   }
 
-  const manifestPath = path.join(process.cwd(), "public", "audio", "manifest.json");
-  const fileContents = fs.readFileSync(manifestPath, "utf-8");
-  cachedManifest = JSON.parse(fileContents) as Manifest;
-  
+  cachedManifest = applyEdits(base, getLatestTranscripts(), getSegmentEdits());
+  cachedVersion = version;
+
   return cachedManifest;
 }
 
@@ -62,6 +190,7 @@ export interface SegmentWithSession {
   description: string;
   duration: number;
   segmentIndex: number;
+  tags: string[];
 }
 
 export function getAllSegments(): SegmentWithSession[] {
@@ -77,6 +206,7 @@ export function getAllSegments(): SegmentWithSession[] {
         description: segment.metadata.description,
         duration: segment.metadata.duration,
         segmentIndex: segment.metadata.segmentIndex,
+        tags: segment.metadata.tags || [],
       });
     }
   }
@@ -84,6 +214,59 @@ export function getAllSegments(): SegmentWithSession[] {
   return segments;
 }
 
+export interface SessionSummary {
+  sessionId: string;
+  // Readable date from the session id, e.g. "21 August"
+  label: string;
+  date: SessionDate | null;
+  totalDuration: number;
+  totalWords: number;
+  segmentCount: number;
+}
+
+function summarizeSession(session: Session): SessionSummary {
+  return {
+    sessionId: session.sessionId,
+    label: formatSessionLabel(session.sessionId),
+    date: parseSessionDate(session.sessionId),
+    totalDuration: session.totalDuration,
+    totalWords: session.totalWords,
+    segmentCount: session.segments.length,
+  };
+}
+
+// All sessions in date order
+export function getSessionSummaries(): SessionSummary[] {
+  return getManifest()
+    .sessions.map(summarizeSession)
+    .sort((a, b) => compareSessionIds(a.sessionId, b.sessionId));
+}
+
+export interface SessionWithSegments {
+  session: SessionSummary;
+  // In segmentIndex order
+  segments: SegmentWithSession[];
+}
+
+export function getSessionById(sessionId: string): SessionWithSegments | null {
+  const session = getManifest().sessions.find((s) => s.sessionId === sessionId);
+  if (!session) {
+    return null;
+  }
+
+  return {
+    session: summarizeSession(session),
+    segments: getAllSegments()
+      .filter((segment) => segment.sessionId === sessionId)
+      .sort((a, b) => a.segmentIndex - b.segmentIndex),
+  };
+}
+
+// Where a segment's mp3 is on disk. Only pass audioFile names taken from the manifest.
+export function getAudioPath(audioFile: string): string {
+  return path.join(process.cwd(), AUDIO_DIR, audioFile);
+}
+
 export interface TranscriptWithOffset {
   transcript: Transcript;
   startTime: number;
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { ManifestError, parseManifest, validateManifest } from "./manifestSchema";
+
+function manifestWith(...segments: ReturnType<typeof makeSegment>[]) {
+  return JSON.parse(JSON.stringify(makeManifest(segments)));
+}
+
+describe("validateManifest", () => {
+  it("accepts a well-formed manifest", () => {
+    expect(validateManifest(manifestWith(makeSegment("a.mp3", "we walked to school")))).toEqual({
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  it("reports missing words as an error", () => {
+    const manifest = manifestWith(makeSegment("a.mp3", "we walked"));
+    delete manifest.sessions[0].segments[0].transcript.words;
+
+    expect(validateManifest(manifest).errors).toEqual([
+      { path: "$.sessions[0].segments[0].transcript.words", message: "is missing" },
+    ]);
+  });
+
+  it("warns about a word that ends before it starts", () => {
+    const manifest = manifestWith(makeSegment("a.mp3", "we walked"));
+    manifest.sessions[0].segments[0].transcript.words[1].end = 0.1;
+
+    const { errors, warnings } = validateManifest(manifest);
+    expect(errors).toEqual([]);
+    expect(warnings).toEqual([
+      { path: "$.sessions[0].segments[0].transcript.words[1].end", message: "is before start (0.1 < 0.5)" },
+    ]);
+  });
+
+  it("reports an audioFile used twice, pointing at the first", () => {
+    const manifest = manifestWith(
+      makeSegment("a.mp3", "we walked"),
+      makeSegment("a.mp3", "to school", { sessionId: "22aug" })
+    );
+
+    expect(validateManifest(manifest).errors).toEqual([
+      {
+        path: "$.sessions[1].segments[0].audioFile",
+        message: 'duplicates $.sessions[0].segments[0].audioFile ("a.mp3")',
+      },
+    ]);
+  });
+
+  it("warns when totalSessions doesn't match the sessions", () => {
+    const manifest = manifestWith(makeSegment("a.mp3", "we walked"));
+    manifest.totalSessions = 3;
+
+    expect(validateManifest(manifest)).toEqual({
+      errors: [],
+      warnings: [{ path: "$.totalSessions", message: "is 3 but there are 1 sessions" }],
+    });
+  });
+});
+
+describe("parseManifest", () => {
+  it("returns the manifest with its warnings", () => {
+    const manifest = manifestWith(makeSegment("a.mp3", "we walked"));
+    manifest.totalSessions = 2;
+
+    const parsed = parseManifest(manifest);
+    expect(parsed.manifest).toBe(manifest);
+    expect(parsed.warnings).toHaveLength(1);
+  });
+
+  it("throws a ManifestError listing the errors", () => {
+    const manifest = manifestWith(makeSegment("a.mp3", "we walked"));
+    delete manifest.sessions[0].segments[0].transcript.words;
+
+    expect(() => parseManifest(manifest)).toThrow(ManifestError);
+    expect(() => parseManifest(manifest)).toThrow(
+      "Invalid manifest: $.sessions[0].segments[0].transcript.words: is missing"
+    );
+  });
+});
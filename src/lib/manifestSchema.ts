@@ -0,0 +1,204 @@
+import type { Manifest } from "@/lib/manifest";
+
+// A problem found in manifest.json, located by a JSON path such as
+// "$.sessions[0].segments[3].transcript.words[12].end"
+export interface ManifestIssue {
+  path: string;
+  message: string;
+}
+
+// Errors make the manifest unusable (the app would crash or misbehave on it); warnings
+// are data problems the app can live with but someone should look at
+export interface ManifestValidation {
+  errors: ManifestIssue[];
+  warnings: ManifestIssue[];
+}
+
+export class ManifestError extends Error {
+  constructor(public readonly issues: ManifestIssue[]) {
+    const first = issues
+      .slice(0, 3)
+      .map((issue) => `${issue.path}: ${issue.message}`)
+      .join("; ");
+    const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : "";
+    super(`Invalid manifest: ${first}${more}`);
+    this.name = "ManifestError";
+  }
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function validateManifest(data: unknown): ManifestValidation {
+  const errors: ManifestIssue[] = [];
+  const warnings: ManifestIssue[] = [];
+  const error = (path: string, message: string) => errors.push({ path, message });
+  const warn = (path: string, message: string) => warnings.push({ path, message });
+
+  // Report a missing or mistyped field and say whether it was fine
+  const expect = (
+    object: Json,
+    key: string,
+    path: string,
+    check: (value: unknown) => boolean,
+    type: string
+  ): boolean => {
+    if (!(key in object)) {
+      error(`${path}.${key}`, "is missing");
+      return false;
+    }
+    if (!check(object[key])) {
+      error(`${path}.${key}`, `must be ${type}`);
+      return false;
+    }
+    return true;
+  };
+  const isString = (value: unknown) => typeof value === "string";
+
+  if (!isObject(data)) {
+    error("$", "must be an object");
+    return { errors, warnings };
+  }
+
+  expect(data, "createdAt", "$", isString, "a string");
+  const hasTotal = expect(data, "totalSessions", "$", isNumber, "a number");
+  if (!expect(data, "sessions", "$", Array.isArray, "an array")) {
+    return { errors, warnings };
+  }
+
+  const sessions = data.sessions as unknown[];
+  if (hasTotal && data.totalSessions !== sessions.length) {
+    warn("$.totalSessions", `is ${data.totalSessions} but there are ${sessions.length} sessions`);
+  }
+
+  const seenAudioFiles = new Map<string, string>();
+
+  sessions.forEach((session, sessionIndex) => {
+    const sessionPath = `$.sessions[${sessionIndex}]`;
+    if (!isObject(session)) {
+      error(sessionPath, "must be an object");
+      return;
+    }
+
+    expect(session, "sessionId", sessionPath, isString, "a string");
+    expect(session, "totalDuration", sessionPath, isNumber, "a number");
+    expect(session, "totalWords", sessionPath, isNumber, "a number");
+    if (!expect(session, "segments", sessionPath, Array.isArray, "an array")) {
+      return;
+    }
+
+    (session.segments as unknown[]).forEach((segment, segmentIndex) => {
+      const segmentPath = `${sessionPath}.segments[${segmentIndex}]`;
+      if (!isObject(segment)) {
+        error(segmentPath, "must be an object");
+        return;
+      }
+
+      if (expect(segment, "audioFile", segmentPath, isString, "a string")) {
+        const audioFile = segment.audioFile as string;
+        const firstPath = seenAudioFiles.get(audioFile);
+        if (firstPath) {
+          error(`${segmentPath}.audioFile`, `duplicates ${firstPath}.audioFile ("${audioFile}")`);
+        } else {
+          seenAudioFiles.set(audioFile, segmentPath);
+        }
+      }
+
+      let startTime: number | null = null;
+      let endTime: number | null = null;
+      const metadataPath = `${segmentPath}.metadata`;
+      if (expect(segment, "metadata", segmentPath, isObject, "an object")) {
+        const metadata = segment.metadata as Json;
+        expect(metadata, "subject", metadataPath, isString, "a string");
+        expect(metadata, "description", metadataPath, isString, "a string");
+        expect(metadata, "segmentIndex", metadataPath, isNumber, "a number");
+        expect(metadata, "duration", metadataPath, isNumber, "a number");
+        if (expect(metadata, "startTime", metadataPath, isNumber, "a number")) {
+          startTime = metadata.startTime as number;
+        }
+        if (expect(metadata, "endTime", metadataPath, isNumber, "a number")) {
+          endTime = metadata.endTime as number;
+        }
+        if (startTime !== null && endTime !== null && endTime < startTime) {
+          warn(`${metadataPath}.endTime`, `is before startTime (${endTime} < ${startTime})`);
+        }
+        if (
+          "tags" in metadata &&
+          !(Array.isArray(metadata.tags) && metadata.tags.every(isString))
+        ) {
+          error(`${metadataPath}.tags`, "must be an array of strings");
+        }
+      }
+
+      const transcriptPath = `${segmentPath}.transcript`;
+      if (!expect(segment, "transcript", segmentPath, isObject, "an object")) {
+        return;
+      }
+      const transcript = segment.transcript as Json;
+      expect(transcript, "text", transcriptPath, isString, "a string");
+      if (!expect(transcript, "words", transcriptPath, Array.isArray, "an array")) {
+        return;
+      }
+
+      const words = transcript.words as unknown[];
+      if (words.length === 0) {
+        warn(`${transcriptPath}.words`, "is empty");
+      }
+
+      let previousStart = -Infinity;
+      let outsideCount = 0;
+      words.forEach((word, wordIndex) => {
+        const wordPath = `${transcriptPath}.words[${wordIndex}]`;
+        if (!isObject(word)) {
+          error(wordPath, "must be an object");
+          return;
+        }
+
+        expect(word, "word", wordPath, isString, "a string");
+        const hasStart = expect(word, "start", wordPath, isNumber, "a number");
+        const hasEnd = expect(word, "end", wordPath, isNumber, "a number");
+        if (!hasStart || !hasEnd) {
+          return;
+        }
+
+        const start = word.start as number;
+        const end = word.end as number;
+        if (end < start) {
+          warn(`${wordPath}.end`, `is before start (${end} < ${start})`);
+        }
+        if (start < previousStart) {
+          warn(`${wordPath}.start`, "is before the previous word's start");
+        }
+        // Word timestamps are absolute, so they should fall inside the segment
+        if (startTime !== null && endTime !== null && (start < startTime - 1 || end > endTime + 1)) {
+          outsideCount++;
+        }
+        previousStart = start;
+      });
+
+      // One warning per segment; a wrong offset would otherwise flag every word
+      if (outsideCount > 0) {
+        warn(`${transcriptPath}.words`, `${outsideCount} words lie outside the segment (${startTime}–${endTime})`);
+      }
+    });
+  });
+
+  return { errors, warnings };
+}
+
+// Validate parsed JSON and return it as a Manifest, throwing a ManifestError listing the
+// errors if it can't be used
+export function parseManifest(data: unknown): { manifest: Manifest; warnings: ManifestIssue[] } {
+  const { errors, warnings } = validateManifest(data);
+  if (errors.length > 0) {
+    throw new ManifestError(errors);
+  }
+  return { manifest: data as Manifest, warnings };
+}
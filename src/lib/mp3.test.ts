@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { buildId3Tag, cutMp3, readFrames } from "./mp3";
+
+// MPEG-1 Layer III, 44.1kHz stereo, no CRC: 1152 samples a frame
+const FRAME_SECONDS = 1152 / 44100;
+const BITRATE_INDEX: Record<number, number> = { 128: 9, 160: 10 };
+
+function frame(kbps = 128, fill = 0): Buffer {
+  const length = Math.floor((144 * kbps * 1000) / 44100);
+  const data = Buffer.alloc(length, fill);
+  data.set([0xff, 0xfb, BITRATE_INDEX[kbps] << 4, 0x00]);
+  return data;
+}
+
+// The Info frame an encoder writes ahead of the audio
+function infoFrame(): Buffer {
+  const data = frame();
+  data.write("Info", 36, "latin1");
+  return data;
+}
+
+function id3v1Tag(): Buffer {
+  const tag = Buffer.alloc(128);
+  tag.write("TAG", 0, "latin1");
+  return tag;
+}
+
+describe("readFrames", () => {
+  it("times each audio frame, skipping tags and the Info frame", () => {
+    const data = Buffer.concat([
+      buildId3Tag({ title: "21aug 1" }),
+      infoFrame(),
+      frame(),
+      frame(),
+      frame(),
+      id3v1Tag(),
+    ]);
+
+    const frames = readFrames(data);
+    expect(frames).toHaveLength(3);
+    expect(frames.map((f) => f.length)).toEqual([417, 417, 417]);
+    expect(frames[1].offset - frames[0].offset).toBe(417);
+    expect(frames[2].start).toBeCloseTo(2 * FRAME_SECONDS);
+    expect(frames[0]).toMatchObject({ bitrate: 128000, duration: expect.closeTo(FRAME_SECONDS) });
+  });
+
+  it("skips sync bytes that aren't followed by another frame", () => {
+    const data = Buffer.concat([Buffer.from([0x00, 0xff, 0xfb, 0x90]), frame(), frame(), frame()]);
+    expect(readFrames(data).map((f) => f.offset)).toEqual([4, 421, 838]);
+  });
+
+  it("finds nothing in data that isn't mp3", () => {
+    expect(readFrames(Buffer.from("not an mp3 at all"))).toEqual([]);
+  });
+});
+
+describe("cutMp3", () => {
+  const audio = Buffer.concat(Array.from({ length: 100 }, (_, i) => frame(128, i + 1)));
+
+  it("keeps the frames that overlap the range, after an Info frame counting them", () => {
+    const clip = cutMp3(audio, 10.5 * FRAME_SECONDS, 19.5 * FRAME_SECONDS);
+
+    expect(clip.toString("latin1", 36, 40)).toBe("Info");
+    expect(clip.readUInt32BE(44)).toBe(10);
+    expect(clip.readUInt32BE(48)).toBe(clip.length);
+
+    const frames = readFrames(clip);
+    expect(frames).toHaveLength(10);
+    // Frames are copied whole; the fill byte identifies the original frame
+    expect(clip[frames[0].offset + 4]).toBe(11);
+    expect(clip[frames[9].offset + 4]).toBe(20);
+  });
+
+  it("marks a clip with mixed bitrates as variable", () => {
+    const mixed = Buffer.concat([frame(128), frame(160), frame(128)]);
+    const clip = cutMp3(mixed, 0, 1);
+    expect(clip.toString("latin1", 36, 40)).toBe("Xing");
+    expect(readFrames(clip)).toHaveLength(3);
+  });
+
+  it("is empty when the range is past the end", () => {
+    expect(cutMp3(audio, 60, 70).length).toBe(0);
+  });
+});
+
+describe("buildId3Tag", () => {
+  it("writes an ID3v2.3 tag with UTF-16 text frames", () => {
+    const tag = buildId3Tag({ title: "लाहौर", album: "Stories", comment: "“We walked”" });
+
+    expect(tag.toString("latin1", 0, 3)).toBe("ID3");
+    expect(tag[3]).toBe(3);
+    const size = (tag[6] << 21) | (tag[7] << 14) | (tag[8] << 7) | tag[9];
+    expect(size).toBe(tag.length - 10);
+
+    expect(tag.toString("latin1", 10, 14)).toBe("TIT2");
+    const titleLength = tag.readUInt32BE(14);
+    const title = tag.subarray(20, 20 + titleLength);
+    expect(title[0]).toBe(1);
+    expect(title.subarray(1).toString("utf16le")).toBe("﻿लाहौर");
+
+    expect(tag.includes(Buffer.from("TALB", "latin1"))).toBe(true);
+    expect(tag.includes(Buffer.from("COMM", "latin1"))).toBe(true);
+    expect(tag.includes(Buffer.from("TPE1", "latin1"))).toBe(false);
+  });
+});
@@ -0,0 +1,242 @@
+// Just enough MPEG audio parsing to cut an mp3 at frame boundaries without re-encoding,
+// and to write an ID3v2.3 tag for the result.
+
+export interface Mp3Frame {
+  offset: number;
+  length: number;
+  // Seconds from the start of the audio
+  start: number;
+  duration: number;
+  bitrate: number;
+}
+
+interface FrameHeader {
+  // 1 for MPEG-1, 2 for MPEG-2 and 2.5
+  version: 1 | 2;
+  layer: 1 | 2 | 3;
+  bitrate: number;
+  sampleRate: number;
+  mono: boolean;
+  length: number;
+  samples: number;
+}
+
+// kbps, indexed by [MPEG-1 ? 0 : 1][layer - 1][bitrate index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+];
+
+// Hz, indexed by the version bits (MPEG-2.5, reserved, MPEG-2, MPEG-1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+function parseFrameHeader(data: Buffer, offset: number): FrameHeader | null {
+  if (offset + 4 > data.length || data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const versionBits = (data[offset + 1] >> 3) & 0x3;
+  const layerBits = (data[offset + 1] >> 1) & 0x3;
+  const bitrateIndex = data[offset + 2] >> 4;
+  const sampleRateIndex = (data[offset + 2] >> 2) & 0x3;
+  const padding = (data[offset + 2] >> 1) & 0x1;
+  const channelMode = data[offset + 3] >> 6;
+
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const version = versionBits === 3 ? 1 : 2;
+  const layer = (4 - layerBits) as 1 | 2 | 3;
+  const bitrate = BITRATES[version - 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+
+  let length: number;
+  let samples: number;
+  if (layer === 1) {
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    samples = 384;
+  } else if (layer === 2 || version === 1) {
+    length = Math.floor((144 * bitrate) / sampleRate) + padding;
+    samples = 1152;
+  } else {
+    length = Math.floor((72 * bitrate) / sampleRate) + padding;
+    samples = 576;
+  }
+
+  return { version, layer, bitrate, sampleRate, mono: channelMode === 3, length, samples };
+}
+
+// Size of an ID3v2 tag at the start of the file, header included
+function id3v2Size(data: Buffer): number {
+  if (data.length < 10 || data.toString("latin1", 0, 3) !== "ID3") {
+    return 0;
+  }
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+  const hasFooter = (data[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+// Where the Xing/Info tag sits in a Layer III frame: after the header and side information
+function xingOffset(header: FrameHeader): number {
+  if (header.version === 1) {
+    return 4 + (header.mono ? 17 : 32);
+  }
+  return 4 + (header.mono ? 9 : 17);
+}
+
+// A Xing, Info or VBRI frame describes the stream rather than holding audio
+function isInfoFrame(data: Buffer, offset: number, header: FrameHeader): boolean {
+  const tagAt = (position: number) => data.toString("latin1", offset + position, offset + position + 4);
+  const xing = tagAt(xingOffset(header));
+  return xing === "Xing" || xing === "Info" || tagAt(36) === "VBRI";
+}
+
+// Every audio frame in the file, in order. Leading tags and any garbage between frames are
+// skipped; a frame only counts if the next one follows where its header says, so stray
+// sync bytes inside tags or album art aren't mistaken for audio.
+export function readFrames(data: Buffer): Mp3Frame[] {
+  const frames: Mp3Frame[] = [];
+  // A trailing ID3v1 tag is exactly 128 bytes starting with "TAG"
+  const end =
+    data.length >= 128 && data.toString("latin1", data.length - 128, data.length - 125) === "TAG"
+      ? data.length - 128
+      : data.length;
+
+  let offset = id3v2Size(data);
+  let time = 0;
+  let first = true;
+
+  while (offset + 4 <= end) {
+    const header = parseFrameHeader(data, offset);
+    const fits = header !== null && offset + header.length <= end;
+    const followed =
+      fits && (offset + header.length === end || parseFrameHeader(data, offset + header.length) !== null);
+
+    if (!header || !fits || !followed) {
+      offset++;
+      continue;
+    }
+
+    if (!(first && header.layer === 3 && isInfoFrame(data, offset, header))) {
+      const duration = header.samples / header.sampleRate;
+      frames.push({ offset, length: header.length, start: time, duration, bitrate: header.bitrate });
+      time += duration;
+    }
+    first = false;
+    offset += header.length;
+  }
+
+  return frames;
+}
+
+// An Info (constant bitrate) or Xing (variable) frame giving the clip's frame and byte
+// counts, so players show the right duration. Built on the first audio frame's header
+// with silent side information.
+function buildInfoFrame(data: Buffer, frames: Mp3Frame[], audioBytes: number): Buffer | null {
+  const header = parseFrameHeader(data, frames[0].offset);
+  if (!header || header.layer !== 3) {
+    return null;
+  }
+
+  const position = xingOffset(header);
+  if (position + 16 > header.length) {
+    return null;
+  }
+
+  const frame = Buffer.alloc(header.length);
+  data.copy(frame, 0, frames[0].offset, frames[0].offset + 4);
+  // No CRC, so the tag sits where readers look for it, and no padding byte
+  frame[1] |= 0x01;
+  frame[2] &= ~0x02;
+  const length = parseFrameHeader(frame, 0)!.length;
+
+  const isVbr = frames.some((f) => f.bitrate !== frames[0].bitrate);
+  frame.write(isVbr ? "Xing" : "Info", position, "latin1");
+  frame.writeUInt32BE(0x3, position + 4); // frame count and byte count present
+  frame.writeUInt32BE(frames.length, position + 8);
+  frame.writeUInt32BE(audioBytes + length, position + 12);
+  return frame.subarray(0, length);
+}
+
+// The frames that start within [start, end) seconds, as a playable mp3. The clip may start
+// up to one frame (about 26ms) early, and its first frame can sound briefly muffled as
+// Layer III frames borrow bits from the ones before them.
+export function cutMp3(data: Buffer, start: number, end: number): Buffer {
+  const frames = readFrames(data).filter(
+    (frame) => frame.start + frame.duration > start && frame.start < end
+  );
+  if (frames.length === 0) {
+    return Buffer.alloc(0);
+  }
+
+  const audio = Buffer.concat(frames.map((frame) => data.subarray(frame.offset, frame.offset + frame.length)));
+  const info = buildInfoFrame(data, frames, audio.length);
+  return info ? Buffer.concat([info, audio]) : audio;
+}
+
+export interface Id3Tags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  comment?: string;
+}
+
+// UTF-16 with a byte order mark, which ID3v2.3 readers all understand
+function utf16(text: string, terminated = false): Buffer {
+  const body = Buffer.from(`\ufeff${text}`, "utf16le");
+  return terminated ? Buffer.concat([body, Buffer.alloc(2)]) : body;
+}
+
+function id3Frame(id: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(10);
+  header.write(id, 0, "latin1");
+  header.writeUInt32BE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+// An ID3v2.3 tag to put in front of an mp3
+export function buildId3Tag(tags: Id3Tags): Buffer {
+  const encoding = Buffer.from([1]);
+  const frames: Buffer[] = [];
+  const textFrames: [string, string | undefined][] = [
+    ["TIT2", tags.title],
+    ["TPE1", tags.artist],
+    ["TALB", tags.album],
+  ];
+
+  for (const [id, value] of textFrames) {
+    if (value) {
+      frames.push(id3Frame(id, Buffer.concat([encoding, utf16(value)])));
+    }
+  }
+  if (tags.comment) {
+    // Encoding, language, empty short description, then the comment itself
+    frames.push(
+      id3Frame("COMM", Buffer.concat([encoding, Buffer.from("eng", "latin1"), utf16("", true), utf16(tags.comment)]))
+    );
+  }
+
+  const body = Buffer.concat(frames);
+  const header = Buffer.alloc(10);
+  header.write("ID3", 0, "latin1");
+  header[3] = 3; // version 2.3.0
+  // Tag size, excluding this header, as four 7-bit bytes
+  header[6] = (body.length >> 21) & 0x7f;
+  header[7] = (body.length >> 14) & 0x7f;
+  header[8] = (body.length >> 7) & 0x7f;
+  header[9] = body.length & 0x7f;
+  return Buffer.concat([header, body]);
+}
@@ -0,0 +1,46 @@
+// Paragraph splitting shared by the app (through src/lib/paragraphs.ts, which adds the
+// types) and scripts/segment.mjs, so drafted boundaries fall where the app's paragraphs do.
+// Words are { word, start, end } in seconds, like the Word type in src/lib/manifest.ts.
+
+export const DEFAULT_PARAGRAPH_PAUSE = 1.5;
+export const DEFAULT_PARAGRAPH_MAX_WORDS = 120;
+
+// Whitespace-only entries and ellipses carry their own timestamps, which confuse timing
+export function isSpokenWord(word) {
+  return word.word.trim() !== "" && word.word !== "...";
+}
+
+function toParagraph(words) {
+  return {
+    words,
+    start: words[0].start,
+    end: words[words.length - 1].end,
+    text: words.map((w) => w.word.trim()).join(" "),
+  };
+}
+
+// Group a transcript's words into paragraphs at long pauses. Options: pauseSeconds, the
+// silence between words that starts a new paragraph, and maxWords, after which a paragraph
+// is split even without a pause.
+export function splitIntoParagraphs(words, options = {}) {
+  const pauseSeconds = options.pauseSeconds ?? DEFAULT_PARAGRAPH_PAUSE;
+  const maxWords = options.maxWords ?? DEFAULT_PARAGRAPH_MAX_WORDS;
+
+  const paragraphs = [];
+  let current = [];
+
+  for (const word of words.filter(isSpokenWord)) {
+    const previous = current[current.length - 1];
+    if (previous && (word.start - previous.end >= pauseSeconds || current.length >= maxWords)) {
+      paragraphs.push(toParagraph(current));
+      current = [];
+    }
+    current.push(word);
+  }
+
+  if (current.length > 0) {
+    paragraphs.push(toParagraph(current));
+  }
+
+  return paragraphs;
+}
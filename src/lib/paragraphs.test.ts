@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { makeWords } from "@/test/manifest";
+import { isSpokenWord, splitIntoParagraphs } from "./paragraphs";
+
+describe("isSpokenWord", () => {
+  it("skips blanks and ellipses", () => {
+    expect(isSpokenWord({ word: " ", start: 0, end: 0 })).toBe(false);
+    expect(isSpokenWord({ word: "...", start: 0, end: 0 })).toBe(false);
+    expect(isSpokenWord({ word: "Lahore", start: 0, end: 0 })).toBe(true);
+  });
+});
+
+describe("splitIntoParagraphs", () => {
+  it("starts a new paragraph after a long pause", () => {
+    const words = [...makeWords("We walked to Lahore", 0), ...makeWords("It was hot", 10)];
+    const paragraphs = splitIntoParagraphs(words);
+    expect(paragraphs.map((p) => p.text)).toEqual(["We walked to Lahore", "It was hot"]);
+    expect(paragraphs[1]).toMatchObject({ start: 10, end: 11.4 });
+  });
+
+  it("splits long paragraphs even without a pause", () => {
+    const words = makeWords("one two three four five");
+    expect(splitIntoParagraphs(words, { maxWords: 2 }).map((p) => p.text)).toEqual(["one two", "three four", "five"]);
+  });
+
+  it("leaves out words that weren't spoken", () => {
+    const words = [...makeWords("We walked"), { word: "...", start: 1, end: 1 }, ...makeWords("on", 1.2)];
+    expect(splitIntoParagraphs(words).map((p) => p.text)).toEqual(["We walked on"]);
+  });
+});
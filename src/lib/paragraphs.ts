@@ -0,0 +1,29 @@
+import type { Word } from "@/lib/manifest";
+import * as shared from "./paragraphs.mjs";
+
+export interface Paragraph {
+  words: Word[];
+  // Absolute times from the original recording, like Word.start/end
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface ParagraphOptions {
+  // A silence at least this long between words starts a new paragraph
+  pauseSeconds?: number;
+  // Paragraphs are split after this many words even without a pause
+  maxWords?: number;
+}
+
+// The implementation is in paragraphs.mjs, which scripts/segment.mjs imports as well
+
+export const DEFAULT_PARAGRAPH_PAUSE: number = shared.DEFAULT_PARAGRAPH_PAUSE;
+export const DEFAULT_PARAGRAPH_MAX_WORDS: number = shared.DEFAULT_PARAGRAPH_MAX_WORDS;
+
+// Whitespace-only entries and ellipses carry their own timestamps, which confuse timing
+export const isSpokenWord: (word: Word) => boolean = shared.isSpokenWord;
+
+// Group a transcript's words into paragraphs at long pauses
+export const splitIntoParagraphs: (words: Word[], options?: ParagraphOptions) => Paragraph[] =
+  shared.splitIntoParagraphs;
@@ -0,0 +1,39 @@
+// Where the browser loads a segment's audio, transcript and captions from. A share link's
+// token has endpoints of its own, which serve only the shared clip; a shared playlist's
+// token is passed to the segment's usual paths, which the proxy opens for it.
+export interface PlaybackAccess {
+  // Share link token, for listeners who aren't signed in
+  shareToken?: string;
+  // Shared playlist token, likewise
+  playlistToken?: string;
+}
+
+function sharePath(token: string): string {
+  return `/api/public/shares/${encodeURIComponent(token)}`;
+}
+
+function playlistQuery({ playlistToken }: PlaybackAccess): string {
+  return playlistToken ? `?share=${encodeURIComponent(playlistToken)}` : "";
+}
+
+export function audioUrl(audioFile: string, access: PlaybackAccess = {}): string {
+  if (access.shareToken) {
+    return `${sharePath(access.shareToken)}/audio`;
+  }
+  return `/audio/${audioFile}${playlistQuery(access)}`;
+}
+
+// Share links get only the clip's words, timed from the start of the clip
+export function transcriptUrl(audioFile: string, access: PlaybackAccess = {}): string {
+  if (access.shareToken) {
+    return `${sharePath(access.shareToken)}/transcript`;
+  }
+  return `/api/segments/${encodeURIComponent(audioFile)}/transcript${playlistQuery(access)}`;
+}
+
+export function captionsUrl(audioFile: string, access: PlaybackAccess = {}): string {
+  if (access.shareToken) {
+    return `${sharePath(access.shareToken)}/captions.vtt`;
+  }
+  return `/api/segments/${encodeURIComponent(audioFile)}/captions.vtt${playlistQuery(access)}`;
+}
@@ -0,0 +1,148 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addItem,
+  createPlaylist,
+  isPathInPlaylist,
+  listSharedPlaylists,
+  Playlist,
+  revokePlaylistShare,
+  sharePlaylist,
+  updateItem,
+  verifyPlaylistToken,
+} from "./playlists";
+
+vi.mock("@/lib/manifest", () => ({
+  getAllSegments: () => [{ audioFile: "21aug 1.mp3", duration: 60 }],
+}));
+
+const user = { id: "user-1", name: "Asha", role: "viewer" as const };
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "playlists-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("SESSION_SECRET", "test-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function added(playlist: Playlist, start: number, end: number): Playlist {
+  const result = addItem(playlist.id, { audioFile: "21aug 1.mp3", start, end, note: "" });
+  if (!result || "error" in result) {
+    throw new Error("Item not added");
+  }
+  return result.playlist;
+}
+
+describe("addItem", () => {
+  it("cuts an end past the recording to its length", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 50, 90);
+    expect(playlist.items[0]).toMatchObject({ start: 50, end: 60 });
+  });
+
+  it("rejects backwards ranges and unknown segments", () => {
+    const { id } = createPlaylist(user, "Lahore");
+    expect(addItem(id, { audioFile: "21aug 1.mp3", start: 10, end: 5, note: "" })).toEqual({
+      error: "End must be after start",
+      kind: "invalid",
+    });
+    expect(addItem(id, { audioFile: "21aug 1.mp3", start: 70, end: 80, note: "" })).toEqual({
+      error: "Start is past the end of the recording",
+      kind: "invalid",
+    });
+    expect(addItem(id, { audioFile: "missing.mp3", start: 0, end: 5, note: "" })).toEqual({
+      error: "Segment not found",
+      kind: "not-found",
+    });
+    expect(addItem("missing", { audioFile: "21aug 1.mp3", start: 0, end: 5, note: "" })).toBeNull();
+  });
+});
+
+describe("updateItem", () => {
+  it("cuts an end past the recording to its length, like addItem", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 10, 20);
+    const result = updateItem(playlist.id, playlist.items[0].id, { end: 90 });
+    expect(result).toMatchObject({ playlist: { items: [{ start: 10, end: 60 }] } });
+  });
+
+  it("checks the changed range against the rest of the item", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 10, 20);
+    expect(updateItem(playlist.id, playlist.items[0].id, { start: 30 })).toEqual({
+      error: "End must be after start",
+      kind: "invalid",
+    });
+    expect(updateItem(playlist.id, "missing", { note: "hi" })).toEqual({
+      error: "Item not found",
+      kind: "not-found",
+    });
+  });
+});
+
+describe("isPathInPlaylist", () => {
+  it("allows the segments of the playlist's passages", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 10, 20);
+    expect(isPathInPlaylist(playlist, "/audio/21aug%201.mp3")).toBe(true);
+    expect(isPathInPlaylist(playlist, "/audio/21aug%202.mp3")).toBe(false);
+  });
+
+  it("allows their transcripts and captions but not other routes", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 10, 20);
+    expect(isPathInPlaylist(playlist, "/api/segments/21aug%201.mp3/transcript")).toBe(true);
+    expect(isPathInPlaylist(playlist, "/api/segments/21aug%201.mp3/captions.vtt")).toBe(true);
+    expect(isPathInPlaylist(playlist, "/api/segments/21aug%201.mp3/captions.srt")).toBe(true);
+    expect(isPathInPlaylist(playlist, "/api/segments/21aug%201.mp3/comments")).toBe(false);
+    expect(isPathInPlaylist(playlist, "/audio/manifest.json")).toBe(false);
+  });
+
+  it("denies malformed escapes instead of throwing", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 10, 20);
+    expect(isPathInPlaylist(playlist, "/audio/%E0%A4%A")).toBe(false);
+  });
+});
+
+describe("playlist share links", () => {
+  it("are listed for admins with who shared them", () => {
+    const playlist = added(createPlaylist(user, "Lahore"), 10, 20);
+    createPlaylist(user, "Not shared");
+    sharePlaylist(playlist.id, user, 7);
+
+    expect(listSharedPlaylists()).toEqual([
+      expect.objectContaining({
+        playlistId: playlist.id,
+        title: "Lahore",
+        itemCount: 1,
+        createdBy: { id: "user-1", name: "Asha" },
+      }),
+    ]);
+  });
+
+  it("stop working once revoked by id", () => {
+    const playlist = createPlaylist(user, "Lahore");
+    const shared = sharePlaylist(playlist.id, user, 7);
+    const [link] = listSharedPlaylists();
+    expect(verifyPlaylistToken(shared?.token)?.id).toBe(playlist.id);
+
+    expect(revokePlaylistShare(link.id)?.playlistId).toBe(playlist.id);
+    expect(verifyPlaylistToken(shared?.token)).toBeNull();
+    expect(listSharedPlaylists()).toEqual([]);
+    expect(revokePlaylistShare(link.id)).toBeNull();
+  });
+
+  it("leave out expired links", () => {
+    const playlist = createPlaylist(user, "Lahore");
+    sharePlaylist(playlist.id, user, 7);
+    vi.useFakeTimers({ now: Date.now() + 8 * 24 * 60 * 60 * 1000 });
+    try {
+      expect(listSharedPlaylists()).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,494 @@
+import crypto from "crypto";
+import { createSignedToken, readSignedToken } from "@/lib/auth";
+import { readStore, updateStore } from "@/lib/jsonStore";
+import { getAllSegments } from "@/lib/manifest";
+import { hasRole, type CurrentUser } from "@/lib/users";
+
+// A passage of one segment in a playlist
+export interface PlaylistItem {
+  id: string;
+  audioFile: string;
+  // Seconds relative to the start of the segment's mp3
+  start: number;
+  end: number;
+  note: string;
+}
+
+// A named, ordered set of passages from any segments, e.g. "Dada on partition"
+export interface Playlist {
+  id: string;
+  title: string;
+  description: string;
+  items: PlaylistItem[];
+  createdBy: { id: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+  // The current share link; stopping sharing clears it, which invalidates old tokens
+  share: PlaylistShare | null;
+}
+
+export interface PlaylistShare {
+  id: string;
+  createdBy: { id: string; name: string };
+  createdAt: string;
+  expiresAt: string;
+}
+
+// A playlist's working share link, as admins see it alongside clip share links
+export interface SharedPlaylist extends PlaylistShare {
+  playlistId: string;
+  title: string;
+  itemCount: number;
+}
+
+export interface PlaylistSummary {
+  id: string;
+  title: string;
+  description: string;
+  itemCount: number;
+  totalDuration: number;
+  createdBy: { id: string; name: string };
+  updatedAt: string;
+}
+
+// An item with what's needed to show and play it
+export interface PlaylistItemView extends PlaylistItem {
+  subject: string;
+  sessionId: string;
+}
+
+export interface PlaylistView extends Omit<Playlist, "items"> {
+  items: PlaylistItemView[];
+}
+
+// Changes to a playlist itself; itemIds gives a new order for all of its items
+export interface PlaylistInput {
+  title?: string;
+  description?: string;
+  itemIds?: string[];
+}
+
+export interface PlaylistItemInput {
+  audioFile: string;
+  start: number;
+  end: number;
+  note: string;
+}
+
+// Why a change to a playlist was refused: an item or segment it names doesn't exist, or the
+// change itself can't be made
+export interface PlaylistError {
+  error: string;
+  kind: "not-found" | "invalid";
+}
+
+interface PlaylistTokenPayload {
+  pid: string;
+  sid: string;
+  exp: number;
+}
+
+interface PlaylistStore {
+  playlists: Playlist[];
+}
+
+export const MAX_TITLE_LENGTH = 120;
+export const MAX_DESCRIPTION_LENGTH = 1000;
+export const MAX_NOTE_LENGTH = 500;
+export const MAX_ITEMS = 200;
+
+const STORE_NAME = "playlists";
+const TOKEN_PURPOSE = "playlist";
+
+const emptyStore = (): PlaylistStore => ({ playlists: [] });
+
+function summarize(playlist: Playlist): PlaylistSummary {
+  return {
+    id: playlist.id,
+    title: playlist.title,
+    description: playlist.description,
+    itemCount: playlist.items.length,
+    totalDuration: playlist.items.reduce((sum, item) => sum + (item.end - item.start), 0),
+    createdBy: playlist.createdBy,
+    updatedAt: playlist.updatedAt,
+  };
+}
+
+// Most recently changed first
+export function listPlaylists(): PlaylistSummary[] {
+  return readStore(STORE_NAME, emptyStore())
+    .playlists.map(summarize)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getPlaylist(id: string): Playlist | null {
+  return readStore(STORE_NAME, emptyStore()).playlists.find((p) => p.id === id) ?? null;
+}
+
+// Attach each item's subject and session. Items whose recording has left the manifest
+// are left out, as they can't be played.
+export function describePlaylist(playlist: Playlist): PlaylistView {
+  const segments = new Map(getAllSegments().map((segment) => [segment.audioFile, segment]));
+  const items: PlaylistItemView[] = [];
+  for (const item of playlist.items) {
+    const segment = segments.get(item.audioFile);
+    if (segment) {
+      items.push({ ...item, subject: segment.subject, sessionId: segment.sessionId });
+    }
+  }
+  return { ...playlist, items };
+}
+
+// Whoever made a playlist can change it, as can editors
+export function canEditPlaylist(user: CurrentUser, playlist: Playlist): boolean {
+  return playlist.createdBy.id === user.id || hasRole(user, "editor");
+}
+
+function optionalText(value: unknown, field: string, maxLength: number): string | { error: string } {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (typeof value !== "string") {
+    return { error: `${field} must be a string` };
+  }
+  if (value.trim().length > maxLength) {
+    return { error: `${field} must be at most ${maxLength} characters` };
+  }
+  return value.trim();
+}
+
+// Check a POST or PATCH body for the title and description. On PATCH both are optional.
+export function parsePlaylistInput(
+  body: unknown,
+  partial: boolean
+): { input: PlaylistInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+
+  const { title, description, itemIds } = body as Record<string, unknown>;
+  const input: PlaylistInput = {};
+
+  if (title !== undefined || !partial) {
+    if (typeof title !== "string" || !title.trim()) {
+      return { error: "Title is required" };
+    }
+    if (title.trim().length > MAX_TITLE_LENGTH) {
+      return { error: `Title must be at most ${MAX_TITLE_LENGTH} characters` };
+    }
+    input.title = title.trim();
+  }
+
+  if (description !== undefined) {
+    const parsed = optionalText(description, "Description", MAX_DESCRIPTION_LENGTH);
+    if (typeof parsed !== "string") {
+      return parsed;
+    }
+    input.description = parsed;
+  }
+
+  if (itemIds !== undefined) {
+    if (!partial) {
+      return { error: "Items are added separately" };
+    }
+    if (!Array.isArray(itemIds) || itemIds.some((id) => typeof id !== "string")) {
+      return { error: "itemIds must be an array of item ids" };
+    }
+    input.itemIds = itemIds;
+  }
+
+  if (partial && Object.keys(input).length === 0) {
+    return { error: "Nothing to update" };
+  }
+  return { input };
+}
+
+// Check an item body. On PATCH every field is optional and audioFile can't change.
+export function parseItemInput(
+  body: unknown,
+  partial: boolean
+): { input: Partial<PlaylistItemInput> } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+
+  const { audioFile, start, end, note } = body as Record<string, unknown>;
+  const input: Partial<PlaylistItemInput> = {};
+
+  if (!partial) {
+    if (!audioFile || typeof audioFile !== "string") {
+      return { error: "Audio file is required" };
+    }
+    input.audioFile = audioFile;
+  }
+
+  for (const [field, value] of [
+    ["start", start],
+    ["end", end],
+  ] as const) {
+    if (value === undefined && partial) continue;
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      return { error: `${field} must be a number of seconds` };
+    }
+    input[field] = value;
+  }
+
+  if (note !== undefined) {
+    const parsed = optionalText(note, "Note", MAX_NOTE_LENGTH);
+    if (typeof parsed !== "string") {
+      return parsed;
+    }
+    input.note = parsed;
+  } else if (!partial) {
+    input.note = "";
+  }
+
+  return { input };
+}
+
+export function createPlaylist(user: CurrentUser, title: string, description = ""): Playlist {
+  const now = new Date().toISOString();
+  const playlist: Playlist = {
+    id: crypto.randomUUID(),
+    title,
+    description,
+    items: [],
+    createdBy: { id: user.id, name: user.name },
+    createdAt: now,
+    updatedAt: now,
+    share: null,
+  };
+
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    store.playlists.push(playlist);
+  });
+  return playlist;
+}
+
+// Apply a change to one playlist inside the store update. The updater returns an error to
+// reject the change.
+function changePlaylist(
+  id: string,
+  updater: (playlist: Playlist) => PlaylistError | void
+): { playlist: Playlist } | PlaylistError | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const playlist = store.playlists.find((p) => p.id === id);
+    if (!playlist) {
+      return null;
+    }
+    const error = updater(playlist);
+    if (error) {
+      return error;
+    }
+    playlist.updatedAt = new Date().toISOString();
+    return { playlist };
+  });
+}
+
+export function updatePlaylist(
+  id: string,
+  input: PlaylistInput
+): { playlist: Playlist } | PlaylistError | null {
+  return changePlaylist(id, (playlist) => {
+    if (input.itemIds) {
+      const byId = new Map(playlist.items.map((item) => [item.id, item]));
+      const reordered = input.itemIds.map((itemId) => byId.get(itemId));
+      if (reordered.length !== playlist.items.length || new Set(input.itemIds).size !== reordered.length) {
+        return { error: "itemIds must list every item exactly once", kind: "invalid" };
+      }
+      if (reordered.some((item) => !item)) {
+        return { error: "itemIds contains an unknown item", kind: "invalid" };
+      }
+      playlist.items = reordered as PlaylistItem[];
+    }
+    if (input.title !== undefined) playlist.title = input.title;
+    if (input.description !== undefined) playlist.description = input.description;
+  });
+}
+
+export function deletePlaylist(id: string): boolean {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const before = store.playlists.length;
+    store.playlists = store.playlists.filter((p) => p.id !== id);
+    return store.playlists.length < before;
+  });
+}
+
+// Check a range against the segment's length, cutting an end that runs past it
+function fitRange(
+  start: number,
+  end: number,
+  duration: number
+): { range: { start: number; end: number } } | PlaylistError {
+  if (end <= start) {
+    return { error: "End must be after start", kind: "invalid" };
+  }
+  if (start >= duration) {
+    return { error: "Start is past the end of the recording", kind: "invalid" };
+  }
+  return { range: { start, end: Math.min(end, duration) } };
+}
+
+export function addItem(id: string, input: PlaylistItemInput): { playlist: Playlist } | PlaylistError | null {
+  const segment = getAllSegments().find((s) => s.audioFile === input.audioFile);
+  return changePlaylist(id, (playlist) => {
+    if (!segment) {
+      return { error: "Segment not found", kind: "not-found" };
+    }
+    if (playlist.items.length >= MAX_ITEMS) {
+      return { error: `A playlist can hold at most ${MAX_ITEMS} items`, kind: "invalid" };
+    }
+    const fitted = fitRange(input.start, input.end, segment.duration);
+    if ("error" in fitted) {
+      return fitted;
+    }
+    playlist.items.push({
+      id: crypto.randomUUID(),
+      audioFile: input.audioFile,
+      ...fitted.range,
+      note: input.note,
+    });
+  });
+}
+
+export function updateItem(
+  id: string,
+  itemId: string,
+  input: Partial<PlaylistItemInput>
+): { playlist: Playlist } | PlaylistError | null {
+  return changePlaylist(id, (playlist) => {
+    const item = playlist.items.find((i) => i.id === itemId);
+    if (!item) {
+      return { error: "Item not found", kind: "not-found" };
+    }
+    const segment = getAllSegments().find((s) => s.audioFile === item.audioFile);
+    const fitted = fitRange(input.start ?? item.start, input.end ?? item.end, segment?.duration ?? Infinity);
+    if ("error" in fitted) {
+      return fitted;
+    }
+    item.start = fitted.range.start;
+    item.end = fitted.range.end;
+    if (input.note !== undefined) item.note = input.note;
+  });
+}
+
+export function removeItem(id: string, itemId: string): { playlist: Playlist } | PlaylistError | null {
+  return changePlaylist(id, (playlist) => {
+    const before = playlist.items.length;
+    playlist.items = playlist.items.filter((item) => item.id !== itemId);
+    if (playlist.items.length === before) {
+      return { error: "Item not found", kind: "not-found" };
+    }
+  });
+}
+
+// Start sharing, replacing any earlier link, and return the new link's token
+export function sharePlaylist(
+  id: string,
+  user: CurrentUser,
+  days: number
+): { token: string; expiresAt: string } | null {
+  const expiresAt = Date.now() + days * 24 * 60 * 60 * 1000;
+  const share: PlaylistShare = {
+    id: crypto.randomUUID(),
+    createdBy: { id: user.id, name: user.name },
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+
+  const result = changePlaylist(id, (playlist) => {
+    playlist.share = share;
+  });
+  if (!result) {
+    return null;
+  }
+
+  const token = createSignedToken<PlaylistTokenPayload>(TOKEN_PURPOSE, {
+    pid: id,
+    sid: share.id,
+    exp: Math.floor(expiresAt / 1000),
+  });
+  return { token, expiresAt: share.expiresAt };
+}
+
+export function stopSharingPlaylist(id: string): boolean {
+  return (
+    changePlaylist(id, (playlist) => {
+      playlist.share = null;
+    }) !== null
+  );
+}
+
+function isShareActive(share: PlaylistShare | null): share is PlaylistShare {
+  return share !== null && new Date(share.expiresAt).getTime() > Date.now();
+}
+
+function describeShare(playlist: Playlist, share: PlaylistShare): SharedPlaylist {
+  return { ...share, playlistId: playlist.id, title: playlist.title, itemCount: playlist.items.length };
+}
+
+// Playlists whose link still works, newest link first
+export function listSharedPlaylists(): SharedPlaylist[] {
+  return readStore(STORE_NAME, emptyStore())
+    .playlists.flatMap((playlist) =>
+      isShareActive(playlist.share) ? [describeShare(playlist, playlist.share)] : []
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Stop sharing whichever playlist the link belongs to, so admins can revoke playlist links
+// by id like share links
+export function revokePlaylistShare(shareId: string): SharedPlaylist | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const playlist = store.playlists.find((p) => p.share?.id === shareId);
+    if (!playlist?.share) {
+      return null;
+    }
+    const revoked = describeShare(playlist, playlist.share);
+    playlist.share = null;
+    return revoked;
+  });
+}
+
+// Resolve a playlist share token, if the signature is valid and it is the playlist's
+// current link
+export function verifyPlaylistToken(token: string | null | undefined): Playlist | null {
+  const payload = readSignedToken(TOKEN_PURPOSE, token || undefined);
+  if (!payload || typeof payload.pid !== "string" || typeof payload.sid !== "string") {
+    return null;
+  }
+
+  const playlist = getPlaylist(payload.pid);
+  if (!playlist?.share || playlist.share.id !== payload.sid) {
+    return null;
+  }
+  return isShareActive(playlist.share) ? playlist : null;
+}
+
+// Whether a (decoded) path is one a listener needs to play a segment: its audio, its
+// transcript and its captions
+function isSegmentPlaybackPath(audioFile: string, decodedPath: string): boolean {
+  const segmentPath = `/api/segments/${audioFile}`;
+  return (
+    decodedPath === `/audio/${audioFile}` ||
+    decodedPath === `${segmentPath}/transcript` ||
+    decodedPath === `${segmentPath}/captions.vtt` ||
+    decodedPath === `${segmentPath}/captions.srt`
+  );
+}
+
+// A request path with its escapes decoded, or null if they are malformed
+function decodePath(pathname: string): string | null {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+}
+
+// The paths a playlist's share token unlocks: audio, transcript and captions of the whole
+// segments its items come from
+export function isPathInPlaylist(playlist: Playlist, pathname: string): boolean {
+  const decoded = decodePath(pathname);
+  return decoded !== null && playlist.items.some((item) => isSegmentPlaybackPath(item.audioFile, decoded));
+}
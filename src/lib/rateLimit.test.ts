@@ -0,0 +1,51 @@
+import type { NextApiRequest } from "next";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter, getClientAddress } from "./rateLimit";
+
+describe("createRateLimiter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("limits a key after too many failures until the window passes", () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60_000 });
+    limiter.recordFailure("1.2.3.4");
+    expect(limiter.retryAfter("1.2.3.4")).toBe(0);
+    limiter.recordFailure("1.2.3.4");
+    expect(limiter.retryAfter("1.2.3.4")).toBe(60);
+    expect(limiter.retryAfter("5.6.7.8")).toBe(0);
+
+    vi.advanceTimersByTime(60_000);
+    expect(limiter.retryAfter("1.2.3.4")).toBe(0);
+  });
+
+  it("forgets failures on reset", () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 60_000 });
+    limiter.recordFailure("1.2.3.4");
+    limiter.reset("1.2.3.4");
+    expect(limiter.retryAfter("1.2.3.4")).toBe(0);
+  });
+});
+
+describe("getClientAddress", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  const request = (forwardedFor?: string) =>
+    ({
+      headers: forwardedFor ? { "x-forwarded-for": forwardedFor } : {},
+      socket: { remoteAddress: "10.0.0.1" },
+    }) as unknown as NextApiRequest;
+
+  it("uses the connection's address, ignoring X-Forwarded-For by default", () => {
+    expect(getClientAddress(request("1.2.3.4"))).toBe("10.0.0.1");
+  });
+
+  it("uses the address a trusted proxy appended", () => {
+    vi.stubEnv("TRUST_PROXY", "1");
+    expect(getClientAddress(request("6.6.6.6, 1.2.3.4"))).toBe("1.2.3.4");
+    expect(getClientAddress(request())).toBe("10.0.0.1");
+  });
+});
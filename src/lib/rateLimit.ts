@@ -0,0 +1,71 @@
+import type { NextApiRequest } from "next";
+
+interface RateLimitOptions {
+  // Failures allowed per key within the window
+  limit: number;
+  windowMs: number;
+}
+
+interface Attempts {
+  count: number;
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  // Seconds until the key may try again, or 0 if it is not limited
+  retryAfter(key: string): number;
+  recordFailure(key: string): void;
+  reset(key: string): void;
+}
+
+// In-memory fixed-window limiter. State is per server process, which is enough for a
+// single family site; it resets on restart.
+export function createRateLimiter({ limit, windowMs }: RateLimitOptions): RateLimiter {
+  const attempts = new Map<string, Attempts>();
+
+  const current = (key: string): Attempts | null => {
+    const entry = attempts.get(key);
+    if (entry && entry.resetAt <= Date.now()) {
+      attempts.delete(key);
+      return null;
+    }
+    return entry || null;
+  };
+
+  return {
+    retryAfter(key) {
+      const entry = current(key);
+      if (!entry || entry.count < limit) {
+        return 0;
+      }
+      return Math.ceil((entry.resetAt - Date.now()) / 1000);
+    },
+    recordFailure(key) {
+      const entry = current(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        attempts.set(key, { count: 1, resetAt: Date.now() + windowMs });
+      }
+    },
+    reset(key) {
+      attempts.delete(key);
+    },
+  };
+}
+
+// The address to rate limit a request by. X-Forwarded-For is set by the client unless a
+// proxy in front of the app replaces or appends to it, so it is only read when TRUST_PROXY
+// says there is one; the last entry is the address the proxy saw.
+export function getClientAddress(req: NextApiRequest): string {
+  const trustProxy = process.env.TRUST_PROXY === "1" || process.env.TRUST_PROXY === "true";
+  if (trustProxy) {
+    const forwarded = req.headers["x-forwarded-for"];
+    const entries = (Array.isArray(forwarded) ? forwarded.join(",") : forwarded || "").split(",");
+    const last = entries[entries.length - 1].trim();
+    if (last) {
+      return last;
+    }
+  }
+  return req.socket.remoteAddress || "unknown";
+}
@@ -0,0 +1,72 @@
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { createFakeProvider } from "./fakeProvider";
+import { validateCandidates } from "./quoteMatching";
+
+const provider = createFakeProvider(path.join(__dirname, "fixtures"));
+
+const manifest = makeManifest([
+  makeSegment("partition.mp3", "We walked to Lahore during the partition and the trains were full", {
+    subject: "Partition",
+    startTime: 100,
+  }),
+  makeSegment("school.mp3", "My school in Lahore was within walking distance of the house", {
+    subject: "School",
+    startTime: 200,
+  }),
+]);
+
+async function search(question: string) {
+  return validateCandidates(manifest, await provider.findCandidates(question, manifest));
+}
+
+describe("fake search provider", () => {
+  it("refuses a fixtures directory that doesn't exist", () => {
+    expect(() => createFakeProvider(path.join(__dirname, "missing"))).toThrow(
+      "Search fixtures directory not found"
+    );
+  });
+
+  it("answers from the fixture for the question, ignoring case and spacing", async () => {
+    const candidates = await provider.findCandidates("  where did dada   WALK to? ", manifest);
+    expect(candidates).toEqual([
+      { audioFile: "partition.mp3", quote: "We walked to Lahore during the partition", subject: "Partition" },
+    ]);
+  });
+
+  it("returns no candidates for a question without a fixture", async () => {
+    expect(await provider.findCandidates("Who is Chachaji?", manifest)).toEqual([]);
+  });
+
+  it("throws the fixture's error", async () => {
+    await expect(provider.findCandidates("Is the model down?", manifest)).rejects.toThrow("Model unavailable");
+  });
+
+  it("locates a verbatim quote relative to the segment's mp3", async () => {
+    expect(await search("Where did Dada walk to?")).toEqual([
+      {
+        audioFile: "partition.mp3",
+        timestamp: 0,
+        start: 0,
+        end: expect.closeTo(3.4),
+        subject: "Partition",
+        quote: "We walked to Lahore during the partition",
+        confidence: 1,
+      },
+    ]);
+  });
+
+  it("moves a quote attributed to the wrong segment to the one it comes from", async () => {
+    const [result] = await search("Where was his school?");
+    expect(result).toMatchObject({ audioFile: "school.mp3", subject: "School", start: 0, confidence: 1 });
+  });
+
+  it("accepts a close paraphrase with lower confidence and drops an invented quote", async () => {
+    const results = await search("What were the trains like?");
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ audioFile: "partition.mp3", quote: "the train was full", start: 4 });
+    expect(results[0].confidence).toBeGreaterThan(0.6);
+    expect(results[0].confidence).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,54 @@
+import fs from "fs";
+import path from "path";
+import type { SearchCandidate, SearchProvider } from "./types";
+
+// A fixture file answers one question (or every question when question is "*").
+// Setting error makes the provider throw, to exercise the fallback path.
+interface SearchFixture {
+  question: string;
+  candidates?: SearchCandidate[];
+  error?: string;
+}
+
+function normalizeQuestion(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function loadFixtures(fixturesDir: string): SearchFixture[] {
+  return fs
+    .readdirSync(fixturesDir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      const contents = fs.readFileSync(path.join(fixturesDir, file), "utf-8");
+      return JSON.parse(contents) as SearchFixture;
+    });
+}
+
+// Deterministic stand-in for a model-backed provider, answering from fixture files on disk.
+// Throws if the directory is missing, rather than quietly finding nothing.
+export function createFakeProvider(fixturesDir: string): SearchProvider {
+  if (!fs.existsSync(fixturesDir)) {
+    throw new Error(`Search fixtures directory not found: ${fixturesDir}`);
+  }
+
+  return {
+    name: "fake",
+    kind: "ai",
+    async findCandidates(question) {
+      const fixtures = loadFixtures(fixturesDir);
+      const normalized = normalizeQuestion(question);
+      const fixture =
+        fixtures.find((f) => normalizeQuestion(f.question) === normalized) ||
+        fixtures.find((f) => f.question === "*");
+
+      if (!fixture) {
+        return [];
+      }
+      if (fixture.error) {
+        throw new Error(fixture.error);
+      }
+      return fixture.candidates || [];
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseCandidates } from "./geminiProvider";
+
+describe("parseCandidates", () => {
+  it("reads a JSON array inside a markdown code fence", () => {
+    const text = '```json\n[{"audioFile": "a.mp3", "quote": "we walked", "subject": "Partition"}]\n```';
+    expect(parseCandidates(text)).toEqual([{ audioFile: "a.mp3", quote: "we walked", subject: "Partition" }]);
+  });
+
+  it("drops items without string fields and strips unknown ones", () => {
+    const text = JSON.stringify([
+      { audioFile: "a.mp3", quote: 42, subject: "Partition" },
+      { audioFile: "a.mp3", subject: "Partition" },
+      null,
+      "a.mp3",
+      { audioFile: "b.mp3", quote: "my school", subject: "School", confidence: 1 },
+    ]);
+    expect(parseCandidates(text)).toEqual([{ audioFile: "b.mp3", quote: "my school", subject: "School" }]);
+  });
+
+  it("returns no candidates for an answer that isn't a JSON array", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(parseCandidates('{"audioFile": "a.mp3"}')).toEqual([]);
+    expect(parseCandidates("Sorry, I can't help with that")).toEqual([]);
+  });
+});
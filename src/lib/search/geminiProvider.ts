@@ -0,0 +1,107 @@
+import { GoogleGenAI } from "@google/genai";
+import { DEFAULT_GEMINI_MODEL } from "@/lib/gemini.mjs";
+import type { Manifest } from "@/lib/manifest";
+import {
+  batchPassages,
+  getRetrievalOptions,
+  retrievePassages,
+  RetrievedPassage,
+} from "./retrieval";
+import type { SearchCandidate, SearchProvider } from "./types";
+
+// Condensed transcript data for Gemini (without word timestamps). A long segment may
+// appear as several passages with the same audioFile.
+function buildPrompt(transcriptData: RetrievedPassage[], question: string): string {
+  return `You are analyzing audio transcripts from conversations with an elderly person named "Dada" or "S.K. Vedi".
+Given the following transcripts, find ALL moments where the user's question/topic is discussed.
+
+IMPORTANT: Return ONLY a valid JSON array with no markdown formatting, no code blocks, no explanation.
+Each match should have these exact fields:
+- audioFile: the audio file name exactly as shown (string)
+- subject: the segment's subject exactly as shown (string)
+- quote: copy an EXACT phrase from the transcript where the topic is discussed, 5-15 words, must be verbatim from the text (string)
+
+CRITICAL: Make sure the quote you return is actually from the audioFile you specify. Do not mix up quotes between different segments.
+
+If no matches are found, return an empty array: []
+
+Transcripts:
+${JSON.stringify(transcriptData, null, 2)}
+
+User's question: ${question}
+
+Return ONLY the JSON array:`;
+}
+
+function isCandidate(item: unknown): item is SearchCandidate {
+  if (!item || typeof item !== "object") return false;
+  const { audioFile, quote, subject } = item as Record<string, unknown>;
+  return typeof audioFile === "string" && typeof quote === "string" && typeof subject === "string";
+}
+
+// Parse the model's answer, tolerating markdown code fences around the JSON. Items without
+// string audioFile, quote and subject are dropped, and any other fields are left behind.
+export function parseCandidates(responseText: string): SearchCandidate[] {
+  let cleanedResponse = responseText.trim();
+  if (cleanedResponse.startsWith("```json")) {
+    cleanedResponse = cleanedResponse.slice(7);
+  } else if (cleanedResponse.startsWith("```")) {
+    cleanedResponse = cleanedResponse.slice(3);
+  }
+  if (cleanedResponse.endsWith("```")) {
+    cleanedResponse = cleanedResponse.slice(0, -3);
+  }
+  cleanedResponse = cleanedResponse.trim();
+
+  try {
+    const parsed = JSON.parse(cleanedResponse);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(isCandidate).map(({ audioFile, quote, subject }) => ({ audioFile, quote, subject }));
+  } catch {
+    console.error("Failed to parse Gemini response:", cleanedResponse);
+    return [];
+  }
+}
+
+export function createGeminiProvider(apiKey: string, model: string = DEFAULT_GEMINI_MODEL): SearchProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  // Only the most relevant passages that fit the token budget are sent, one call per batch
+  const planBatches = (question: string, manifest: Manifest) => {
+    const options = getRetrievalOptions();
+    return batchPassages(retrievePassages(manifest, question, options), options);
+  };
+
+  const requestBatch = async (batch: RetrievedPassage[], question: string, signal?: AbortSignal) => {
+    const response = await ai.models.generateContent({
+      model,
+      contents: buildPrompt(batch, question),
+      config: {
+        temperature: 0.2,
+        maxOutputTokens: 4096,
+        abortSignal: signal,
+      },
+    });
+    return parseCandidates(response.text || "[]");
+  };
+
+  return {
+    name: "gemini",
+    kind: "ai",
+    async findCandidates(question, manifest) {
+      // Overlapping answers from different batches are merged during validation
+      const answers = await Promise.all(planBatches(question, manifest).map((batch) => requestBatch(batch, question)));
+      return answers.flat();
+    },
+    async *streamCandidates(question, manifest, signal) {
+      // One batch at a time, most relevant first, so a search the client has given up on
+      // stops before the remaining calls are made
+      for (const batch of planBatches(question, manifest)) {
+        if (signal?.aborted) return;
+        yield await requestBatch(batch, question, signal);
+      }
+    },
+  };
+}
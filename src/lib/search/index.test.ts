@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { getConfiguredProvider, streamWithProvider } from "./index";
+import type { SearchCandidate, SearchProvider, SearchResult } from "./types";
+
+const manifest = makeManifest([
+  makeSegment("partition.mp3", "We walked to Lahore during the partition and the trains were full"),
+  makeSegment("school.mp3", "My school in Lahore was within walking distance of the house"),
+]);
+
+vi.mock("@/lib/manifest", () => ({ getManifest: () => manifest }));
+
+const batches: SearchCandidate[][] = [
+  [
+    { audioFile: "partition.mp3", quote: "we walked to Lahore", subject: "Partition" },
+    { audioFile: "partition.mp3", quote: "walked to Lahore during", subject: "Partition" },
+  ],
+  [{ audioFile: "school.mp3", quote: "my school in Lahore", subject: "School" }],
+];
+
+// Streams the batches above, counting how many it was asked for
+function createStreamingProvider() {
+  const provider = {
+    name: "test",
+    kind: "ai",
+    requested: 0,
+    async findCandidates() {
+      return batches.flat();
+    },
+    async *streamCandidates(_question: string, _manifest: unknown, signal?: AbortSignal) {
+      for (const batch of batches) {
+        if (signal?.aborted) return;
+        provider.requested++;
+        yield batch;
+      }
+    },
+  } satisfies SearchProvider & { requested: number };
+  return provider;
+}
+
+async function collect(iterable: AsyncIterable<{ audioFile: string }>, onResult?: () => void) {
+  const audioFiles: string[] = [];
+  for await (const result of iterable) {
+    audioFiles.push(result.audioFile);
+    onResult?.();
+  }
+  return audioFiles;
+}
+
+describe("streamWithProvider", () => {
+  it("yields each located result once, skipping overlapping quotes", async () => {
+    const provider = createStreamingProvider();
+    expect(await collect(streamWithProvider(provider, "Lahore"))).toEqual(["partition.mp3", "school.mp3"]);
+    expect(provider.requested).toBe(2);
+  });
+
+  it("skips results already sent", async () => {
+    const seen: SearchResult[] = [];
+    await collect(streamWithProvider(createStreamingProvider(), "Lahore", seen));
+    expect(seen).toHaveLength(2);
+    expect(await collect(streamWithProvider(createStreamingProvider(), "Lahore", seen))).toEqual([]);
+  });
+
+  it("stops asking the provider for batches once aborted", async () => {
+    const provider = createStreamingProvider();
+    const abort = new AbortController();
+    const audioFiles = await collect(streamWithProvider(provider, "Lahore", [], abort.signal), () => abort.abort());
+    expect(audioFiles).toEqual(["partition.mp3"]);
+    expect(provider.requested).toBe(1);
+  });
+});
+
+describe("getConfiguredProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("answers from the committed fixtures when SEARCH_PROVIDER is fake", async () => {
+    vi.stubEnv("SEARCH_PROVIDER", "fake");
+    vi.stubEnv("SEARCH_FIXTURES_DIR", "");
+    const provider = getConfiguredProvider();
+    expect(provider?.name).toBe("fake");
+    expect(await provider?.findCandidates("What were the trains like?", manifest)).toHaveLength(2);
+  });
+
+  it("throws when the fixtures directory is missing", () => {
+    vi.stubEnv("SEARCH_PROVIDER", "fake");
+    vi.stubEnv("SEARCH_FIXTURES_DIR", "/nonexistent/fixtures");
+    expect(() => getConfiguredProvider()).toThrow("Search fixtures directory not found");
+  });
+});
@@ -0,0 +1,105 @@
+import path from "path";
+import { getManifest } from "@/lib/manifest";
+import { createFakeProvider } from "./fakeProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createLexicalProvider } from "./lexicalProvider";
+import {
+  buildSegmentMap,
+  createAlignmentBudget,
+  findDuplicate,
+  locateCandidate,
+  validateCandidates,
+} from "./quoteMatching";
+import type { SearchMode, SearchProvider, SearchResult } from "./types";
+
+export { createLexicalProvider };
+export type { SearchCandidate, SearchMode, SearchProvider, SearchResult } from "./types";
+
+export const SEARCH_MODES: SearchMode[] = ["auto", "ai", "lexical"];
+
+// The fixtures the fake provider answers from unless SEARCH_FIXTURES_DIR says otherwise
+const DEFAULT_FIXTURES_DIR = path.join("src", "lib", "search", "fixtures");
+
+// Resolve the provider named by SEARCH_PROVIDER (gemini, lexical or fake). Without it,
+// Gemini is used when GEMINI_API_KEY is set. Returns null when nothing usable is configured.
+export function getConfiguredProvider(): SearchProvider | null {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const providerName = process.env.SEARCH_PROVIDER || (apiKey ? "gemini" : null);
+  if (!providerName) {
+    return null;
+  }
+
+  switch (providerName) {
+    case "gemini":
+      return apiKey ? createGeminiProvider(apiKey, process.env.GEMINI_MODEL) : null;
+    case "fake":
+      return createFakeProvider(
+        process.env.SEARCH_FIXTURES_DIR || path.join(process.cwd(), DEFAULT_FIXTURES_DIR)
+      );
+    case "lexical":
+      return createLexicalProvider();
+    default:
+      throw new Error(`Unknown SEARCH_PROVIDER: ${providerName}`);
+  }
+}
+
+export interface ProviderSelection {
+  provider: SearchProvider;
+  // Used when the provider fails in "auto" mode
+  fallback: SearchProvider | null;
+}
+
+// Pick the providers for a requested mode. Returns null when "ai" is requested but no
+// model-backed provider is configured.
+export function selectProviders(mode: SearchMode): ProviderSelection | null {
+  const lexicalProvider = createLexicalProvider();
+  if (mode === "lexical") {
+    return { provider: lexicalProvider, fallback: null };
+  }
+
+  const provider = getConfiguredProvider();
+  if (!provider) {
+    return mode === "ai" ? null : { provider: lexicalProvider, fallback: null };
+  }
+
+  const canFallBack = mode === "auto" && provider.kind !== "lexical";
+  return { provider, fallback: canFallBack ? lexicalProvider : null };
+}
+
+export async function searchWithProvider(
+  provider: SearchProvider,
+  question: string
+): Promise<SearchResult[]> {
+  const manifest = getManifest();
+  const candidates = await provider.findCandidates(question, manifest);
+  return validateCandidates(manifest, candidates);
+}
+
+// Yield validated results one at a time as the provider produces candidates. Results that
+// overlap one already yielded (including those in `seen`) are skipped. Aborting the signal
+// ends the stream and stops the provider asking for more.
+export async function* streamWithProvider(
+  provider: SearchProvider,
+  question: string,
+  seen: SearchResult[] = [],
+  signal?: AbortSignal
+): AsyncGenerator<SearchResult> {
+  const manifest = getManifest();
+  const segmentMap = buildSegmentMap(manifest);
+  const budget = createAlignmentBudget();
+
+  const batches = provider.streamCandidates
+    ? provider.streamCandidates(question, manifest, signal)
+    : [await provider.findCandidates(question, manifest)];
+
+  for await (const candidates of batches) {
+    if (signal?.aborted) return;
+    for (const candidate of candidates) {
+      const result = locateCandidate(segmentMap, candidate, budget);
+      if (result && findDuplicate(seen, result) === -1) {
+        seen.push(result);
+        yield result;
+      }
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { lexicalSearch } from "./lexicalSearch";
+import type { SearchProvider } from "./types";
+
+export function createLexicalProvider(): SearchProvider {
+  return {
+    name: "lexical",
+    kind: "lexical",
+    async findCandidates(question) {
+      return lexicalSearch(question).map((hit) => ({
+        audioFile: hit.audioFile,
+        quote: hit.quote,
+        subject: hit.subject,
+        location: { start: hit.start, end: hit.end },
+      }));
+    },
+  };
+}
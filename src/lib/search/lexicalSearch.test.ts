@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Manifest } from "@/lib/manifest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { lexicalSearch, normalizeWord, parseQuery, rankSegments, stem } from "./lexicalSearch";
+
+let manifest: Manifest;
+
+vi.mock("@/lib/manifest", () => ({ getManifest: () => manifest }));
+
+describe("normalizeWord", () => {
+  it("lowercases and strips punctuation and apostrophes", () => {
+    expect(normalizeWord("Lahore,")).toBe("lahore");
+    expect(normalizeWord("Dada's")).toBe("dadas");
+    expect(normalizeWord("...")).toBe("");
+  });
+
+  it("keeps letters from other scripts", () => {
+    expect(normalizeWord("नमस्ते!")).toBe("नमस्ते");
+  });
+});
+
+describe("stem", () => {
+  it("reduces inflections to the same stem", () => {
+    expect(stem("walking")).toBe(stem("walked"));
+    expect(stem("stopped")).toBe("stop");
+    expect(stem("families")).toBe(stem("family"));
+  });
+
+  it("leaves short and non-latin tokens alone", () => {
+    expect(stem("was")).toBe("was");
+    expect(stem("नमस्ते")).toBe("नमस्ते");
+  });
+});
+
+describe("parseQuery", () => {
+  it("drops stopwords and stems the remaining terms", () => {
+    expect(parseQuery("What did Dada say about the trains?")).toEqual({ terms: ["train"], phrases: [] });
+  });
+
+  it("keeps quoted phrases whole, stopwords included", () => {
+    expect(parseQuery('"the partition" Lahore')).toEqual({ terms: ["lahore"], phrases: [["the", "partition"]] });
+  });
+});
+
+describe("lexicalSearch", () => {
+  beforeEach(() => {
+    manifest = makeManifest([
+      makeSegment("a.mp3", "We walked to Lahore during the partition and the trains were full", {
+        subject: "Partition",
+        startTime: 100,
+      }),
+      makeSegment("b.mp3", "My school in Lahore was within walking distance of the house", { subject: "School" }),
+      makeSegment("c.mp3", "Cricket on Sundays with my brothers", { subject: "Cricket" }),
+    ]);
+  });
+
+  it("ranks segments that use the question's terms", () => {
+    const ranked = rankSegments("trains in Lahore");
+    expect(ranked.map((r) => r.audioFile)).toEqual(["a.mp3", "b.mp3"]);
+  });
+
+  it("returns nothing for a question of stopwords", () => {
+    expect(lexicalSearch("what did he say")).toEqual([]);
+  });
+
+  it("quotes the passage around the match with a timestamp relative to the segment", () => {
+    const [hit] = lexicalSearch("trains");
+    expect(hit.audioFile).toBe("a.mp3");
+    expect(hit.subject).toBe("Partition");
+    // "trains" is the tenth word, half a second apart
+    expect(hit.timestamp).toBe(4.5);
+    expect(hit.quote).toBe("partition and the trains were full");
+    // ...spanning from "partition" to "full"
+    expect(hit.start).toBe(3);
+    expect(hit.end).toBeCloseTo(5.9);
+  });
+
+  it("matches inflected forms", () => {
+    expect(lexicalSearch("walk").map((hit) => hit.audioFile).sort()).toEqual(["a.mp3", "b.mp3"]);
+  });
+
+  it("only returns segments containing a quoted phrase", () => {
+    expect(lexicalSearch('Lahore "walking distance"').map((hit) => hit.audioFile)).toEqual(["b.mp3"]);
+  });
+});
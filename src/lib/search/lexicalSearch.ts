@@ -0,0 +1,391 @@
+import { getManifest, Manifest, Segment } from "@/lib/manifest";
+
+export interface LexicalHit {
+  audioFile: string;
+  subject: string;
+  // Seconds relative to the start of the segment's mp3
+  timestamp: number;
+  quote: string;
+  // The quoted words, in seconds relative to the start of the segment's mp3
+  start: number;
+  end: number;
+  score: number;
+}
+
+interface IndexedSegment {
+  segment: Segment;
+  // Index into segment.transcript.words for every token position
+  wordIndexes: number[];
+  tokens: string[];
+}
+
+interface SearchIndex {
+  manifest: Manifest;
+  segments: IndexedSegment[];
+  // term -> segment position -> token positions
+  postings: Map<string, Map<number, number[]>>;
+  averageLength: number;
+}
+
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const QUOTE_WORDS_BEFORE = 3;
+const QUOTE_WORDS_AFTER = 12;
+const PASSAGE_RADIUS = 8;
+const MAX_HITS_PER_SEGMENT = 3;
+// Hits in the same segment closer than this many tokens are treated as one passage
+const MIN_HIT_SEPARATION = 30;
+
+const STOPWORDS = new Set([
+  "a", "about", "an", "and", "are", "as", "at", "be", "but", "by", "did", "do",
+  "does", "for", "from", "had", "has", "have", "he", "her", "him", "his", "how",
+  "i", "in", "is", "it", "its", "me", "my", "of", "on", "or", "she", "so", "that",
+  "the", "their", "them", "there", "they", "this", "to", "was", "we", "were",
+  "what", "when", "where", "which", "who", "why", "with", "you", "your",
+  "dada", "talk", "talked", "talks", "say", "said", "tell", "told", "mention", "mentioned",
+]);
+
+// Lowercase and strip punctuation, keeping letters from any script so Hindi/Punjabi words
+// survive, along with their vowel signs (combining marks)
+export function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[’']/g, "")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, "")
+    .trim();
+}
+
+// Words too common to say much about where a passage is, as normalized by normalizeWord
+export function isStopword(token: string): boolean {
+  return STOPWORDS.has(token);
+}
+
+function hasVowel(value: string): boolean {
+  return /[aeiouy]/.test(value);
+}
+
+// A small suffix-stripping stemmer in the spirit of Porter's algorithm. It only needs to be
+// consistent between indexing and querying, not linguistically perfect.
+export function stem(token: string): string {
+  if (token.length <= 3 || !/^[a-z]+$/.test(token)) {
+    return token;
+  }
+
+  let result = token;
+
+  if (result.endsWith("sses")) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith("ies")) {
+    // "families" -> "family", so it stems with the singular
+    result = result.slice(0, -3) + "y";
+  } else if (result.endsWith("s") && !result.endsWith("ss") && !result.endsWith("us")) {
+    result = result.slice(0, -1);
+  }
+
+  for (const suffix of ["ing", "ed"]) {
+    if (result.endsWith(suffix) && hasVowel(result.slice(0, -suffix.length))) {
+      result = result.slice(0, -suffix.length);
+      // Undo doubled consonants: "stopped" -> "stop"
+      if (/([^aeiouylsz])\1$/.test(result)) {
+        result = result.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  const replacements: [string, string][] = [
+    ["ational", "ate"],
+    ["ization", "ize"],
+    ["fulness", "ful"],
+    ["iveness", "ive"],
+    ["ousness", "ous"],
+    ["tional", "tion"],
+    ["ement", ""],
+    ["ment", ""],
+    ["ness", ""],
+    ["ally", "al"],
+    ["ly", ""],
+  ];
+  for (const [suffix, replacement] of replacements) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      break;
+    }
+  }
+
+  if (result.endsWith("y") && result.length > 3) {
+    result = result.slice(0, -1) + "i";
+  }
+
+  return result;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map(normalizeWord)
+    .filter((token) => token.length > 0);
+}
+
+export function parseQuery(question: string): ParsedQuery {
+  const phrases: string[][] = [];
+  const remainder = question.replace(/["“”]([^"“”]+)["“”]/g, (_, phrase: string) => {
+    const phraseTokens = tokenize(phrase).map(stem);
+    if (phraseTokens.length > 0) {
+      phrases.push(phraseTokens);
+    }
+    return " ";
+  });
+
+  const terms = tokenize(remainder)
+    .filter((token) => !STOPWORDS.has(token))
+    .map(stem);
+
+  return { terms: Array.from(new Set(terms)), phrases };
+}
+
+function buildIndex(manifest: Manifest): SearchIndex {
+  const segments: IndexedSegment[] = [];
+  const postings = new Map<string, Map<number, number[]>>();
+  let totalLength = 0;
+
+  for (const session of manifest.sessions) {
+    for (const segment of session.segments) {
+      const indexed: IndexedSegment = { segment, wordIndexes: [], tokens: [] };
+      const segmentPosition = segments.length;
+      const words = segment.transcript.words || [];
+
+      words.forEach((word, wordIndex) => {
+        const token = normalizeWord(word.word);
+        if (!token) return;
+
+        const term = stem(token);
+        const position = indexed.tokens.length;
+        indexed.tokens.push(term);
+        indexed.wordIndexes.push(wordIndex);
+
+        let termPostings = postings.get(term);
+        if (!termPostings) {
+          termPostings = new Map();
+          postings.set(term, termPostings);
+        }
+        const positions = termPostings.get(segmentPosition);
+        if (positions) {
+          positions.push(position);
+        } else {
+          termPostings.set(segmentPosition, [position]);
+        }
+      });
+
+      totalLength += indexed.tokens.length;
+      segments.push(indexed);
+    }
+  }
+
+  return {
+    manifest,
+    segments,
+    postings,
+    averageLength: segments.length > 0 ? totalLength / segments.length : 0,
+  };
+}
+
+// The index is rebuilt whenever getManifest hands back a different manifest object
+let cachedIndex: SearchIndex | null = null;
+
+function getIndex(): SearchIndex {
+  const manifest = getManifest();
+  if (!cachedIndex || cachedIndex.manifest !== manifest) {
+    cachedIndex = buildIndex(manifest);
+  }
+  return cachedIndex;
+}
+
+function bm25(index: SearchIndex, termFrequency: number, documentFrequency: number, length: number): number {
+  const total = index.segments.length;
+  const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  const norm = termFrequency + BM25_K1 * (1 - BM25_B + BM25_B * (length / (index.averageLength || 1)));
+  return idf * ((termFrequency * (BM25_K1 + 1)) / norm);
+}
+
+// Find every token position where the phrase starts in the given segment
+function findPhrasePositions(index: SearchIndex, segmentPosition: number, phrase: string[]): number[] {
+  const first = index.postings.get(phrase[0])?.get(segmentPosition);
+  if (!first) return [];
+
+  const tokens = index.segments[segmentPosition].tokens;
+  return first.filter((start) => phrase.every((term, offset) => tokens[start + offset] === term));
+}
+
+// The words around a position, with when they start and end in the recording
+function buildQuote(indexed: IndexedSegment, position: number): { quote: string; start: number; end: number } {
+  const fromPosition = Math.max(0, position - QUOTE_WORDS_BEFORE);
+  const toPosition = Math.min(indexed.wordIndexes.length - 1, position + QUOTE_WORDS_AFTER);
+  const words = indexed.segment.transcript.words
+    .slice(indexed.wordIndexes[fromPosition], indexed.wordIndexes[toPosition] + 1)
+    .filter((word) => word.word.trim().length > 0 && word.word !== "...");
+  return {
+    quote: words.map((word) => word.word.trim()).join(" "),
+    start: words[0].start,
+    end: words[words.length - 1].end,
+  };
+}
+
+// Pick the strongest passages in a segment: anchors covered by the most distinct query terms nearby
+function selectPassages(
+  indexed: IndexedSegment,
+  anchors: number[],
+  queryTerms: Set<string>
+): number[] {
+  const scored = anchors.map((anchor) => {
+    const nearby = new Set<string>();
+    const from = Math.max(0, anchor - PASSAGE_RADIUS);
+    const to = Math.min(indexed.tokens.length - 1, anchor + PASSAGE_RADIUS);
+    for (let i = from; i <= to; i++) {
+      if (queryTerms.has(indexed.tokens[i])) {
+        nearby.add(indexed.tokens[i]);
+      }
+    }
+    return { anchor, coverage: nearby.size };
+  });
+
+  scored.sort((a, b) => b.coverage - a.coverage || a.anchor - b.anchor);
+
+  const selected: number[] = [];
+  for (const { anchor } of scored) {
+    if (selected.every((existing) => Math.abs(existing - anchor) >= MIN_HIT_SEPARATION)) {
+      selected.push(anchor);
+      if (selected.length >= MAX_HITS_PER_SEGMENT) break;
+    }
+  }
+  return selected;
+}
+
+interface SegmentScores {
+  scores: Map<number, number>;
+  // Token positions of query term and phrase occurrences per segment
+  anchors: Map<number, number[]>;
+}
+
+// Score every segment with BM25. Quoted phrases in the question must appear verbatim
+// (after stemming) for a segment to be scored at all.
+function scoreSegments(index: SearchIndex, query: ParsedQuery): SegmentScores {
+  const scores = new Map<number, number>();
+  const anchors = new Map<number, number[]>();
+
+  const addAnchors = (segmentPosition: number, positions: number[]) => {
+    const existing = anchors.get(segmentPosition) || [];
+    anchors.set(segmentPosition, existing.concat(positions));
+  };
+
+  for (const term of query.terms) {
+    const termPostings = index.postings.get(term);
+    if (!termPostings) continue;
+
+    for (const [segmentPosition, positions] of termPostings) {
+      const length = index.segments[segmentPosition].tokens.length;
+      const score = bm25(index, positions.length, termPostings.size, length);
+      scores.set(segmentPosition, (scores.get(segmentPosition) || 0) + score);
+      addAnchors(segmentPosition, positions);
+    }
+  }
+
+  // Phrases act as filters as well as boosting the score
+  let allowedSegments: Set<number> | null = null;
+  for (const phrase of query.phrases) {
+    const matches = new Map<number, number[]>();
+    const candidates = index.postings.get(phrase[0]);
+    if (candidates) {
+      for (const segmentPosition of candidates.keys()) {
+        const positions = findPhrasePositions(index, segmentPosition, phrase);
+        if (positions.length > 0) {
+          matches.set(segmentPosition, positions);
+        }
+      }
+    }
+
+    const matched = new Set<number>();
+    for (const segmentPosition of matches.keys()) {
+      if (!allowedSegments || allowedSegments.has(segmentPosition)) {
+        matched.add(segmentPosition);
+      }
+    }
+    allowedSegments = matched;
+
+    for (const [segmentPosition, positions] of matches) {
+      const length = index.segments[segmentPosition].tokens.length;
+      const score = bm25(index, positions.length, matches.size, length) * phrase.length;
+      scores.set(segmentPosition, (scores.get(segmentPosition) || 0) + score);
+      addAnchors(segmentPosition, positions);
+    }
+  }
+
+  if (allowedSegments) {
+    for (const segmentPosition of Array.from(scores.keys())) {
+      if (!allowedSegments.has(segmentPosition)) {
+        scores.delete(segmentPosition);
+      }
+    }
+  }
+
+  return { scores, anchors };
+}
+
+// Rank segments by BM25 score for the question, best first. Segments with no matching
+// terms are left out.
+export function rankSegments(question: string): { audioFile: string; score: number }[] {
+  const query = parseQuery(question);
+  if (query.terms.length === 0 && query.phrases.length === 0) {
+    return [];
+  }
+
+  const index = getIndex();
+  const { scores } = scoreSegments(index, query);
+  return Array.from(scores, ([segmentPosition, score]) => ({
+    audioFile: index.segments[segmentPosition].segment.audioFile,
+    score,
+  })).sort((a, b) => b.score - a.score);
+}
+
+// Rank segments with BM25 and locate the best passages inside each one
+export function lexicalSearch(question: string, limit = 10): LexicalHit[] {
+  const query = parseQuery(question);
+  if (query.terms.length === 0 && query.phrases.length === 0) {
+    return [];
+  }
+
+  const index = getIndex();
+  const { scores, anchors } = scoreSegments(index, query);
+  const queryTerms = new Set([...query.terms, ...query.phrases.flat()]);
+  const hits: LexicalHit[] = [];
+
+  for (const [segmentPosition, score] of scores) {
+    const indexed = index.segments[segmentPosition];
+    const { segment } = indexed;
+    const passages = selectPassages(indexed, anchors.get(segmentPosition) || [], queryTerms);
+
+    passages.forEach((position, rank) => {
+      const word = segment.transcript.words[indexed.wordIndexes[position]];
+      const { quote, start, end } = buildQuote(indexed, position);
+      const offset = segment.metadata.startTime;
+      hits.push({
+        audioFile: segment.audioFile,
+        subject: segment.metadata.subject,
+        timestamp: Math.max(0, word.start - offset),
+        quote,
+        start: Math.max(0, start - offset),
+        end: Math.max(0, end - offset),
+        // Later passages in the same segment rank slightly below the first
+        score: score / (rank + 1),
+      });
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+  return hits.slice(0, limit);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from "vitest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import {
+  alignTokens,
+  buildSegmentMap,
+  createAlignmentBudget,
+  findQuoteInSegment,
+  findSegmentForQuote,
+  locateCandidate,
+  validateCandidates,
+} from "./quoteMatching";
+
+const partition = makeSegment(
+  "partition.mp3",
+  "So um we walked to Lahore during the partition and the trains were full of people",
+  { subject: "Partition", startTime: 60 }
+);
+const school = makeSegment("school.mp3", "My school in Lahore was within walking distance of our house", {
+  subject: "School",
+});
+const manifest = makeManifest([partition, school]);
+
+describe("alignTokens", () => {
+  it("finds the window a quote matches, skipping extra transcript words", () => {
+    const transcript = ["so", "we", "um", "walked", "to", "lahore", "then"];
+    expect(alignTokens(transcript, ["we", "walked", "to", "lahore"])).toEqual({ from: 1, to: 6, cost: 0.5 });
+  });
+
+  it("returns null for an empty quote or transcript", () => {
+    expect(alignTokens([], ["lahore"])).toBeNull();
+    expect(alignTokens(["lahore"], [])).toBeNull();
+  });
+});
+
+describe("findQuoteInSegment", () => {
+  it("times a verbatim quote relative to the segment's mp3", () => {
+    // "walked" is the fourth word, "Lahore" the sixth
+    expect(findQuoteInSegment(partition, "walked to Lahore")).toEqual({
+      start: 1.5,
+      end: expect.closeTo(2.9),
+      confidence: 1,
+    });
+  });
+
+  it("ignores case and punctuation", () => {
+    expect(findQuoteInSegment(partition, "WALKED to Lahore,")?.confidence).toBe(1);
+  });
+
+  it("scores a close paraphrase below 1", () => {
+    const location = findQuoteInSegment(partition, "we walk to Lahore in the partition");
+    expect(location?.start).toBe(1);
+    expect(location?.confidence).toBeGreaterThan(0.6);
+    expect(location?.confidence).toBeLessThan(1);
+  });
+
+  it("rejects a quote that isn't in the segment", () => {
+    expect(findQuoteInSegment(partition, "we played cricket on Sundays")).toBeNull();
+    expect(findQuoteInSegment(partition, "...")).toBeNull();
+  });
+
+  it("falls back to the text when a segment has no word timings", () => {
+    const untimed = { ...partition, transcript: { text: "We walked to Lahore.", words: [] } };
+    expect(findQuoteInSegment(untimed, "walked to lahore")).toEqual({ start: 0, end: 0, confidence: 1 });
+  });
+});
+
+describe("findSegmentForQuote", () => {
+  it("picks the segment the quote comes from", () => {
+    const found = findSegmentForQuote(buildSegmentMap(manifest), "school in Lahore was within walking distance");
+    expect(found?.segment.audioFile).toBe("school.mp3");
+    expect(found?.location).toMatchObject({ start: 0.5, confidence: 1 });
+  });
+
+  it("returns null when no segment matches", () => {
+    expect(findSegmentForQuote(buildSegmentMap(manifest), "the monsoon came early that year")).toBeNull();
+  });
+});
+
+describe("locateCandidate", () => {
+  const segmentMap = buildSegmentMap(manifest);
+
+  it("corrects the audioFile of a quote from another segment", () => {
+    const result = locateCandidate(segmentMap, {
+      audioFile: "partition.mp3",
+      quote: "within walking distance of our house",
+      subject: "Partition",
+    });
+    expect(result).toMatchObject({ audioFile: "school.mp3", subject: "School", confidence: 1 });
+  });
+
+  it("trusts the location of a quote taken from the transcript", () => {
+    const result = locateCandidate(segmentMap, {
+      audioFile: "partition.mp3",
+      quote: "the trains were full",
+      subject: "Partition",
+      location: { start: 5, end: 6.9 },
+    });
+    expect(result).toMatchObject({ start: 5, end: 6.9, timestamp: 5, confidence: 1 });
+  });
+
+  it("stops aligning once the budget is used up", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const budget = { ...createAlignmentBudget(), cells: 10 };
+    const candidate = { audioFile: "partition.mp3", quote: "we walked to Lahore", subject: "Partition" };
+    expect(locateCandidate(segmentMap, candidate, budget)).toBeNull();
+    expect(budget.exhausted).toBe(true);
+  });
+
+  it("doesn't align very long quotes", () => {
+    const quote = Array.from({ length: 61 }, () => "Lahore").join(" ");
+    expect(locateCandidate(segmentMap, { audioFile: "partition.mp3", quote, subject: "Partition" })).toBeNull();
+  });
+});
+
+describe("validateCandidates", () => {
+  it("drops quotes that can't be found and merges overlapping ones, keeping the closer match", () => {
+    const results = validateCandidates(manifest, [
+      { audioFile: "partition.mp3", quote: "we walk to Lahore", subject: "Partition" },
+      { audioFile: "partition.mp3", quote: "we walked to Lahore", subject: "Partition" },
+      { audioFile: "partition.mp3", quote: "an invented sentence about elephants", subject: "Partition" },
+    ]);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ quote: "we walked to Lahore", confidence: 1 });
+  });
+});
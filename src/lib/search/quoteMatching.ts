@@ -0,0 +1,415 @@
+import type { Manifest, Segment } from "@/lib/manifest";
+import { isStopword, normalizeWord, stem } from "./lexicalSearch";
+import type { SearchCandidate, SearchResult } from "./types";
+
+export interface QuoteLocation {
+  // Seconds relative to the start of the segment's mp3
+  start: number;
+  end: number;
+  // 1 for a verbatim match, falling towards 0 as more edits are needed
+  confidence: number;
+}
+
+// Below this confidence a quote is treated as not present in the segment
+export const MIN_QUOTE_CONFIDENCE = 0.6;
+
+// Cost of a quote word that is missing from the transcript
+const QUOTE_GAP_COST = 1;
+// Cost of an extra transcript word inside the matched window (fillers, repeated words)
+const TRANSCRIPT_GAP_COST = 0.5;
+// Quotes are asked for at 5-15 words; much longer ones aren't worth aligning
+const MAX_QUOTE_TOKENS = 60;
+// Only stretches of transcript where at least this share of the quote's content words
+// appear (by stem) within twice the quote's length are aligned. A quote with fewer can only
+// reach MIN_QUOTE_CONFIDENCE if nearly all its other words are near spellings.
+const MIN_ANCHOR_FRACTION = 0.3;
+// Alignment work allowed for one search, in quote words x transcript words. Alignment is
+// synchronous, so candidates past this are dropped rather than holding up the server.
+const MAX_ALIGNMENT_CELLS = 2_000_000;
+
+export interface AlignmentBudget {
+  cells: number;
+  exhausted: boolean;
+}
+
+export function createAlignmentBudget(): AlignmentBudget {
+  return { cells: MAX_ALIGNMENT_CELLS, exhausted: false };
+}
+
+interface TokenizedTranscript {
+  tokens: string[];
+  stems: string[];
+  // Index into transcript.words for each token
+  wordIndexes: number[];
+}
+
+interface PreparedQuote {
+  text: string;
+  tokens: string[];
+  // Stems of the quote's content words (all its words if it has none), which anchor the
+  // windows it is aligned in
+  anchors: Set<string>;
+  // Cost of aligning quote token i with a transcript token
+  costOf: (i: number, token: string) => number;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 0 for identical tokens, small for the same stem or a near spelling, 1 for unrelated words
+function substitutionCost(a: string, aStem: string, b: string): number {
+  if (a === b) return 0;
+  if (aStem === stem(b)) return 0.1;
+
+  // The edit distance is at least the difference in length, which may already rule out a
+  // near spelling
+  const longer = Math.max(a.length, b.length);
+  if (Math.abs(a.length - b.length) / longer > 0.5) return 1;
+
+  const similarity = 1 - levenshtein(a, b) / longer;
+  return similarity >= 0.5 ? 1 - similarity : 1;
+}
+
+// Costs are cached per quote word and distinct transcript word. Transcripts repeat the same
+// vocabulary, so each pair is compared once however many segments the quote is tried on.
+function createCostCache(quote: string[]): (i: number, token: string) => number {
+  const quoteStems = quote.map(stem);
+  const cache = quote.map(() => new Map<string, number>());
+  return (i, token) => {
+    let cost = cache[i].get(token);
+    if (cost === undefined) {
+      cost = substitutionCost(quote[i], quoteStems[i], token);
+      cache[i].set(token, cost);
+    }
+    return cost;
+  };
+}
+
+function prepareQuote(quote: string): PreparedQuote | null {
+  const tokens = quote.split(/\s+/).map(normalizeWord).filter((token) => token.length > 0);
+  if (tokens.length === 0 || tokens.length > MAX_QUOTE_TOKENS) {
+    return null;
+  }
+  const contentWords = tokens.filter((token) => !isStopword(token));
+  return {
+    text: quote,
+    tokens,
+    anchors: new Set((contentWords.length > 0 ? contentWords : tokens).map(stem)),
+    costOf: createCostCache(tokens),
+  };
+}
+
+// Segments are replaced, not mutated, when the manifest or its edits change
+const tokenizedSegments = new WeakMap<Segment, TokenizedTranscript>();
+
+function tokenizeSegment(segment: Segment): TokenizedTranscript {
+  let tokenized = tokenizedSegments.get(segment);
+  if (!tokenized) {
+    tokenized = { tokens: [], stems: [], wordIndexes: [] };
+    for (const [index, word] of (segment.transcript.words || []).entries()) {
+      const token = normalizeWord(word.word);
+      if (token) {
+        tokenized.tokens.push(token);
+        tokenized.stems.push(stem(token));
+        tokenized.wordIndexes.push(index);
+      }
+    }
+    tokenizedSegments.set(segment, tokenized);
+  }
+  return tokenized;
+}
+
+// Semi-global alignment of the quote against transcript[from, to): the whole quote must be
+// aligned, but it may start and end anywhere in that range. Returns the lowest-cost window
+// as token positions [from, to).
+function alignRange(
+  transcript: string[],
+  quoteLength: number,
+  costOf: (i: number, token: string) => number,
+  from: number,
+  to: number
+): { from: number; to: number; cost: number } | null {
+  const n = to - from;
+  if (quoteLength === 0 || n <= 0) {
+    return null;
+  }
+
+  // Row i holds the best cost of aligning quote[0..i) ending just before transcript position
+  // from + j, plus where that alignment started
+  let costs = new Array<number>(n + 1).fill(0);
+  let starts = Array.from({ length: n + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= quoteLength; i++) {
+    const nextCosts = new Array<number>(n + 1);
+    const nextStarts = new Array<number>(n + 1);
+    nextCosts[0] = costs[0] + QUOTE_GAP_COST;
+    nextStarts[0] = 0;
+
+    for (let j = 1; j <= n; j++) {
+      const diagonal = costs[j - 1] + costOf(i - 1, transcript[from + j - 1]);
+      const skipQuote = costs[j] + QUOTE_GAP_COST;
+      const skipTranscript = nextCosts[j - 1] + TRANSCRIPT_GAP_COST;
+
+      if (diagonal <= skipQuote && diagonal <= skipTranscript) {
+        nextCosts[j] = diagonal;
+        nextStarts[j] = starts[j - 1];
+      } else if (skipQuote <= skipTranscript) {
+        nextCosts[j] = skipQuote;
+        nextStarts[j] = starts[j];
+      } else {
+        nextCosts[j] = skipTranscript;
+        nextStarts[j] = nextStarts[j - 1];
+      }
+    }
+
+    costs = nextCosts;
+    starts = nextStarts;
+  }
+
+  let bestEnd = -1;
+  for (let j = 1; j <= n; j++) {
+    if (starts[j] < j && (bestEnd === -1 || costs[j] < costs[bestEnd])) {
+      bestEnd = j;
+    }
+  }
+
+  if (bestEnd === -1) {
+    return null;
+  }
+  return { from: from + starts[bestEnd], to: from + bestEnd, cost: costs[bestEnd] };
+}
+
+// Align a quote against a whole transcript, as alignRange does
+export function alignTokens(
+  transcript: string[],
+  quote: string[]
+): { from: number; to: number; cost: number } | null {
+  return alignRange(transcript, quote.length, createCostCache(quote), 0, transcript.length);
+}
+
+// The stretches of a transcript worth aligning a quote against: around clusters of words
+// sharing a stem with the quote's anchors, widened by the quote's length and merged when
+// they overlap
+function candidateWindows(stems: string[], quote: PreparedQuote): [number, number][] {
+  const length = quote.tokens.length;
+  const minHits = Math.max(1, Math.ceil(quote.anchors.size * MIN_ANCHOR_FRACTION));
+  const hits: number[] = [];
+  stems.forEach((token, position) => {
+    if (quote.anchors.has(token)) hits.push(position);
+  });
+
+  const windows: [number, number][] = [];
+  for (let i = 0, j = 0; i < hits.length; i++) {
+    while (j < hits.length && hits[j] - hits[i] < 2 * length) j++;
+    if (j - i < minHits) continue;
+
+    const from = Math.max(0, hits[i] - length);
+    const to = Math.min(stems.length, hits[j - 1] + length + 1);
+    const previous = windows[windows.length - 1];
+    if (previous && from <= previous[1]) {
+      previous[1] = Math.max(previous[1], to);
+    } else {
+      windows.push([from, to]);
+    }
+  }
+  return windows;
+}
+
+function locateQuote(segment: Segment, quote: PreparedQuote, budget: AlignmentBudget): QuoteLocation | null {
+  const words = segment.transcript.words;
+  if (!words || words.length === 0) {
+    // Fallback: check if quote exists in the text
+    const textLower = segment.transcript.text.toLowerCase();
+    if (textLower.includes(quote.text.toLowerCase())) {
+      return { start: 0, end: 0, confidence: 1 };
+    }
+    return null;
+  }
+
+  const { tokens, stems, wordIndexes } = tokenizeSegment(segment);
+  let alignment: { from: number; to: number; cost: number } | null = null;
+
+  for (const [from, to] of candidateWindows(stems, quote)) {
+    const cells = (to - from) * quote.tokens.length;
+    if (cells > budget.cells) {
+      if (!budget.exhausted) {
+        console.warn("Quote alignment budget used up; remaining search candidates are dropped");
+      }
+      budget.exhausted = true;
+      break;
+    }
+    budget.cells -= cells;
+
+    const aligned = alignRange(tokens, quote.tokens.length, quote.costOf, from, to);
+    if (aligned && (!alignment || aligned.cost < alignment.cost)) {
+      alignment = aligned;
+    }
+  }
+
+  if (!alignment) {
+    return null;
+  }
+
+  const confidence = Math.max(0, 1 - alignment.cost / quote.tokens.length);
+  if (confidence < MIN_QUOTE_CONFIDENCE) {
+    return null;
+  }
+
+  const firstWord = words[wordIndexes[alignment.from]];
+  const lastWord = words[wordIndexes[alignment.to - 1]];
+  const offset = segment.metadata.startTime;
+  return {
+    start: Math.max(0, firstWord.start - offset),
+    end: Math.max(0, lastWord.end - offset),
+    confidence,
+  };
+}
+
+// The segment matching a quote best, skipping one already tried
+function locateInSegments(
+  segments: Map<string, Segment>,
+  quote: PreparedQuote,
+  budget: AlignmentBudget,
+  skip?: Segment
+): { segment: Segment; location: QuoteLocation } | null {
+  let best: { segment: Segment; location: QuoteLocation } | null = null;
+  for (const segment of segments.values()) {
+    if (segment === skip) continue;
+    const location = locateQuote(segment, quote, budget);
+    if (location && (!best || location.confidence > best.location.confidence)) {
+      best = { segment, location };
+      if (location.confidence === 1) break;
+    }
+    if (budget.exhausted) break;
+  }
+  return best;
+}
+
+// Locate a quote in a segment's transcript by aligning it against the passages that share
+// words with it, and return the best-scoring window's timestamps relative to the segment start
+export function findQuoteInSegment(
+  segment: Segment,
+  quote: string,
+  budget = createAlignmentBudget()
+): QuoteLocation | null {
+  const prepared = prepareQuote(quote);
+  return prepared ? locateQuote(segment, prepared, budget) : null;
+}
+
+// Find the segment whose transcript matches a quote best
+export function findSegmentForQuote(
+  segments: Map<string, Segment>,
+  quote: string,
+  budget = createAlignmentBudget()
+): { segment: Segment; location: QuoteLocation } | null {
+  const prepared = prepareQuote(quote);
+  return prepared ? locateInSegments(segments, prepared, budget) : null;
+}
+
+// Ranges closer than this are treated as the same moment
+const DUPLICATE_GAP_SECONDS = 2;
+
+export function rangesOverlap(
+  a: { start: number; end: number },
+  b: { start: number; end: number }
+): boolean {
+  return a.start <= b.end + DUPLICATE_GAP_SECONDS && b.start <= a.end + DUPLICATE_GAP_SECONDS;
+}
+
+export function buildSegmentMap(manifest: Manifest): Map<string, Segment> {
+  // Build a map of audioFile -> segment for quick lookup
+  const segmentMap = new Map<string, Segment>();
+  manifest.sessions.forEach((session) => {
+    session.segments.forEach((segment) => {
+      segmentMap.set(segment.audioFile, segment);
+    });
+  });
+  return segmentMap;
+}
+
+// Validate and correct a single candidate - ensure the quote is actually in the claimed segment
+export function locateCandidate(
+  segmentMap: Map<string, Segment>,
+  match: SearchCandidate,
+  budget = createAlignmentBudget()
+): SearchResult | null {
+  const claimedSegment = segmentMap.get(match.audioFile);
+
+  // Quotes taken straight from the transcript already know where they are
+  if (claimedSegment && match.location) {
+    return {
+      audioFile: claimedSegment.audioFile,
+      timestamp: match.location.start,
+      start: match.location.start,
+      end: match.location.end,
+      subject: claimedSegment.metadata.subject,
+      quote: match.quote,
+      confidence: 1,
+    };
+  }
+
+  const quote = prepareQuote(match.quote);
+  if (!quote) return null;
+
+  // First, check if the quote is actually in the claimed segment. If it is not (or the
+  // audioFile doesn't exist), search the other segments for the one that matches it best.
+  const claimedLocation = claimedSegment ? locateQuote(claimedSegment, quote, budget) : null;
+  const located =
+    claimedSegment && claimedLocation
+      ? { segment: claimedSegment, location: claimedLocation }
+      : locateInSegments(segmentMap, quote, budget, claimedSegment);
+
+  // If we can't find the quote anywhere, skip this result
+  if (!located) return null;
+
+  return {
+    audioFile: located.segment.audioFile,
+    timestamp: located.location.start,
+    start: located.location.start,
+    end: located.location.end,
+    subject: located.segment.metadata.subject,
+    quote: match.quote,
+    confidence: located.location.confidence,
+  };
+}
+
+export function findDuplicate(results: SearchResult[], result: SearchResult): number {
+  return results.findIndex((r) =>
+    r.audioFile === result.audioFile && rangesOverlap(r, result)
+  );
+}
+
+// Validate every candidate, dropping quotes that can't be found
+export function validateCandidates(
+  manifest: Manifest,
+  candidates: SearchCandidate[]
+): SearchResult[] {
+  const segmentMap = buildSegmentMap(manifest);
+  const budget = createAlignmentBudget();
+  const results: SearchResult[] = [];
+
+  for (const match of candidates) {
+    const result = locateCandidate(segmentMap, match, budget);
+    if (!result) continue;
+
+    // Remove duplicates (same audioFile and overlapping ranges), keeping the closer match
+    const duplicateIndex = findDuplicate(results, result);
+    if (duplicateIndex === -1) {
+      results.push(result);
+    } else if (result.confidence > results[duplicateIndex].confidence) {
+      results[duplicateIndex] = result;
+    }
+  }
+
+  return results;
+}
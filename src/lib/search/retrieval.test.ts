@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Manifest } from "@/lib/manifest";
+import { makeManifest, makeSegment, makeWords } from "@/test/manifest";
+import { batchPassages, estimateTokens, getRetrievalOptions, retrievePassages, RetrievedPassage } from "./retrieval";
+
+let manifest: Manifest;
+
+vi.mock("@/lib/manifest", () => ({ getManifest: () => manifest }));
+
+function passage(audioFile: string, characters: number): RetrievedPassage {
+  return { audioFile, subject: "", description: "", text: "x".repeat(characters) };
+}
+
+describe("estimateTokens", () => {
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("getRetrievalOptions", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads the budget from the environment", () => {
+    vi.stubEnv("SEARCH_BATCH_TOKENS", "8000");
+    vi.stubEnv("SEARCH_MAX_BATCHES", "2");
+    expect(getRetrievalOptions()).toEqual({ batchTokens: 8000, maxBatches: 2 });
+  });
+
+  it("falls back to the defaults for missing or invalid values", () => {
+    vi.stubEnv("SEARCH_BATCH_TOKENS", "lots");
+    vi.stubEnv("SEARCH_MAX_BATCHES", "-1");
+    expect(getRetrievalOptions()).toEqual({ batchTokens: 24000, maxBatches: 4 });
+  });
+});
+
+describe("batchPassages", () => {
+  // 1000 tokens a batch once the 600 for the prompt are set aside
+  const options = { batchTokens: 1600, maxBatches: 2 };
+
+  it("packs passages into the first batch with room, keeping their order", () => {
+    // 400 characters is 100 tokens, plus 20 for the passage's fields
+    const passages = [passage("a", 2400), passage("b", 2400), passage("c", 400), passage("d", 1200)];
+    expect(batchPassages(passages, options).map((batch) => batch.map((p) => p.audioFile))).toEqual([
+      ["a", "c"],
+      ["b", "d"],
+    ]);
+  });
+
+  it("drops passages that don't fit within maxBatches", () => {
+    const passages = [passage("a", 3600), passage("b", 3600), passage("c", 3600)];
+    expect(batchPassages(passages, options).flat().map((p) => p.audioFile)).toEqual(["a", "b"]);
+  });
+});
+
+describe("retrievePassages", () => {
+  const options = { batchTokens: 24000, maxBatches: 4 };
+
+  it("puts segments sharing terms with the question first, the rest in manifest order", () => {
+    manifest = makeManifest([
+      makeSegment("a.mp3", "Cricket on Sundays with my brothers"),
+      makeSegment("b.mp3", "The school had a big garden"),
+      makeSegment("c.mp3", "We walked to Lahore and the trains were full"),
+      makeSegment("d.mp3", "My school in Lahore"),
+    ]);
+    expect(retrievePassages(manifest, "Lahore school trains", options).map((p) => p.audioFile)).toEqual([
+      "d.mp3",
+      "c.mp3",
+      "b.mp3",
+      "a.mp3",
+    ]);
+  });
+
+  it("splits a segment too long to share a batch into windows of whole paragraphs", () => {
+    const long = makeSegment("long.mp3", "");
+    const paragraph = Array.from({ length: 300 }, () => "story").join(" ");
+    // Two paragraphs of 1500 characters, with a long pause between them
+    long.transcript = {
+      text: `${paragraph} ${paragraph}`,
+      words: [...makeWords(paragraph, 0), ...makeWords(paragraph, 200)],
+    };
+    manifest = makeManifest([long]);
+
+    const passages = retrievePassages(manifest, "story", { batchTokens: 1600, maxBatches: 4 });
+    expect(passages.map((p) => [p.audioFile, p.text.length])).toEqual([
+      ["long.mp3", paragraph.length],
+      ["long.mp3", paragraph.length],
+    ]);
+  });
+});
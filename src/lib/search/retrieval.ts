@@ -0,0 +1,125 @@
+import type { Manifest, Segment } from "@/lib/manifest";
+import { splitIntoParagraphs } from "@/lib/paragraphs";
+import { rankSegments } from "./lexicalSearch";
+
+// A piece of transcript sent to the model: a whole segment, or a window of one when the
+// segment is too long to share a prompt with others
+export interface RetrievedPassage {
+  audioFile: string;
+  subject: string;
+  description: string;
+  text: string;
+}
+
+export interface RetrievalOptions {
+  // Approximate prompt size for one model call, in tokens
+  batchTokens: number;
+  // Upper bound on model calls per search
+  maxBatches: number;
+}
+
+const DEFAULT_BATCH_TOKENS = 24000;
+const DEFAULT_MAX_BATCHES = 4;
+// Room left in each batch for the instructions and the question
+const PROMPT_OVERHEAD_TOKENS = 600;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getRetrievalOptions(): RetrievalOptions {
+  return {
+    batchTokens: readPositiveInt(process.env.SEARCH_BATCH_TOKENS, DEFAULT_BATCH_TOKENS),
+    maxBatches: readPositiveInt(process.env.SEARCH_MAX_BATCHES, DEFAULT_MAX_BATCHES),
+  };
+}
+
+// Rough token count; English transcripts average about four characters per token
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimatePassageTokens(passage: RetrievedPassage): number {
+  return estimateTokens(passage.subject + passage.description + passage.text) + 20;
+}
+
+function segmentToPassages(segment: Segment, maxPassageTokens: number): RetrievedPassage[] {
+  const base = {
+    audioFile: segment.audioFile,
+    subject: segment.metadata.subject,
+    description: segment.metadata.description,
+  };
+
+  const words = segment.transcript.words || [];
+  if (estimateTokens(segment.transcript.text) <= maxPassageTokens || words.length === 0) {
+    return [{ ...base, text: segment.transcript.text }];
+  }
+
+  // Too long to share a batch - split into windows of whole paragraphs
+  const passages: RetrievedPassage[] = [];
+  let window: string[] = [];
+  let windowTokens = 0;
+
+  for (const paragraph of splitIntoParagraphs(words)) {
+    const paragraphTokens = estimateTokens(paragraph.text);
+    if (window.length > 0 && windowTokens + paragraphTokens > maxPassageTokens) {
+      passages.push({ ...base, text: window.join("\n") });
+      window = [];
+      windowTokens = 0;
+    }
+    window.push(paragraph.text);
+    windowTokens += paragraphTokens;
+  }
+
+  if (window.length > 0) {
+    passages.push({ ...base, text: window.join("\n") });
+  }
+  return passages;
+}
+
+// Order the collection's passages by lexical relevance to the question. Segments that share
+// no terms with it still follow, so conceptual questions can be answered when budget allows.
+export function retrievePassages(
+  manifest: Manifest,
+  question: string,
+  options: RetrievalOptions
+): RetrievedPassage[] {
+  const segments = manifest.sessions.flatMap((session) => session.segments);
+  const ranks = new Map(rankSegments(question).map((ranked, rank) => [ranked.audioFile, rank]));
+
+  const ordered = segments
+    .map((segment, position) => ({ segment, position }))
+    .sort((a, b) => {
+      const rankA = ranks.get(a.segment.audioFile) ?? Infinity;
+      const rankB = ranks.get(b.segment.audioFile) ?? Infinity;
+      return rankA === rankB ? a.position - b.position : rankA - rankB;
+    });
+
+  const maxPassageTokens = Math.floor((options.batchTokens - PROMPT_OVERHEAD_TOKENS) / 2);
+  return ordered.flatMap(({ segment }) => segmentToPassages(segment, maxPassageTokens));
+}
+
+// Greedily pack passages into batches that fit the token budget, most relevant first.
+// Passages that don't fit within maxBatches are dropped.
+export function batchPassages(
+  passages: RetrievedPassage[],
+  options: RetrievalOptions
+): RetrievedPassage[][] {
+  const budget = options.batchTokens - PROMPT_OVERHEAD_TOKENS;
+  const batches: { passages: RetrievedPassage[]; tokens: number }[] = [];
+
+  for (const passage of passages) {
+    const tokens = estimatePassageTokens(passage);
+    const batch = batches.find((b) => b.tokens + tokens <= budget);
+
+    if (batch) {
+      batch.passages.push(passage);
+      batch.tokens += tokens;
+    } else if (batches.length < options.maxBatches) {
+      batches.push({ passages: [passage], tokens });
+    }
+  }
+
+  return batches.map((b) => b.passages);
+}
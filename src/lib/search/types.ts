@@ -0,0 +1,37 @@
+import type { Manifest } from "@/lib/manifest";
+
+export interface SearchResult {
+  audioFile: string;
+  // Same as start; kept for clients that only seek to a single point
+  timestamp: number;
+  // Matched word range, in seconds relative to the start of the segment's mp3
+  start: number;
+  end: number;
+  subject: string;
+  quote: string;
+  // How closely the quote matched the transcript, from 0 to 1
+  confidence: number;
+}
+
+// A candidate moment proposed by a provider. The quote is validated against the
+// transcripts before it becomes a SearchResult, so providers may get audioFile wrong.
+export interface SearchCandidate {
+  audioFile: string;
+  quote: string;
+  subject: string;
+  // Set by providers that quote the transcript word for word (lexical search), in seconds
+  // relative to the segment's mp3. Such candidates aren't aligned again.
+  location?: { start: number; end: number };
+}
+
+export type SearchMode = "auto" | "ai" | "lexical";
+
+export interface SearchProvider {
+  name: string;
+  // Which mode this provider reports to clients
+  kind: Exclude<SearchMode, "auto">;
+  findCandidates(question: string, manifest: Manifest): Promise<SearchCandidate[]>;
+  // Optional incremental variant yielding candidates as they become available. Stops early,
+  // without calling the model again, once signal is aborted.
+  streamCandidates?(question: string, manifest: Manifest, signal?: AbortSignal): AsyncIterable<SearchCandidate[]>;
+}
@@ -0,0 +1,128 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { makeManifest, makeSegment } from "@/test/manifest";
+import { getManifest } from "./manifest";
+import {
+  getMetadataHistory,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_SUBJECT_LENGTH,
+  MAX_TAG_LENGTH,
+  MAX_TAGS,
+  parseMetadataEdit,
+  saveMetadataEdit,
+} from "./segmentEdits";
+
+const editor = { id: "user-1", name: "Asha", role: "editor" as const };
+
+describe("parseMetadataEdit", () => {
+  it("trims the subject and description", () => {
+    expect(parseMetadataEdit({ subject: "  Lahore ", description: " The station\n" })).toEqual({
+      edit: { subject: "Lahore", description: "The station" },
+    });
+  });
+
+  it("tidies tags, dropping empties and case-insensitive duplicates", () => {
+    expect(parseMetadataEdit({ tags: [" Lahore ", "lahore", "", "  ", "the   station", "Trains"] })).toEqual({
+      edit: { tags: ["Lahore", "the station", "Trains"] },
+    });
+  });
+
+  it("allows clearing the description and tags", () => {
+    expect(parseMetadataEdit({ description: "", tags: [] })).toEqual({ edit: { description: "", tags: [] } });
+  });
+
+  it("rejects over-long fields", () => {
+    expect(parseMetadataEdit({ subject: "a".repeat(MAX_SUBJECT_LENGTH + 1) })).toEqual({
+      error: `Subject must be at most ${MAX_SUBJECT_LENGTH} characters`,
+    });
+    expect(parseMetadataEdit({ description: "a".repeat(MAX_DESCRIPTION_LENGTH + 1) })).toEqual({
+      error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+    });
+    expect(parseMetadataEdit({ tags: ["a".repeat(MAX_TAG_LENGTH + 1)] })).toEqual({
+      error: `Tags must be at most ${MAX_TAG_LENGTH} characters`,
+    });
+    const tags = Array.from({ length: MAX_TAGS + 1 }, (_, i) => `tag ${i}`);
+    expect(parseMetadataEdit({ tags })).toEqual({ error: `At most ${MAX_TAGS} tags are allowed` });
+  });
+
+  it("counts the length after trimming, and the tags after removing duplicates", () => {
+    expect(parseMetadataEdit({ subject: ` ${"a".repeat(MAX_SUBJECT_LENGTH)} ` })).toHaveProperty("edit");
+    const tags = Array.from({ length: MAX_TAGS + 1 }, () => "Lahore");
+    expect(parseMetadataEdit({ tags })).toEqual({ edit: { tags: ["Lahore"] } });
+  });
+
+  it("rejects a blank subject, wrong types and empty edits", () => {
+    expect(parseMetadataEdit({ subject: "   " })).toEqual({ error: "Subject must be a non-empty string" });
+    expect(parseMetadataEdit({ description: 3 })).toEqual({ error: "Description must be a string" });
+    expect(parseMetadataEdit({ tags: "Lahore" })).toEqual({ error: "Tags must be an array of strings" });
+    expect(parseMetadataEdit({ tags: ["Lahore", 3] })).toEqual({ error: "Tags must be an array of strings" });
+    expect(parseMetadataEdit({})).toEqual({ error: "Nothing to update" });
+    expect(parseMetadataEdit(null)).toEqual({ error: "Request body must be an object" });
+  });
+});
+
+describe("saveMetadataEdit", () => {
+  const current = { subject: "The walk to school", description: "", tags: [] };
+
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "segment-edits-"));
+    fs.mkdirSync(path.join(dir, "public", "audio"), { recursive: true });
+    fs.writeFileSync(
+      path.join(dir, "public", "audio", "manifest.json"),
+      JSON.stringify(
+        makeManifest([
+          makeSegment("a.mp3", "we walked to school", { subject: current.subject, description: "" }),
+          makeSegment("b.mp3", "then the train", { subject: "The train", segmentIndex: 1 }),
+        ])
+      )
+    );
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    vi.stubEnv("DATA_DIR", path.join(dir, "data"));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function segment(audioFile: string) {
+    return getManifest().sessions[0].segments.find((s) => s.audioFile === audioFile)!;
+  }
+
+  it("overlays the edited fields onto the manifest, leaving the rest as generated", () => {
+    saveMetadataEdit("a.mp3", current, { tags: ["Lahore"] }, editor);
+    saveMetadataEdit("a.mp3", { ...current, tags: ["Lahore"] }, { description: "Before the move" }, editor);
+
+    expect(segment("a.mp3").metadata).toMatchObject({
+      subject: "The walk to school",
+      description: "Before the move",
+      tags: ["Lahore"],
+      segmentIndex: 0,
+    });
+    expect(segment("b.mp3").metadata.subject).toBe("The train");
+  });
+
+  it("records what each edit changed, newest first", () => {
+    saveMetadataEdit("a.mp3", current, { subject: "Walking to school", description: "" }, editor);
+    saveMetadataEdit("a.mp3", { ...current, subject: "Walking to school" }, { tags: ["Lahore"] }, editor);
+
+    const history = getMetadataHistory("a.mp3");
+    expect(history.map((change) => change.changes)).toEqual([
+      [{ field: "tags", from: [], to: ["Lahore"] }],
+      [{ field: "subject", from: "The walk to school", to: "Walking to school" }],
+    ]);
+    expect(history[0].editedBy).toEqual({ id: "user-1", name: "Asha" });
+    expect(getMetadataHistory("b.mp3")).toEqual([]);
+  });
+
+  it("saves nothing when no field differs", () => {
+    expect(saveMetadataEdit("a.mp3", current, { subject: current.subject, tags: [] }, editor)).toBeNull();
+    expect(getMetadataHistory("a.mp3")).toEqual([]);
+    expect(segment("a.mp3").metadata.tags).toBeUndefined();
+  });
+});
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import { getStoreVersion, readStore, updateStore } from "@/lib/jsonStore";
+import type { CurrentUser } from "@/lib/users";
+
+// Corrected subject, description and tags for a segment, layered over its manifest
+// metadata. Only the fields that have been edited are set.
+export interface SegmentMetadataEdit {
+  subject?: string;
+  description?: string;
+  tags?: string[];
+}
+
+export type MetadataField = keyof SegmentMetadataEdit;
+
+// One saved edit, recording the old and new value of every field it changed
+export interface MetadataChange {
+  id: string;
+  audioFile: string;
+  changes: { field: MetadataField; from: string | string[]; to: string | string[] }[];
+  editedBy: { id: string; name: string };
+  createdAt: string;
+}
+
+interface SegmentEditStore {
+  edits: Record<string, SegmentMetadataEdit>;
+  history: MetadataChange[];
+}
+
+export const MAX_SUBJECT_LENGTH = 200;
+export const MAX_DESCRIPTION_LENGTH = 2000;
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 40;
+
+const STORE_NAME = "segment-edits";
+
+const emptyStore = (): SegmentEditStore => ({ edits: {}, history: [] });
+
+export function getSegmentEditsVersion(): string {
+  return getStoreVersion(STORE_NAME);
+}
+
+export function getSegmentEdits(): Map<string, SegmentMetadataEdit> {
+  return new Map(Object.entries(readStore(STORE_NAME, emptyStore()).edits));
+}
+
+// Changes to one segment, newest first
+export function getMetadataHistory(audioFile: string): MetadataChange[] {
+  return readStore(STORE_NAME, emptyStore())
+    .history.filter((change) => change.audioFile === audioFile)
+    .reverse();
+}
+
+// Trim, drop empties and remove case-insensitive duplicates, keeping the first spelling
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim().replace(/\s+/g, " ");
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) {
+      seen.add(key);
+      result.push(trimmed);
+    }
+  }
+  return result;
+}
+
+// Check a PATCH body, returning the cleaned-up edit or a message for the first problem
+export function parseMetadataEdit(body: unknown): { edit: SegmentMetadataEdit } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+
+  const { subject, description, tags } = body as Record<string, unknown>;
+  const edit: SegmentMetadataEdit = {};
+
+  if (subject !== undefined) {
+    if (typeof subject !== "string" || !subject.trim()) {
+      return { error: "Subject must be a non-empty string" };
+    }
+    if (subject.trim().length > MAX_SUBJECT_LENGTH) {
+      return { error: `Subject must be at most ${MAX_SUBJECT_LENGTH} characters` };
+    }
+    edit.subject = subject.trim();
+  }
+
+  if (description !== undefined) {
+    if (typeof description !== "string") {
+      return { error: "Description must be a string" };
+    }
+    if (description.trim().length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    edit.description = description.trim();
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+      return { error: "Tags must be an array of strings" };
+    }
+    const cleaned = normalizeTags(tags);
+    if (cleaned.length > MAX_TAGS) {
+      return { error: `At most ${MAX_TAGS} tags are allowed` };
+    }
+    if (cleaned.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+    }
+    edit.tags = cleaned;
+  }
+
+  if (Object.keys(edit).length === 0) {
+    return { error: "Nothing to update" };
+  }
+
+  return { edit };
+}
+
+function sameValue(a: string | string[], b: string | string[]): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Apply an edit on top of the segment's current values. Returns the recorded change, or
+// null when nothing actually differs.
+export function saveMetadataEdit(
+  audioFile: string,
+  current: Required<SegmentMetadataEdit>,
+  edit: SegmentMetadataEdit,
+  user: CurrentUser
+): MetadataChange | null {
+  const changes: MetadataChange["changes"] = [];
+  for (const field of Object.keys(edit) as MetadataField[]) {
+    const to = edit[field]!;
+    if (!sameValue(current[field], to)) {
+      changes.push({ field, from: current[field], to });
+    }
+  }
+
+  if (changes.length === 0) {
+    return null;
+  }
+
+  const change: MetadataChange = {
+    id: crypto.randomUUID(),
+    audioFile,
+    changes,
+    editedBy: { id: user.id, name: user.name },
+    createdAt: new Date().toISOString(),
+  };
+
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    store.edits[audioFile] = { ...store.edits[audioFile], ...edit };
+    store.history.push(change);
+  });
+  return change;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { compareSessionIds, formatSessionLabel, parseSessionDate } from "./sessionDates";
+
+describe("parseSessionDate", () => {
+  it("reads the day and month, and the year when there is one", () => {
+    expect(parseSessionDate("21aug")).toEqual({ year: null, month: 8, day: 21 });
+    expect(parseSessionDate("4Nov")).toEqual({ year: null, month: 11, day: 4 });
+    expect(parseSessionDate("26dec2019")).toEqual({ year: 2019, month: 12, day: 26 });
+  });
+
+  it("accepts full month names and separators", () => {
+    expect(parseSessionDate("3_september")).toEqual({ year: null, month: 9, day: 3 });
+    expect(parseSessionDate("15-jan-2020")).toEqual({ year: 2020, month: 1, day: 15 });
+  });
+
+  it("returns null for ids without a date", () => {
+    expect(parseSessionDate("interview")).toBeNull();
+    expect(parseSessionDate("21xyz")).toBeNull();
+    expect(parseSessionDate("0aug")).toBeNull();
+    expect(parseSessionDate("32aug")).toBeNull();
+  });
+});
+
+describe("formatSessionLabel", () => {
+  it("spells out the date", () => {
+    expect(formatSessionLabel("21aug")).toBe("21 August");
+    expect(formatSessionLabel("26dec2019")).toBe("26 December 2019");
+  });
+
+  it("falls back to the id", () => {
+    expect(formatSessionLabel("interview")).toBe("interview");
+  });
+});
+
+describe("compareSessionIds", () => {
+  it("orders by month and day when a year is missing", () => {
+    expect(["26dec2019", "4Nov", "21aug", "3jan"].sort(compareSessionIds)).toEqual([
+      "3jan",
+      "21aug",
+      "4Nov",
+      "26dec2019",
+    ]);
+    expect(compareSessionIds("21aug", "21aug2018")).toBe(0);
+  });
+
+  it("orders by year when both have one", () => {
+    expect(["3jan2020", "26dec2019", "21aug2018"].sort(compareSessionIds)).toEqual([
+      "21aug2018",
+      "26dec2019",
+      "3jan2020",
+    ]);
+  });
+
+  it("puts ids without a date last, by name", () => {
+    expect(["tapes", "21aug", "interview"].sort(compareSessionIds)).toEqual(["21aug", "interview", "tapes"]);
+  });
+});
@@ -0,0 +1,62 @@
+// Session ids name the day a conversation was recorded, e.g. "21aug", "4Nov" or "26dec2019".
+// Most carry no year, so dates compare by month and day unless both have one.
+export interface SessionDate {
+  year: number | null;
+  // 1-12
+  month: number;
+  day: number;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+export function parseSessionDate(sessionId: string): SessionDate | null {
+  const match = sessionId.match(/^(\d{1,2})[\s_-]?([a-z]{3})[a-z]*[\s_-]?(\d{4})?/i);
+  if (!match) {
+    return null;
+  }
+
+  const day = Number(match[1]);
+  const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+  if (month === 0 || day < 1 || day > 31) {
+    return null;
+  }
+  return { year: match[3] ? Number(match[3]) : null, month, day };
+}
+
+// "21 August", or "26 December 2019" when the year is known; the raw id otherwise
+export function formatSessionLabel(sessionId: string): string {
+  const date = parseSessionDate(sessionId);
+  if (!date) {
+    return sessionId;
+  }
+  const label = `${date.day} ${MONTH_NAMES[date.month - 1]}`;
+  return date.year ? `${label} ${date.year}` : label;
+}
+
+// Order sessions by date; ids without a recognisable date go last, by name
+export function compareSessionIds(a: string, b: string): number {
+  const dateA = parseSessionDate(a);
+  const dateB = parseSessionDate(b);
+  if (!dateA || !dateB) {
+    return dateA ? -1 : dateB ? 1 : a.localeCompare(b);
+  }
+  if (dateA.year !== null && dateB.year !== null && dateA.year !== dateB.year) {
+    return dateA.year - dateB.year;
+  }
+  return dateA.month - dateB.month || dateA.day - dateB.day;
+}
@@ -0,0 +1,68 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { makeWords } from "@/test/manifest";
+import { createShare, getSharedClip, revokeShare, shareRange, Share } from "./shares";
+
+vi.mock("@/lib/manifest", () => ({
+  getAllSegments: () => [{ audioFile: "21aug 1.mp3", subject: "Lahore", duration: 60 }],
+  getTranscriptByAudioFile: (audioFile: string) =>
+    audioFile === "21aug 1.mp3"
+      ? { transcript: { text: "We walked to Lahore", words: makeWords("We walked to Lahore", 100) }, startTime: 100 }
+      : null,
+}));
+
+const user = { id: "user-1", name: "Asha", role: "viewer" as const };
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "shares-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("SESSION_SECRET", "test-secret");
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("shareRange", () => {
+  const share = { start: 30, end: 45 } as Share;
+
+  it("plays the chosen passage", () => {
+    expect(shareRange(share, 60)).toEqual({ start: 30, end: 45 });
+  });
+
+  it("runs from the start or to the end of the segment when they are left open", () => {
+    expect(shareRange({ ...share, start: null }, 60)).toEqual({ start: 0, end: 45 });
+    expect(shareRange({ ...share, end: null }, 60)).toEqual({ start: 30, end: 60 });
+  });
+});
+
+describe("getSharedClip", () => {
+  it("resolves a token to its segment, transcript and range", () => {
+    const { share, token } = createShare(user, "21aug 1.mp3", { start: 1, end: null });
+    const shared = getSharedClip(token);
+    expect(shared?.share.id).toBe(share.id);
+    expect(shared?.segment.subject).toBe("Lahore");
+    expect(shared?.transcript.startTime).toBe(100);
+    expect(shared?.range).toEqual({ start: 1, end: 60 });
+  });
+
+  it("stops working once the link is revoked", () => {
+    const { share, token } = createShare(user, "21aug 1.mp3", { start: 1, end: 2 });
+    revokeShare(share.id);
+    expect(getSharedClip(token)).toBeNull();
+  });
+
+  it("refuses tampered tokens and links to segments that are gone", () => {
+    const { token } = createShare(user, "21aug 1.mp3", { start: 1, end: 2 });
+    expect(getSharedClip(`${token}x`)).toBeNull();
+    expect(getSharedClip(null)).toBeNull();
+
+    const { token: gone } = createShare(user, "21aug 9.mp3", { start: 1, end: 2 });
+    expect(getSharedClip(gone)).toBeNull();
+  });
+});
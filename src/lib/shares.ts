@@ -0,0 +1,124 @@
+import crypto from "crypto";
+import { createSignedToken, readSignedToken } from "@/lib/auth";
+import type { ClipRange } from "@/lib/clips";
+import { readStore, updateStore } from "@/lib/jsonStore";
+import { getAllSegments, getTranscriptByAudioFile, SegmentWithSession, TranscriptWithOffset } from "@/lib/manifest";
+import type { CurrentUser } from "@/lib/users";
+
+// A share link plays one passage of a segment without signing in. Its token only opens the
+// /api/public/shares endpoints, which serve the passage as a clip along with the words
+// spoken in it. The token is signed; the store exists so links can be listed and revoked.
+export interface Share {
+  id: string;
+  audioFile: string;
+  // Seconds relative to the start of the segment's mp3; null runs from the start or to the
+  // end of the segment
+  start: number | null;
+  end: number | null;
+  createdBy: { id: string; name: string };
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+export interface SharedClip {
+  share: Share;
+  segment: SegmentWithSession;
+  transcript: TranscriptWithOffset;
+  range: ClipRange;
+}
+
+interface ShareTokenPayload {
+  sid: string;
+  exp: number;
+}
+
+interface ShareStore {
+  shares: Share[];
+}
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 90;
+
+const STORE_NAME = "shares";
+const TOKEN_PURPOSE = "share";
+
+const emptyStore = (): ShareStore => ({ shares: [] });
+
+function isActive(share: Share): boolean {
+  return !share.revokedAt && new Date(share.expiresAt).getTime() > Date.now();
+}
+
+export function createShare(
+  user: CurrentUser,
+  audioFile: string,
+  range: { start: number | null; end: number | null },
+  days = DEFAULT_SHARE_DAYS
+): { share: Share; token: string } {
+  const expiresAt = Date.now() + days * 24 * 60 * 60 * 1000;
+  const share: Share = {
+    id: crypto.randomUUID(),
+    audioFile,
+    start: range.start,
+    end: range.end,
+    createdBy: { id: user.id, name: user.name },
+    createdAt: new Date().toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    revokedAt: null,
+  };
+
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    // Drop links that can no longer be used so the store doesn't grow forever
+    store.shares = store.shares.filter(isActive);
+    store.shares.push(share);
+  });
+
+  const token = createSignedToken<ShareTokenPayload>(TOKEN_PURPOSE, {
+    sid: share.id,
+    exp: Math.floor(expiresAt / 1000),
+  });
+  return { share, token };
+}
+
+// Resolve a share token to its share, if the signature is valid and it is still active
+export function verifyShareToken(token: string | null | undefined): Share | null {
+  const payload = readSignedToken(TOKEN_PURPOSE, token || undefined);
+  if (!payload || typeof payload.sid !== "string") {
+    return null;
+  }
+
+  const store = readStore(STORE_NAME, emptyStore());
+  const share = store.shares.find((s) => s.id === payload.sid);
+  return share && isActive(share) ? share : null;
+}
+
+export function listActiveShares(): Share[] {
+  return readStore(STORE_NAME, emptyStore()).shares.filter(isActive);
+}
+
+export function revokeShare(id: string): Share | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const share = store.shares.find((s) => s.id === id);
+    if (!share) {
+      return null;
+    }
+    share.revokedAt = share.revokedAt || new Date().toISOString();
+    return share;
+  });
+}
+
+// The part of the segment the link plays, in seconds into its mp3
+export function shareRange(share: Share, duration: number): ClipRange {
+  return { start: share.start ?? 0, end: share.end ?? duration };
+}
+
+// What a share link plays, or null if the link is no longer valid or its segment is gone
+export function getSharedClip(token: string | null | undefined): SharedClip | null {
+  const share = verifyShareToken(token);
+  const segment = share && getAllSegments().find((s) => s.audioFile === share.audioFile);
+  const transcript = share && getTranscriptByAudioFile(share.audioFile);
+  if (!share || !segment || !transcript) {
+    return null;
+  }
+  return { share, segment, transcript, range: shareRange(share, segment.duration) };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { formatDuration, formatShortDuration, formatTime, formatWordTime } from "./timeFormat";
+
+describe("formatTime", () => {
+  it("shows minutes and whole seconds", () => {
+    expect(formatTime(0)).toBe("0:00");
+    expect(formatTime(75.9)).toBe("1:15");
+    expect(formatTime(3725)).toBe("62:05");
+  });
+});
+
+describe("formatWordTime", () => {
+  it("shows seconds to the hundredth", () => {
+    expect(formatWordTime(5.256)).toBe("0:05.26");
+    expect(formatWordTime(65.5)).toBe("1:05.50");
+  });
+});
+
+describe("formatDuration", () => {
+  it("rounds to the minute, with hours once there are any", () => {
+    expect(formatDuration(29)).toBe("0 min");
+    expect(formatDuration(12 * 60 + 40)).toBe("13 min");
+    expect(formatDuration(3600 + 5 * 60)).toBe("1 h 5 min");
+  });
+});
+
+describe("formatShortDuration", () => {
+  it("rounds to the second, with minutes once there are any", () => {
+    expect(formatShortDuration(42.4)).toBe("42 s");
+    expect(formatShortDuration(125)).toBe("2 min 5 s");
+  });
+});
@@ -0,0 +1,29 @@
+// Times and lengths as the app shows them, in the player, lists, share links and the book
+
+// A position or short length as a clock, e.g. 75.4 -> "1:15"
+export function formatTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+// A word's time to the hundredth of a second, for correcting timings, e.g. "1:05.25"
+export function formatWordTime(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = (seconds % 60).toFixed(2).padStart(5, "0");
+  return `${mins}:${secs}`;
+}
+
+// A recording's length to the minute, e.g. "1 h 5 min"
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours} h ${mins} min` : `${mins} min`;
+}
+
+// A length under an hour or so to the second, e.g. "2 min 5 s"
+export function formatShortDuration(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return mins > 0 ? `${mins} min ${secs} s` : `${secs} s`;
+}
@@ -0,0 +1,68 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { makeWords } from "@/test/manifest";
+import { getLatestTranscripts, getRevisions, revertRevision, saveRevision } from "./transcriptEdits";
+
+const editor = { id: "user-1", name: "Asha", role: "editor" as const };
+
+const original = { text: "we walked to school", words: makeWords("we walked to school") };
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "transcript-edits-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+function latestText(): string | undefined {
+  return getLatestTranscripts().get("a.mp3")?.text;
+}
+
+describe("revertRevision", () => {
+  it("restores the original transcript when undoing the first edit", () => {
+    const first = saveRevision("a.mp3", makeWords("we walked to the school"), editor);
+
+    const result = revertRevision("a.mp3", first.id, original, editor);
+    expect(result).toEqual({ revision: expect.objectContaining({ revertOf: first.id }) });
+    expect(latestText()).toBe("we walked to school");
+    expect(getRevisions("a.mp3")).toHaveLength(2);
+  });
+
+  it("restores the revision before the latest one", () => {
+    saveRevision("a.mp3", makeWords("we walked to the school"), editor);
+    const second = saveRevision("a.mp3", makeWords("we walked to the old school"), editor);
+
+    revertRevision("a.mp3", second.id, original, editor);
+    expect(latestText()).toBe("we walked to the school");
+  });
+
+  it("refuses to undo an older revision, which would lose the ones since", () => {
+    const first = saveRevision("a.mp3", makeWords("we walked to the school"), editor);
+    saveRevision("a.mp3", makeWords("we walked to the old school"), editor);
+
+    expect(revertRevision("a.mp3", first.id, original, editor)).toEqual({
+      error: "Only the latest revision can be reverted; later corrections would be lost",
+      kind: "superseded",
+    });
+    expect(latestText()).toBe("we walked to the old school");
+    expect(getRevisions("a.mp3")).toHaveLength(2);
+  });
+
+  it("only looks at the segment's own revisions", () => {
+    const first = saveRevision("a.mp3", makeWords("we walked to the school"), editor);
+    saveRevision("b.mp3", makeWords("another segment"), editor);
+
+    expect(revertRevision("a.mp3", first.id, original, editor)).toHaveProperty("revision");
+    expect(revertRevision("b.mp3", first.id, original, editor)).toEqual({
+      error: "Revision not found",
+      kind: "not-found",
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import crypto from "crypto";
+import type { Transcript, Word } from "@/lib/manifest";
+import { getStoreVersion, readStore, updateStore } from "@/lib/jsonStore";
+import type { CurrentUser } from "@/lib/users";
+
+// Corrections to a segment's transcript. Every save stores the full corrected word list as
+// a new revision; the latest revision for an audioFile replaces the manifest's transcript.
+export interface TranscriptRevision {
+  id: string;
+  audioFile: string;
+  transcript: Transcript;
+  editedBy: { id: string; name: string };
+  createdAt: string;
+  note: string;
+  // Set when this revision undid an earlier one
+  revertOf: string | null;
+}
+
+// Revision details without the transcript itself, for history lists
+export type RevisionSummary = Omit<TranscriptRevision, "transcript"> & { wordCount: number };
+
+// Why a revert was refused: the revision doesn't exist, or later revisions have been saved
+// on top of it
+export interface RevertError {
+  error: string;
+  kind: "not-found" | "superseded";
+}
+
+interface TranscriptEditStore {
+  revisions: TranscriptRevision[];
+}
+
+const STORE_NAME = "transcript-edits";
+
+const emptyStore = (): TranscriptEditStore => ({ revisions: [] });
+
+export function getTranscriptEditsVersion(): string {
+  return getStoreVersion(STORE_NAME);
+}
+
+// The current corrected transcript for every edited segment
+export function getLatestTranscripts(): Map<string, Transcript> {
+  const latest = new Map<string, Transcript>();
+  // Revisions are appended in order, so later ones win
+  for (const revision of readStore(STORE_NAME, emptyStore()).revisions) {
+    latest.set(revision.audioFile, revision.transcript);
+  }
+  return latest;
+}
+
+// Revisions of one segment, oldest first
+export function getRevisions(audioFile: string): TranscriptRevision[] {
+  return readStore(STORE_NAME, emptyStore()).revisions.filter((r) => r.audioFile === audioFile);
+}
+
+export function summarizeRevision(revision: TranscriptRevision): RevisionSummary {
+  const { transcript, ...summary } = revision;
+  return { ...summary, wordCount: transcript.words.length };
+}
+
+export function buildTranscriptText(words: Word[]): string {
+  return words
+    .map((word) => word.word.trim())
+    .filter((word) => word.length > 0)
+    .join(" ");
+}
+
+// Check an edited word list, returning a message for the first problem found
+export function validateWords(words: unknown): string | null {
+  if (!Array.isArray(words) || words.length === 0) {
+    return "Words must be a non-empty array";
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (!word || typeof word.word !== "string" || typeof word.start !== "number" || typeof word.end !== "number") {
+      return `words[${i}] must have a word, start and end`;
+    }
+    if (word.end < word.start) {
+      return `words[${i}] ends before it starts`;
+    }
+    if (i > 0 && word.start < words[i - 1].start) {
+      return `words[${i}] starts before the previous word`;
+    }
+  }
+
+  return null;
+}
+
+export function saveRevision(
+  audioFile: string,
+  words: Word[],
+  user: CurrentUser,
+  // text defaults to the words joined up; reverts pass the text they restore
+  options: { note?: string; revertOf?: string; text?: string } = {}
+): TranscriptRevision {
+  const cleanWords = words.map(({ word, start, end }) => ({ word, start, end }));
+  const revision: TranscriptRevision = {
+    id: crypto.randomUUID(),
+    audioFile,
+    transcript: { text: options.text ?? buildTranscriptText(cleanWords), words: cleanWords },
+    editedBy: { id: user.id, name: user.name },
+    createdAt: new Date().toISOString(),
+    note: options.note || "",
+    revertOf: options.revertOf || null,
+  };
+
+  updateStore(STORE_NAME, emptyStore(), (store) => {
+    store.revisions.push(revision);
+  });
+  return revision;
+}
+
+// Undo a segment's latest revision by saving the transcript it replaced (original, if it
+// was the first edit) as a new revision, so the history itself is never rewritten. Older
+// revisions are refused: restoring the transcript from before one would also throw away
+// every revision saved since.
+export function revertRevision(
+  audioFile: string,
+  revisionId: string,
+  original: Transcript,
+  user: CurrentUser
+): { revision: TranscriptRevision } | RevertError {
+  const revisions = getRevisions(audioFile);
+  const index = revisions.findIndex((r) => r.id === revisionId);
+  if (index === -1) {
+    return { error: "Revision not found", kind: "not-found" };
+  }
+  if (index < revisions.length - 1) {
+    return {
+      error: "Only the latest revision can be reverted; later corrections would be lost",
+      kind: "superseded",
+    };
+  }
+
+  const restored = index > 0 ? revisions[index - 1].transcript : original;
+  const revision = saveRevision(audioFile, restored.words, user, {
+    revertOf: revisionId,
+    text: restored.text,
+  });
+  return { revision };
+}
@@ -0,0 +1,167 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createSessionToken, SESSION_COOKIE } from "./auth";
+import {
+  acceptInvite,
+  authenticate,
+  createInvite,
+  createUser,
+  FAMILY_SUBJECT,
+  getInviteUser,
+  listUsers,
+  requireRole,
+  revokeUser,
+  Role,
+  setUserRole,
+} from "./users";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dataDir: string;
+
+beforeEach(() => {
+  dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "users-"));
+  vi.stubEnv("DATA_DIR", dataDir);
+  vi.stubEnv("SESSION_SECRET", "test-secret");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+// An invited user who has set their passphrase
+function member(name: string, role: Role, passphrase = "correct horse") {
+  const user = createUser(name, role);
+  acceptInvite(createInvite(user.id) as string, passphrase);
+  return user;
+}
+
+describe("invites", () => {
+  it("open an account until they are used", () => {
+    const user = createUser("  Asha ", "viewer");
+    const token = createInvite(user.id) as string;
+
+    expect(user.name).toBe("Asha");
+    expect(getInviteUser(token)).toMatchObject({ id: user.id, hasPassword: false, pendingInvite: true });
+    expect(acceptInvite(token, "correct horse")).toEqual({ id: user.id, name: "Asha", role: "viewer" });
+
+    expect(getInviteUser(token)).toBeNull();
+    expect(acceptInvite(token, "another horse")).toBeNull();
+    expect(listUsers()).toEqual([expect.objectContaining({ hasPassword: true, pendingInvite: false })]);
+  });
+
+  it("expire after two weeks", () => {
+    const user = createUser("Asha", "viewer");
+    const token = createInvite(user.id) as string;
+
+    vi.useFakeTimers({ now: Date.now() + 15 * DAY_MS });
+    expect(getInviteUser(token)).toBeNull();
+    expect(acceptInvite(token, "correct horse")).toBeNull();
+    expect(listUsers()[0].pendingInvite).toBe(false);
+  });
+
+  it("replace the invite still open for the same user", () => {
+    const user = createUser("Asha", "viewer");
+    const first = createInvite(user.id) as string;
+    const second = createInvite(user.id) as string;
+
+    expect(getInviteUser(first)).toBeNull();
+    expect(getInviteUser(second)?.id).toBe(user.id);
+  });
+
+  it("aren't issued for unknown or revoked users", () => {
+    const user = createUser("Asha", "viewer");
+    revokeUser(user.id);
+    expect(createInvite(user.id)).toBeNull();
+    expect(createInvite("missing")).toBeNull();
+  });
+});
+
+describe("revokeUser", () => {
+  it("closes the user's open invites", () => {
+    const user = createUser("Asha", "viewer");
+    const token = createInvite(user.id) as string;
+
+    expect(revokeUser(user.id)).toMatchObject({ pendingInvite: false, revokedAt: expect.any(String) });
+    expect(getInviteUser(token)).toBeNull();
+    expect(acceptInvite(token, "correct horse")).toBeNull();
+  });
+
+  it("keeps the first revocation time", () => {
+    const user = createUser("Asha", "viewer");
+    const { revokedAt } = revokeUser(user.id)!;
+    vi.useFakeTimers({ now: Date.now() + DAY_MS });
+    expect(revokeUser(user.id)?.revokedAt).toBe(revokedAt);
+    expect(revokeUser("missing")).toBeNull();
+  });
+});
+
+describe("authenticate", () => {
+  it("signs in by name, ignoring case and spaces", () => {
+    const user = member("Asha", "editor");
+    expect(authenticate(" asha ", "correct horse")).toEqual({ id: user.id, name: "Asha", role: "editor" });
+  });
+
+  it("refuses wrong passphrases, pending invites and revoked users", () => {
+    const user = member("Asha", "viewer");
+    expect(authenticate("Asha", "wrong horse")).toBeNull();
+
+    createInvite(createUser("Ravi", "viewer").id);
+    expect(authenticate("Ravi", "")).toBeNull();
+
+    revokeUser(user.id);
+    expect(authenticate("Asha", "correct horse")).toBeNull();
+  });
+});
+
+describe("requireRole", () => {
+  function call(role: Role, sub?: string) {
+    const res = {
+      statusCode: 200,
+      body: undefined as unknown,
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body: unknown) {
+        this.body = body;
+        return this;
+      },
+    };
+    const cookies = sub ? { [SESSION_COOKIE]: createSessionToken(sub) } : {};
+    const user = requireRole({ cookies } as unknown as NextApiRequest, res as unknown as NextApiResponse, role);
+    return { user, res };
+  }
+
+  it("returns the signed-in user when their role is high enough", () => {
+    const user = member("Asha", "editor");
+    expect(call("viewer", user.id).user?.id).toBe(user.id);
+    expect(call("editor", user.id).user?.id).toBe(user.id);
+    expect(call("viewer", FAMILY_SUBJECT).user?.name).toBe("Family");
+  });
+
+  it("responds 403 to users below the role", () => {
+    const user = member("Asha", "editor");
+    expect(call("admin", user.id)).toMatchObject({ user: null, res: { statusCode: 403 } });
+    expect(call("editor", FAMILY_SUBJECT)).toMatchObject({ user: null, res: { statusCode: 403 } });
+  });
+
+  it("applies role changes and revocations to sessions already open", () => {
+    const user = member("Asha", "viewer");
+    setUserRole(user.id, "admin");
+    expect(call("admin", user.id).user?.role).toBe("admin");
+
+    revokeUser(user.id);
+    expect(call("viewer", user.id)).toMatchObject({ user: null, res: { statusCode: 401 } });
+  });
+
+  it("responds 401 without a valid session", () => {
+    expect(call("viewer")).toMatchObject({ user: null, res: { statusCode: 401 } });
+    expect(call("viewer", "missing")).toMatchObject({ user: null, res: { statusCode: 401 } });
+  });
+});
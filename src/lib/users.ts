@@ -0,0 +1,227 @@
+import crypto from "crypto";
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSession, hashPassword, SessionPayload, verifyPassword } from "@/lib/auth";
+import { readStore, updateStore } from "@/lib/jsonStore";
+
+export type Role = "viewer" | "editor" | "admin";
+
+export const ROLES: Role[] = ["viewer", "editor", "admin"];
+
+export interface User {
+  id: string;
+  name: string;
+  role: Role;
+  // Null until the invite has been accepted
+  passwordHash: string | null;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+// Only a hash of the invite token is stored; the token itself is only ever in the link
+interface Invite {
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+}
+
+interface UserStore {
+  users: User[];
+  invites: Invite[];
+}
+
+export interface PublicUser {
+  id: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  revokedAt: string | null;
+  hasPassword: boolean;
+  pendingInvite: boolean;
+}
+
+export interface CurrentUser {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+// Sessions opened with the shared family password (SITE_PASSWORD_HASH) use this subject
+export const FAMILY_SUBJECT = "family";
+
+export const FAMILY_USER: CurrentUser = { id: FAMILY_SUBJECT, name: "Family", role: "viewer" };
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const STORE_NAME = "users";
+const INVITE_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const emptyStore = (): UserStore => ({ users: [], invites: [] });
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function isInviteOpen(invite: Invite): boolean {
+  return !invite.usedAt && new Date(invite.expiresAt).getTime() > Date.now();
+}
+
+function toPublicUser(user: User, invites: Invite[]): PublicUser {
+  return {
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    createdAt: user.createdAt,
+    revokedAt: user.revokedAt,
+    hasPassword: user.passwordHash !== null,
+    pendingInvite: invites.some((invite) => invite.userId === user.id && isInviteOpen(invite)),
+  };
+}
+
+export function listUsers(): PublicUser[] {
+  const store = readStore(STORE_NAME, emptyStore());
+  return store.users.map((user) => toPublicUser(user, store.invites));
+}
+
+export function findActiveUserByName(name: string): User | null {
+  const normalized = name.trim().toLowerCase();
+  const store = readStore(STORE_NAME, emptyStore());
+  return store.users.find((user) => !user.revokedAt && user.name.toLowerCase() === normalized) || null;
+}
+
+export function createUser(name: string, role: Role): PublicUser {
+  const user: User = {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    role,
+    passwordHash: null,
+    createdAt: new Date().toISOString(),
+    revokedAt: null,
+  };
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    store.users.push(user);
+    return toPublicUser(user, store.invites);
+  });
+}
+
+// Issue a single-use invite for a user, replacing any invite still open. Returns the raw
+// token for the link, or null if the user doesn't exist or has been revoked.
+export function createInvite(userId: string): string | null {
+  const token = crypto.randomBytes(24).toString("base64url");
+  const now = Date.now();
+
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const user = store.users.find((u) => u.id === userId);
+    if (!user || user.revokedAt) {
+      return null;
+    }
+
+    store.invites = store.invites.filter((invite) => invite.userId !== userId || !isInviteOpen(invite));
+    store.invites.push({
+      tokenHash: hashToken(token),
+      userId,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + INVITE_TTL_MS).toISOString(),
+      usedAt: null,
+    });
+    return token;
+  });
+}
+
+// Look up the account an open invite belongs to
+export function getInviteUser(token: string): PublicUser | null {
+  const store = readStore(STORE_NAME, emptyStore());
+  const invite = store.invites.find((i) => i.tokenHash === hashToken(token) && isInviteOpen(i));
+  const user = invite && store.users.find((u) => u.id === invite.userId && !u.revokedAt);
+  return user ? toPublicUser(user, store.invites) : null;
+}
+
+// Set the passphrase for an invited account and use up the invite
+export function acceptInvite(token: string, passphrase: string): CurrentUser | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const invite = store.invites.find((i) => i.tokenHash === hashToken(token) && isInviteOpen(i));
+    const user = invite && store.users.find((u) => u.id === invite.userId && !u.revokedAt);
+    if (!invite || !user) {
+      return null;
+    }
+
+    invite.usedAt = new Date().toISOString();
+    user.passwordHash = hashPassword(passphrase);
+    return { id: user.id, name: user.name, role: user.role };
+  });
+}
+
+export function setUserRole(userId: string, role: Role): PublicUser | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const user = store.users.find((u) => u.id === userId);
+    if (!user) {
+      return null;
+    }
+    user.role = role;
+    return toPublicUser(user, store.invites);
+  });
+}
+
+// Revoking ends the user's sessions on their next request and closes their invites
+export function revokeUser(userId: string): PublicUser | null {
+  return updateStore(STORE_NAME, emptyStore(), (store) => {
+    const user = store.users.find((u) => u.id === userId);
+    if (!user) {
+      return null;
+    }
+    user.revokedAt = user.revokedAt || new Date().toISOString();
+    store.invites = store.invites.filter((invite) => invite.userId !== userId);
+    return toPublicUser(user, store.invites);
+  });
+}
+
+export function authenticate(name: string, passphrase: string): CurrentUser | null {
+  const user = findActiveUserByName(name);
+  if (!user || !user.passwordHash || !verifyPassword(passphrase, user.passwordHash)) {
+    return null;
+  }
+  return { id: user.id, name: user.name, role: user.role };
+}
+
+// Resolve a verified session to its user, so revocations and role changes apply immediately
+export function getUserForSession(session: SessionPayload | null): CurrentUser | null {
+  if (!session) {
+    return null;
+  }
+  if (session.sub === FAMILY_SUBJECT) {
+    return FAMILY_USER;
+  }
+
+  const store = readStore(STORE_NAME, emptyStore());
+  const user = store.users.find((u) => u.id === session.sub && !u.revokedAt);
+  return user ? { id: user.id, name: user.name, role: user.role } : null;
+}
+
+export function getCurrentUser(req: NextApiRequest): CurrentUser | null {
+  return getUserForSession(getSession(req));
+}
+
+export function hasRole(user: CurrentUser, role: Role): boolean {
+  return ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+}
+
+// Guard for API routes: responds with 401/403 and returns null unless the caller has at
+// least the given role
+export function requireRole(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  role: Role
+): CurrentUser | null {
+  const user = getCurrentUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Not authenticated" });
+    return null;
+  }
+  if (!hasRole(user, role)) {
+    res.status(403).json({ error: "Not allowed" });
+    return null;
+  }
+  return user;
+}
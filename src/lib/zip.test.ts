@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { readZip } from "@/test/zip";
+import { crc32, createZip } from "./zip";
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(Buffer.from("123456789"))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+});
+
+describe("createZip", () => {
+  it("writes entries that read back with matching checksums", () => {
+    const image = Buffer.from([0, 1, 2, 255, 254]);
+    const zip = createZip([
+      { name: "mimetype", data: "application/epub+zip", store: true },
+      { name: "chapters/लाहौर.txt", data: "We walked to Lahore. ".repeat(50) },
+      { name: "image.bin", data: image },
+    ]);
+
+    const entries = readZip(zip);
+    expect(entries.map((e) => e.name)).toEqual(["mimetype", "chapters/लाहौर.txt", "image.bin"]);
+    expect(entries[0]).toMatchObject({ method: 0, data: Buffer.from("application/epub+zip") });
+    expect(entries[1].method).toBe(8);
+    expect(entries[1].data.toString("utf-8")).toBe("We walked to Lahore. ".repeat(50));
+    expect(entries[2].data).toEqual(image);
+    for (const entry of entries) {
+      expect(entry.crc).toBe(crc32(entry.data));
+    }
+  });
+
+  it("puts a stored first entry where EPUB readers look for the mimetype", () => {
+    const zip = createZip([{ name: "mimetype", data: "application/epub+zip", store: true }]);
+    expect(zip.toString("latin1", 30, 38)).toBe("mimetype");
+    expect(zip.toString("latin1", 38, 58)).toBe("application/epub+zip");
+  });
+});
@@ -1,11 +1,24 @@
 import "@/styles/globals.css";
 import type { AppProps } from "next/app";
-import PasswordGate from "@/components/PasswordGate";
+import { useRouter } from "next/router";
+import PasswordGate, { CurrentUserProvider } from "@/components/PasswordGate";
+import PlayerBar from "@/components/PlayerBar";
+import PlayerProvider from "@/components/PlayerProvider";
 
+// Pages reachable without signing in
+const PUBLIC_PAGES = ["/invite/[token]", "/share/[token]", "/playlists/shared/[token]"];
+
+// The player sits above the gate, so moving between public and gated pages keeps it playing
 export default function App({ Component, pageProps }: AppProps) {
+  const router = useRouter();
+  const page = <Component {...pageProps} />;
+
   return (
-    <PasswordGate>
-      <Component {...pageProps} />
-    </PasswordGate>
+    <CurrentUserProvider>
+      <PlayerProvider>
+        {PUBLIC_PAGES.includes(router.pathname) ? page : <PasswordGate>{page}</PasswordGate>}
+        <PlayerBar />
+      </PlayerProvider>
+    </CurrentUserProvider>
   );
 }
@@ -0,0 +1,163 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useCurrentUser } from "@/components/PasswordGate";
+import { formatTime } from "@/lib/timeFormat";
+
+interface Share {
+  id: string;
+  audioFile: string;
+  start: number | null;
+  end: number | null;
+  createdBy: { id: string; name: string };
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface SharedPlaylist {
+  id: string;
+  playlistId: string;
+  title: string;
+  itemCount: number;
+  createdBy: { id: string; name: string };
+  createdAt: string;
+  expiresAt: string;
+}
+
+function describeRange(share: Share): string {
+  if (share.start === null) return "Whole segment";
+  if (share.end === null) return `From ${formatTime(share.start)}`;
+  return `${formatTime(share.start)}–${formatTime(share.end)}`;
+}
+
+export default function SharesAdmin() {
+  const currentUser = useCurrentUser();
+  const [shares, setShares] = useState<Share[]>([]);
+  const [playlists, setPlaylists] = useState<SharedPlaylist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = currentUser?.role === "admin";
+
+  const fetchShares = useCallback(async () => {
+    try {
+      const response = await fetch("/api/shares");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch share links");
+      }
+      setShares(data.shares);
+      setPlaylists(data.playlists);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchShares();
+    }
+  }, [isAdmin, fetchShares]);
+
+  const handleRevoke = async (id: string) => {
+    if (!window.confirm("Revoke this link? Anyone who has it will lose access.")) return;
+    const response = await fetch(`/api/shares/${id}`, { method: "DELETE" });
+    if (!response.ok) {
+      setError("Failed to revoke share link");
+      return;
+    }
+    fetchShares();
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Share links - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-8">
+            Active share links
+          </h1>
+
+          {!isAdmin && (
+            <div className="text-stone-500 italic">Only admins can manage share links.</div>
+          )}
+
+          {isAdmin && error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">
+              {error}
+            </div>
+          )}
+
+          {isAdmin && loading && <div className="text-stone-400 italic">Loading share links...</div>}
+
+          {isAdmin && !loading && shares.length === 0 && playlists.length === 0 && (
+            <div className="text-stone-400 italic">No active share links.</div>
+          )}
+
+          {isAdmin && !loading && shares.length > 0 && (
+            <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+              {shares.map((share) => (
+                <li key={share.id} className="flex items-center gap-4 px-4 py-3">
+                  <div className="flex-1">
+                    <div className="text-stone-800">
+                      {share.audioFile} <span className="text-stone-500 text-sm">&middot; {describeRange(share)}</span>
+                    </div>
+                    <div className="text-xs text-stone-400">
+                      Shared by {share.createdBy.name} on {new Date(share.createdAt).toLocaleDateString()},
+                      expires {new Date(share.expiresAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(share.id)}
+                    className="text-sm text-red-600 hover:text-red-800"
+                  >
+                    Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {isAdmin && !loading && playlists.length > 0 && (
+            <>
+              <h2 className="text-lg font-medium text-stone-700 mt-10 mb-4">Shared playlists</h2>
+              <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+                {playlists.map((playlist) => (
+                  <li key={playlist.id} className="flex items-center gap-4 px-4 py-3">
+                    <div className="flex-1">
+                      <div className="text-stone-800">
+                        <Link href={`/playlists/${playlist.playlistId}`} className="hover:text-amber-700">
+                          {playlist.title}
+                        </Link>{" "}
+                        <span className="text-stone-500 text-sm">
+                          &middot; {playlist.itemCount} {playlist.itemCount === 1 ? "passage" : "passages"}
+                        </span>
+                      </div>
+                      <div className="text-xs text-stone-400">
+                        Shared by {playlist.createdBy.name} on {new Date(playlist.createdAt).toLocaleDateString()},
+                        expires {new Date(playlist.expiresAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleRevoke(playlist.id)}
+                      className="text-sm text-red-600 hover:text-red-800"
+                    >
+                      Revoke
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,222 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useCurrentUser } from "@/components/PasswordGate";
+
+type Role = "viewer" | "editor" | "admin";
+
+const ROLES: Role[] = ["viewer", "editor", "admin"];
+
+interface User {
+  id: string;
+  name: string;
+  role: Role;
+  createdAt: string;
+  revokedAt: string | null;
+  hasPassword: boolean;
+  pendingInvite: boolean;
+}
+
+function inviteUrl(token: string): string {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+function describeStatus(user: User): string {
+  if (user.revokedAt) return "Revoked";
+  if (user.pendingInvite) return user.hasPassword ? "Active, new invite sent" : "Invite pending";
+  return user.hasPassword ? "Active" : "No passphrase";
+}
+
+export default function UsersAdmin() {
+  const currentUser = useCurrentUser();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState<Role>("viewer");
+  const [invite, setInvite] = useState<{ name: string; url: string } | null>(null);
+
+  const isAdmin = currentUser?.role === "admin";
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const response = await fetch("/api/users");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch users");
+      }
+      setUsers(data.users);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchUsers();
+    }
+  }, [isAdmin, fetchUsers]);
+
+  const request = async (url: string, init: RequestInit) => {
+    setError(null);
+    const response = await fetch(url, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      setError(data.error || "Request failed");
+      return null;
+    }
+    return data;
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const data = await request("/api/users", {
+      method: "POST",
+      body: JSON.stringify({ name, role }),
+    });
+    if (data) {
+      setInvite({ name: data.user.name, url: inviteUrl(data.inviteToken) });
+      setName("");
+      fetchUsers();
+    }
+  };
+
+  const handleRoleChange = async (user: User, newRole: Role) => {
+    const data = await request(`/api/users/${user.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ role: newRole }),
+    });
+    if (data) fetchUsers();
+  };
+
+  const handleReinvite = async (user: User) => {
+    const data = await request(`/api/users/${user.id}/invite`, { method: "POST" });
+    if (data) {
+      setInvite({ name: user.name, url: inviteUrl(data.inviteToken) });
+      fetchUsers();
+    }
+  };
+
+  const handleRevoke = async (user: User) => {
+    if (!window.confirm(`Revoke access for ${user.name}?`)) return;
+    const data = await request(`/api/users/${user.id}`, { method: "DELETE" });
+    if (data) fetchUsers();
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Family accounts - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-8">
+            Family accounts
+          </h1>
+
+          {!isAdmin && (
+            <div className="text-stone-500 italic">Only admins can manage accounts.</div>
+          )}
+
+          {isAdmin && (
+            <>
+              <form onSubmit={handleCreate} className="flex gap-3 mb-6">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Name"
+                  className="flex-1 px-4 py-2 border border-stone-300 rounded-lg text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as Role)}
+                  className="px-3 py-2 border border-stone-300 rounded-lg bg-white text-stone-700"
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>{r}</option>
+                  ))}
+                </select>
+                <button
+                  type="submit"
+                  disabled={!name.trim()}
+                  className="px-5 py-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700 disabled:bg-stone-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  Invite
+                </button>
+              </form>
+
+              {invite && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-stone-700">
+                  Send this single-use link to {invite.name}:
+                  <input
+                    readOnly
+                    value={invite.url}
+                    onFocus={(e) => e.target.select()}
+                    className="mt-2 w-full px-3 py-2 border border-amber-200 rounded bg-white font-mono text-xs"
+                  />
+                </div>
+              )}
+
+              {error && (
+                <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+
+              {loading ? (
+                <div className="text-stone-400 italic">Loading accounts...</div>
+              ) : (
+                <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+                  {users.map((user) => (
+                    <li key={user.id} className="flex items-center gap-4 px-4 py-3">
+                      <div className="flex-1">
+                        <div className={user.revokedAt ? "text-stone-400 line-through" : "text-stone-800"}>
+                          {user.name}
+                        </div>
+                        <div className="text-xs text-stone-400">{describeStatus(user)}</div>
+                      </div>
+                      {!user.revokedAt && user.id !== currentUser?.id && (
+                        <>
+                          <select
+                            value={user.role}
+                            onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                            className="px-2 py-1 border border-stone-200 rounded text-sm bg-white text-stone-700"
+                          >
+                            {ROLES.map((r) => (
+                              <option key={r} value={r}>{r}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => handleReinvite(user)}
+                            className="text-sm text-stone-500 hover:text-stone-800"
+                          >
+                            New link
+                          </button>
+                          <button
+                            onClick={() => handleRevoke(user)}
+                            className="text-sm text-red-600 hover:text-red-800"
+                          >
+                            Revoke
+                          </button>
+                        </>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
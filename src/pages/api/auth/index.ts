@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createSessionToken,
+  getSession,
+  serializeSessionCookie,
+  SESSION_MAX_AGE_SECONDS,
+  verifyPassword,
+} from "@/lib/auth";
+import { createRateLimiter, getClientAddress } from "@/lib/rateLimit";
+import { authenticate, CurrentUser, FAMILY_USER, getUserForSession } from "@/lib/users";
+
+type ResponseData = {
+  success: boolean;
+  user?: CurrentUser;
+};
+
+type StatusResponse = {
+  authenticated: boolean;
+  user: CurrentUser | null;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Five wrong passwords per address, then a fifteen minute wait
+const loginLimiter = createRateLimiter({ limit: 5, windowMs: 15 * 60 * 1000 });
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | StatusResponse | ErrorResponse>
+) {
+  // Lets the client find out whether its HttpOnly cookie is still valid
+  if (req.method === "GET") {
+    const user = getUserForSession(getSession(req));
+    return res.status(200).json({ authenticated: user !== null, user });
+  }
+
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  if (!process.env.SESSION_SECRET) {
+    return res.status(500).json({ error: "SESSION_SECRET not configured" });
+  }
+
+  const clientAddress = getClientAddress(req);
+  const retryAfter = loginLimiter.retryAfter(clientAddress);
+  if (retryAfter > 0) {
+    res.setHeader("Retry-After", retryAfter.toString());
+    return res.status(429).json({ error: "Too many attempts, please try again later" });
+  }
+
+  const { name, password } = req.body;
+
+  // Named accounts log in with their own passphrase; without a name, the shared family
+  // password (if configured) opens a viewer session
+  let user: CurrentUser | null = null;
+  if (typeof password === "string") {
+    if (typeof name === "string" && name.trim()) {
+      user = authenticate(name, password);
+    } else {
+      const passwordHash = process.env.SITE_PASSWORD_HASH;
+      if (passwordHash && verifyPassword(password, passwordHash)) {
+        user = FAMILY_USER;
+      }
+    }
+  }
+
+  if (user) {
+    loginLimiter.reset(clientAddress);
+    const token = createSessionToken(user.id);
+    res.setHeader("Set-Cookie", serializeSessionCookie(token, { maxAge: SESSION_MAX_AGE_SECONDS }));
+    res.status(200).json({ success: true, user });
+  } else {
+    loginLimiter.recordFailure(clientAddress);
+    res.status(401).json({ success: false });
+  }
+}
@@ -0,0 +1,23 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { clearSessionCookie } from "@/lib/auth";
+
+type ResponseData = {
+  success: boolean;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  res.setHeader("Set-Cookie", clearSessionCookie());
+  res.status(200).json({ success: true });
+}
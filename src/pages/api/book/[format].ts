@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  BOOK_FORMATS,
+  BookFormat,
+  buildBook,
+  renderEpub,
+  renderHtml,
+  renderMarkdown,
+} from "@/lib/book";
+import { getManifest } from "@/lib/manifest";
+
+type ErrorResponse = {
+  error: string;
+};
+
+const CONTENT_TYPES: Record<BookFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  html: "text/html; charset=utf-8",
+  epub: "application/epub+zip",
+};
+
+// Timestamps in the book link back to the player on this site
+function getBaseUrl(req: NextApiRequest): string {
+  const forwardedProto = req.headers["x-forwarded-proto"];
+  const proto = (typeof forwardedProto === "string" && forwardedProto.split(",")[0]) || "http";
+  return `${proto}://${req.headers.host}`;
+}
+
+// The whole collection as a book: /api/book/md, /api/book/epub, or /api/book/html to print
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | Buffer | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { format } = req.query;
+
+  if (typeof format !== "string" || !BOOK_FORMATS.includes(format as BookFormat)) {
+    return res.status(400).json({ error: `Format must be one of: ${BOOK_FORMATS.join(", ")}` });
+  }
+
+  try {
+    const book = buildBook(getManifest());
+    const baseUrl = getBaseUrl(req);
+    const bookFormat = format as BookFormat;
+
+    const body =
+      bookFormat === "md"
+        ? renderMarkdown(book, baseUrl)
+        : bookFormat === "html"
+          ? renderHtml(book, baseUrl)
+          : renderEpub(book, baseUrl);
+
+    res.setHeader("Content-Type", CONTENT_TYPES[bookFormat]);
+    // The print page opens in the browser; the others download
+    res.setHeader(
+      "Content-Disposition",
+      `${bookFormat === "html" ? "inline" : "attachment"}; filename="stories-of-sk-vedi.${bookFormat}"`
+    );
+    res.status(200).send(body);
+  } catch (error) {
+    console.error("Error exporting book:", error);
+    res.status(500).json({ error: "Failed to export book" });
+  }
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { Bookmark, deleteBookmark, parseLabelEdit, updateBookmark } from "@/lib/bookmarks";
+import { FAMILY_SUBJECT, getCurrentUser } from "@/lib/users";
+
+type ResponseData = {
+  bookmark: Bookmark;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// PATCH renames one of the listener's bookmarks; DELETE removes it
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["PATCH", "DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = getCurrentUser(req);
+  if (!user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Bookmarks are only saved for personal accounts" });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Bookmark ID is required" });
+  }
+
+  try {
+    if (req.method === "DELETE") {
+      if (!deleteBookmark(user.id, id)) {
+        return res.status(404).json({ error: "Bookmark not found" });
+      }
+      return res.status(204).end();
+    }
+
+    const parsed = parseLabelEdit(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    const bookmark = updateBookmark(user.id, id, parsed.label);
+    if (!bookmark) {
+      return res.status(404).json({ error: "Bookmark not found" });
+    }
+    res.status(200).json({ bookmark });
+  } catch (error) {
+    console.error("Error updating bookmark:", error);
+    res.status(500).json({ error: "Failed to update bookmark" });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { BookmarkExport, exportBookmarks } from "@/lib/bookmarks";
+import { FAMILY_SUBJECT, getCurrentUser } from "@/lib/users";
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Download the listener's bookmarks as JSON, to keep or to import elsewhere
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BookmarkExport | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = getCurrentUser(req);
+  if (!user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Bookmarks are only saved for personal accounts" });
+  }
+
+  try {
+    res.setHeader("Content-Disposition", 'attachment; filename="bookmarks.json"');
+    res.status(200).json(exportBookmarks(user.id));
+  } catch (error) {
+    console.error("Error exporting bookmarks:", error);
+    res.status(500).json({ error: "Failed to export bookmarks" });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { importBookmarks } from "@/lib/bookmarks";
+import { FAMILY_SUBJECT, getCurrentUser } from "@/lib/users";
+
+type ResponseData = {
+  imported: number;
+  skipped: number;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Add bookmarks from a file made by the export, skipping ones already saved
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = getCurrentUser(req);
+  if (!user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Bookmarks are only saved for personal accounts" });
+  }
+
+  try {
+    const result = importBookmarks(user.id, req.body);
+    if ("error" in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error importing bookmarks:", error);
+    res.status(500).json({ error: "Failed to import bookmarks" });
+  }
+}
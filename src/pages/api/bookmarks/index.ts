@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { addBookmark, Bookmark, BookmarkView, listBookmarks, parseBookmarkInput } from "@/lib/bookmarks";
+import { FAMILY_SUBJECT, getCurrentUser } from "@/lib/users";
+
+type ListResponse = {
+  bookmarks: BookmarkView[];
+};
+
+type CreateResponse = {
+  bookmark: Bookmark;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// GET the signed-in listener's bookmarks, newest first; POST saves a new one
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | CreateResponse | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = getCurrentUser(req);
+  if (!user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Bookmarks are only saved for personal accounts" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json({ bookmarks: listBookmarks(user.id) });
+    } catch (error) {
+      console.error("Error listing bookmarks:", error);
+      return res.status(500).json({ error: "Failed to list bookmarks" });
+    }
+  }
+
+  const parsed = parseBookmarkInput(req.body);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const result = addBookmark(user.id, parsed.input);
+    if ("error" in result) {
+      return res.status(result.kind === "not-found" ? 404 : 400).json({ error: result.error });
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Error saving bookmark:", error);
+    res.status(500).json({ error: "Failed to save bookmark" });
+  }
+}
@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ClipParams, createClip, resolveClipRange } from "@/lib/clips";
+import { getAllSegments, getTranscriptByAudioFile } from "@/lib/manifest";
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Content-Disposition that keeps non-ASCII subjects intact in browsers that support it
+function attachmentHeader(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/"/g, "'");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// A passage of a segment as its own mp3, cut at frame boundaries and tagged with the
+// subject and the words spoken. Takes audioFile and either start/end seconds or a
+// fromWord/toWord range of transcript word indices.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Buffer | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { audioFile, start, end, fromWord, toWord } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string") {
+    return res.status(400).json({ error: "Audio file parameter is required" });
+  }
+
+  const params: ClipParams = {};
+  for (const [key, value] of Object.entries({ start, end, fromWord, toWord })) {
+    if (Array.isArray(value)) {
+      return res.status(400).json({ error: `${key} must be given once` });
+    }
+    params[key as keyof ClipParams] = value;
+  }
+
+  try {
+    const segment = getAllSegments().find((s) => s.audioFile === audioFile);
+    const transcript = getTranscriptByAudioFile(audioFile);
+
+    if (!segment || !transcript) {
+      return res.status(404).json({ error: "Segment not found" });
+    }
+
+    const resolved = resolveClipRange(params, transcript);
+    if ("error" in resolved) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const clip = createClip(audioFile, segment.subject, transcript, resolved.range);
+    if (!clip) {
+      return res.status(400).json({ error: "The range is past the end of the recording" });
+    }
+
+    res.setHeader("Content-Type", "audio/mpeg");
+    res.setHeader("Content-Length", clip.data.length.toString());
+    res.setHeader("Content-Disposition", attachmentHeader(clip.fileName));
+    res.status(200).send(clip.data);
+  } catch (error) {
+    console.error("Error creating clip:", error);
+    res.status(500).json({ error: "Failed to create clip" });
+  }
+}
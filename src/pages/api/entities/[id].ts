@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { describeMentions, EntityMentionView, EntitySummary, getEntity } from "@/lib/entities";
+
+type ResponseData = {
+  entity: EntitySummary & { aliases: string[] };
+  // In the order the segments appear in the manifest
+  mentions: EntityMentionView[];
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Every mention of one person, place or year, e.g. "place-lahore"
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Entity ID is required" });
+  }
+
+  try {
+    const entity = getEntity(id);
+
+    if (!entity) {
+      return res.status(404).json({ error: "No mentions found" });
+    }
+
+    const { mentions, ...summary } = entity;
+    res.status(200).json({ entity: summary, mentions: describeMentions(mentions) });
+  } catch (error) {
+    console.error("Error fetching entity:", error);
+    res.status(500).json({ error: "Failed to fetch entity" });
+  }
+}
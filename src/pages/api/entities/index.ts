@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { ENTITY_TYPES, EntitySummary, EntityType, listEntities } from "@/lib/entities";
+
+type ResponseData = {
+  entities: EntitySummary[];
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// The people, places and years mentioned across the transcripts, optionally of one type
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { type } = req.query;
+
+  if (type !== undefined && !ENTITY_TYPES.includes(type as EntityType)) {
+    return res.status(400).json({ error: `Type must be one of ${ENTITY_TYPES.join(", ")}` });
+  }
+
+  try {
+    res.status(200).json({ entities: listEntities(type as EntityType | undefined) });
+  } catch (error) {
+    console.error("Error listing entities:", error);
+    res.status(500).json({ error: "Failed to list entities" });
+  }
+}
@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createSessionToken, serializeSessionCookie, SESSION_MAX_AGE_SECONDS } from "@/lib/auth";
+import { acceptInvite, CurrentUser, getInviteUser, MIN_PASSPHRASE_LENGTH } from "@/lib/users";
+
+type InviteResponse = {
+  name: string;
+};
+
+type AcceptResponse = {
+  user: CurrentUser;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// GET shows who an invite is for; POST sets the passphrase and signs the relative in
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<InviteResponse | AcceptResponse | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { token } = req.query;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Invite token is required" });
+  }
+
+  try {
+    if (req.method === "GET") {
+      const user = getInviteUser(token);
+      if (!user) {
+        return res.status(404).json({ error: "This invite link has expired or was already used" });
+      }
+      return res.status(200).json({ name: user.name });
+    }
+
+    const { passphrase } = req.body;
+
+    if (typeof passphrase !== "string" || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return res.status(400).json({ error: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters` });
+    }
+
+    const user = acceptInvite(token, passphrase);
+    if (!user) {
+      return res.status(404).json({ error: "This invite link has expired or was already used" });
+    }
+
+    const sessionToken = createSessionToken(user.id);
+    res.setHeader("Set-Cookie", serializeSessionCookie(sessionToken, { maxAge: SESSION_MAX_AGE_SECONDS }));
+    res.status(200).json({ user });
+  } catch (error) {
+    console.error("Error handling invite:", error);
+    res.status(500).json({ error: "Failed to handle invite" });
+  }
+}
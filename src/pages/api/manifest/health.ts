@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getManifestStatus, ManifestStatus } from "@/lib/manifest";
+
+type ResponseData = ManifestStatus & {
+  // False when no valid manifest has loaded, so nothing can be served
+  ok: boolean;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Report whether manifest.json loaded, with any validation errors and warnings
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    const status = getManifestStatus();
+    const ok = status.loadedAt !== null;
+    res.status(ok ? 200 : 503).json({ ...status, ok });
+  } catch (error) {
+    console.error("Error checking manifest:", error);
+    res.status(500).json({ error: "Failed to check manifest" });
+  }
+}
@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  canEditPlaylist,
+  deletePlaylist,
+  describePlaylist,
+  getPlaylist,
+  parsePlaylistInput,
+  PlaylistView,
+  updatePlaylist,
+} from "@/lib/playlists";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  playlist: PlaylistView;
+  // Whether the caller may change it
+  canEdit: boolean;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// GET a playlist with its items; its creator and editors can PATCH the title, description
+// and item order, or DELETE it
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["GET", "PATCH", "DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Playlist ID is required" });
+  }
+
+  try {
+    const playlist = getPlaylist(id);
+    if (!playlist) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+
+    const canEdit = canEditPlaylist(user, playlist);
+
+    if (req.method === "GET") {
+      return res.status(200).json({ playlist: describePlaylist(playlist), canEdit });
+    }
+
+    if (!canEdit) {
+      return res.status(403).json({ error: "Not allowed" });
+    }
+
+    if (req.method === "DELETE") {
+      deletePlaylist(id);
+      return res.status(204).end();
+    }
+
+    const parsed = parsePlaylistInput(req.body, true);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const result = updatePlaylist(id, parsed.input);
+    if (!result) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if ("error" in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.status(200).json({ playlist: describePlaylist(result.playlist), canEdit });
+  } catch (error) {
+    console.error("Error updating playlist:", error);
+    res.status(500).json({ error: "Failed to update playlist" });
+  }
+}
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  canEditPlaylist,
+  describePlaylist,
+  getPlaylist,
+  parseItemInput,
+  PlaylistView,
+  removeItem,
+  updateItem,
+} from "@/lib/playlists";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  playlist: PlaylistView;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// PATCH an item's range or note, or DELETE it from the playlist
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["PATCH", "DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { id, itemId } = req.query;
+
+  if (!id || typeof id !== "string" || !itemId || typeof itemId !== "string") {
+    return res.status(400).json({ error: "Playlist and item IDs are required" });
+  }
+
+  try {
+    const playlist = getPlaylist(id);
+    if (!playlist) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if (!canEditPlaylist(user, playlist)) {
+      return res.status(403).json({ error: "Not allowed" });
+    }
+
+    let result;
+    if (req.method === "DELETE") {
+      result = removeItem(id, itemId);
+    } else {
+      const parsed = parseItemInput(req.body, true);
+      if ("error" in parsed) {
+        return res.status(400).json({ error: parsed.error });
+      }
+      result = updateItem(id, itemId, parsed.input);
+    }
+
+    if (!result) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if ("error" in result) {
+      return res.status(result.kind === "not-found" ? 404 : 400).json({ error: result.error });
+    }
+    res.status(200).json({ playlist: describePlaylist(result.playlist) });
+  } catch (error) {
+    console.error("Error updating playlist item:", error);
+    res.status(500).json({ error: "Failed to update playlist item" });
+  }
+}
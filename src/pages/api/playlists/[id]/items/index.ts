@@ -0,0 +1,66 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  addItem,
+  canEditPlaylist,
+  describePlaylist,
+  getPlaylist,
+  parseItemInput,
+  PlaylistItemInput,
+  PlaylistView,
+} from "@/lib/playlists";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  playlist: PlaylistView;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Add a passage (audioFile, start, end and an optional note) to the end of a playlist
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Playlist ID is required" });
+  }
+
+  const parsed = parseItemInput(req.body, false);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const playlist = getPlaylist(id);
+    if (!playlist) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if (!canEditPlaylist(user, playlist)) {
+      return res.status(403).json({ error: "Not allowed" });
+    }
+
+    const result = addItem(id, parsed.input as PlaylistItemInput);
+    if (!result) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if ("error" in result) {
+      return res.status(result.kind === "not-found" ? 404 : 400).json({ error: result.error });
+    }
+    res.status(201).json({ playlist: describePlaylist(result.playlist) });
+  } catch (error) {
+    console.error("Error adding to playlist:", error);
+    res.status(500).json({ error: "Failed to add to playlist" });
+  }
+}
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { canEditPlaylist, getPlaylist, sharePlaylist, stopSharingPlaylist } from "@/lib/playlists";
+import { DEFAULT_SHARE_DAYS, MAX_SHARE_DAYS } from "@/lib/shares";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  token: string;
+  expiresAt: string;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// POST mints a link that plays the playlist without signing in, replacing any earlier one;
+// DELETE stops sharing so existing links no longer work
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["POST", "DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Playlist ID is required" });
+  }
+
+  const days = req.method === "POST" ? (req.body?.days ?? DEFAULT_SHARE_DAYS) : 0;
+  if (req.method === "POST" && (typeof days !== "number" || days <= 0 || days > MAX_SHARE_DAYS)) {
+    return res.status(400).json({ error: `Expiry must be between 1 and ${MAX_SHARE_DAYS} days` });
+  }
+
+  try {
+    const playlist = getPlaylist(id);
+    if (!playlist) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if (!canEditPlaylist(user, playlist)) {
+      return res.status(403).json({ error: "Not allowed" });
+    }
+
+    if (req.method === "DELETE") {
+      stopSharingPlaylist(id);
+      return res.status(204).end();
+    }
+
+    const shared = sharePlaylist(id, user, days);
+    if (!shared) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    res.status(201).json(shared);
+  } catch (error) {
+    console.error("Error sharing playlist:", error);
+    res.status(500).json({ error: "Failed to share playlist" });
+  }
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createPlaylist,
+  describePlaylist,
+  listPlaylists,
+  parsePlaylistInput,
+  PlaylistSummary,
+  PlaylistView,
+} from "@/lib/playlists";
+import { requireRole } from "@/lib/users";
+
+type ListResponse = {
+  playlists: PlaylistSummary[];
+};
+
+type CreateResponse = {
+  playlist: PlaylistView;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// GET lists every playlist; POST starts a new, empty one. Open to anyone signed in.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | CreateResponse | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json({ playlists: listPlaylists() });
+    } catch (error) {
+      console.error("Error listing playlists:", error);
+      return res.status(500).json({ error: "Failed to list playlists" });
+    }
+  }
+
+  const parsed = parsePlaylistInput(req.body, false);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const playlist = createPlaylist(user, parsed.input.title!, parsed.input.description);
+    res.status(201).json({ playlist: describePlaylist(playlist) });
+  } catch (error) {
+    console.error("Error creating playlist:", error);
+    res.status(500).json({ error: "Failed to create playlist" });
+  }
+}
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getAllSegments } from "@/lib/manifest";
+import { ListeningProgress, parseProgressUpdate } from "@/lib/listeningProgress";
+import { saveProgress } from "@/lib/listeningProgressStore";
+import { FAMILY_SUBJECT, getCurrentUser } from "@/lib/users";
+
+type ResponseData = {
+  progress: ListeningProgress;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Save how far the signed-in listener has got through a segment
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "PUT") {
+    res.setHeader("Allow", ["PUT"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = getCurrentUser(req);
+  if (!user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Progress is only saved for personal accounts" });
+  }
+
+  const { audioFile } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string") {
+    return res.status(400).json({ error: "Audio file parameter is required" });
+  }
+
+  const parsed = parseProgressUpdate(req.body);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    if (!getAllSegments().some((s) => s.audioFile === audioFile)) {
+      return res.status(404).json({ error: "Segment not found" });
+    }
+
+    res.status(200).json({ progress: saveProgress(user.id, audioFile, parsed.update) });
+  } catch (error) {
+    console.error("Error saving progress:", error);
+    res.status(500).json({ error: "Failed to save progress" });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { ListeningProgress } from "@/lib/listeningProgress";
+import { getProgress } from "@/lib/listeningProgressStore";
+import { FAMILY_SUBJECT, getCurrentUser } from "@/lib/users";
+
+type ResponseData = {
+  // Keyed by audioFile
+  progress: Record<string, ListeningProgress>;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// The signed-in listener's saved position in every segment they have started
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = getCurrentUser(req);
+  if (!user) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  // The family password is shared, so its progress stays in each browser
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Progress is only saved for personal accounts" });
+  }
+
+  try {
+    res.status(200).json({ progress: getProgress(user.id) });
+  } catch (error) {
+    console.error("Error fetching progress:", error);
+    res.status(500).json({ error: "Failed to fetch progress" });
+  }
+}
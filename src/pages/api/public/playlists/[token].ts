@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { describePlaylist, PlaylistItemView, verifyPlaylistToken } from "@/lib/playlists";
+
+type ResponseData = {
+  title: string;
+  description: string;
+  items: PlaylistItemView[];
+  expiresAt: string;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Public: the playlist a share link points to, for its landing page
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { token } = req.query;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Share token is required" });
+  }
+
+  try {
+    const playlist = verifyPlaylistToken(token);
+
+    if (!playlist) {
+      return res.status(404).json({ error: "This link has expired or is no longer available" });
+    }
+
+    const { title, description, items } = describePlaylist(playlist);
+    res.status(200).json({ title, description, items, expiresAt: playlist.share!.expiresAt });
+  } catch (error) {
+    console.error("Error fetching shared playlist:", error);
+    res.status(500).json({ error: "Failed to fetch playlist" });
+  }
+}
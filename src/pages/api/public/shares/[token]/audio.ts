@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createClip } from "@/lib/clips";
+import { getSharedClip } from "@/lib/shares";
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Send the part of the audio a "bytes=first-last" Range header asks for, or all of it.
+// Browsers need ranges to seek.
+function sendAudio(req: NextApiRequest, res: NextApiResponse<Buffer | ErrorResponse>, data: Buffer) {
+  res.setHeader("Content-Type", "audio/mpeg");
+  res.setHeader("Accept-Ranges", "bytes");
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range ?? "");
+  if (!match || (!match[1] && !match[2])) {
+    res.setHeader("Content-Length", data.length.toString());
+    return res.status(200).send(data);
+  }
+
+  // "bytes=-500" is the last 500 bytes
+  const first = match[1] ? Number(match[1]) : Math.max(0, data.length - Number(match[2]));
+  const last = match[1] && match[2] ? Math.min(Number(match[2]), data.length - 1) : data.length - 1;
+  if (first > last) {
+    res.setHeader("Content-Range", `bytes */${data.length}`);
+    return res.status(416).end();
+  }
+
+  res.setHeader("Content-Range", `bytes ${first}-${last}/${data.length}`);
+  res.setHeader("Content-Length", (last - first + 1).toString());
+  res.status(206).send(data.subarray(first, last + 1));
+}
+
+// Public: a share link's passage, cut from its segment as an mp3 of its own. This is the
+// only audio a share token reaches.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Buffer | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { token } = req.query;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Share token is required" });
+  }
+
+  try {
+    const shared = getSharedClip(token);
+    const clip =
+      shared && createClip(shared.share.audioFile, shared.segment.subject, shared.transcript, shared.range);
+
+    if (!clip) {
+      return res.status(404).json({ error: "This link has expired or is no longer available" });
+    }
+
+    sendAudio(req, res, clip.data);
+  } catch (error) {
+    console.error("Error creating shared clip:", error);
+    res.status(500).json({ error: "Failed to create clip" });
+  }
+}
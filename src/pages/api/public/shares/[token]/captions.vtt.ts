@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { sendCaptions } from "@/lib/captions";
+import { clipTranscript } from "@/lib/clips";
+import { getSharedClip } from "@/lib/shares";
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Public: captions for a share link's clip, timed to go with its audio
+export default function handler(req: NextApiRequest, res: NextApiResponse<string | ErrorResponse>) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { token } = req.query;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Share token is required" });
+  }
+
+  try {
+    const shared = getSharedClip(token);
+
+    if (!shared) {
+      return res.status(404).json({ error: "This link has expired or is no longer available" });
+    }
+
+    const { share, transcript, range } = shared;
+    sendCaptions(res, "vtt", clipTranscript(transcript, range), share.audioFile.replace(/\.mp3$/, ""));
+  } catch (error) {
+    console.error("Error building shared captions:", error);
+    res.status(500).json({ error: "Failed to build captions" });
+  }
+}
@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { SegmentWithSession } from "@/lib/manifest";
+import { getSharedClip } from "@/lib/shares";
+
+type ResponseData = {
+  audioFile: string;
+  start: number | null;
+  end: number | null;
+  expiresAt: string;
+  segment: Pick<SegmentWithSession, "subject" | "description" | "duration">;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Public: describes the clip a share link points to, for the share landing page
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { token } = req.query;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Share token is required" });
+  }
+
+  try {
+    const shared = getSharedClip(token);
+
+    if (!shared) {
+      return res.status(404).json({ error: "This link has expired or is no longer available" });
+    }
+
+    const { share, segment } = shared;
+
+    res.status(200).json({
+      audioFile: share.audioFile,
+      start: share.start,
+      end: share.end,
+      expiresAt: share.expiresAt,
+      segment: {
+        subject: segment.subject,
+        description: segment.description,
+        duration: segment.duration,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching share:", error);
+    res.status(500).json({ error: "Failed to fetch share" });
+  }
+}
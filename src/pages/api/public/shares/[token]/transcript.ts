@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { clipTranscript } from "@/lib/clips";
+import type { Transcript } from "@/lib/manifest";
+import { getSharedClip } from "@/lib/shares";
+
+type ResponseData = {
+  transcript: Transcript;
+  startTime: number;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Public: the words spoken in a share link's clip, timed to go with its audio
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { token } = req.query;
+
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ error: "Share token is required" });
+  }
+
+  try {
+    const shared = getSharedClip(token);
+
+    if (!shared) {
+      return res.status(404).json({ error: "This link has expired or is no longer available" });
+    }
+
+    res.status(200).json(clipTranscript(shared.transcript, shared.range));
+  } catch (error) {
+    console.error("Error fetching shared transcript:", error);
+    res.status(500).json({ error: "Failed to fetch transcript" });
+  }
+}
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  SEARCH_MODES,
+  searchWithProvider,
+  SearchMode,
+  SearchResult,
+  selectProviders,
+} from "@/lib/search";
+
+type ResponseData = {
+  results: SearchResult[];
+  mode: Exclude<SearchMode, "auto">;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { question, mode = "auto" } = req.body;
+
+  if (!question || typeof question !== "string") {
+    return res.status(400).json({ error: "Question is required" });
+  }
+
+  if (!SEARCH_MODES.includes(mode)) {
+    return res.status(400).json({ error: `Mode must be one of: ${SEARCH_MODES.join(", ")}` });
+  }
+
+  const selection = selectProviders(mode);
+  if (!selection) {
+    return res.status(500).json({ error: "GEMINI_API_KEY not configured" });
+  }
+
+  try {
+    const { provider, fallback } = selection;
+
+    try {
+      const results = await searchWithProvider(provider, question);
+      res.status(200).json({ results, mode: provider.kind });
+    } catch (error) {
+      if (!fallback) {
+        throw error;
+      }
+      // The provider is unreachable or misbehaving - fall back to the built-in index
+      console.error(`Search provider "${provider.name}" failed, falling back to lexical search:`, error);
+      const results = await searchWithProvider(fallback, question);
+      res.status(200).json({ results, mode: fallback.kind });
+    }
+  } catch (error) {
+    console.error("Search error:", error);
+    res.status(500).json({ error: "Failed to search transcripts" });
+  }
+}
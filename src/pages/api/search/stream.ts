@@ -0,0 +1,86 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { SEARCH_MODES, SearchMode, SearchResult, selectProviders, streamWithProvider } from "@/lib/search";
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Server-Sent Events variant of /api/search. Emits a "result" event for each validated
+// SearchResult as soon as it is located, then "done" with the mode that answered, or
+// "failure" if the search could not complete.
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { question } = req.query;
+  const mode = (req.query.mode || "auto") as SearchMode;
+
+  if (!question || typeof question !== "string") {
+    return res.status(400).json({ error: "Question is required" });
+  }
+
+  if (!SEARCH_MODES.includes(mode)) {
+    return res.status(400).json({ error: `Mode must be one of: ${SEARCH_MODES.join(", ")}` });
+  }
+
+  const selection = selectProviders(mode);
+  if (!selection) {
+    return res.status(500).json({ error: "GEMINI_API_KEY not configured" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+  });
+
+  // Stop doing work once the client has gone away (e.g. a newer query replaced this one).
+  // The response closing before we ended it means the connection dropped.
+  const abort = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      abort.abort();
+    }
+  });
+
+  const send = (event: string, data: unknown) => {
+    if (!abort.signal.aborted) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+
+  const { provider, fallback } = selection;
+  const seen: SearchResult[] = [];
+
+  try {
+    try {
+      for await (const result of streamWithProvider(provider, question, seen, abort.signal)) {
+        send("result", result);
+      }
+      send("done", { mode: provider.kind });
+    } catch (error) {
+      if (!fallback || abort.signal.aborted) {
+        throw error;
+      }
+      // Keep what was already sent and top it up from the built-in index
+      console.error(`Search provider "${provider.name}" failed, falling back to lexical search:`, error);
+      for await (const result of streamWithProvider(fallback, question, seen, abort.signal)) {
+        send("result", result);
+      }
+      send("done", { mode: fallback.kind });
+    }
+  } catch (error) {
+    // A search stopped because the client left fails on purpose
+    if (!abort.signal.aborted) {
+      console.error("Search error:", error);
+      send("failure", { error: "Failed to search transcripts" });
+    }
+  } finally {
+    res.end();
+  }
+}
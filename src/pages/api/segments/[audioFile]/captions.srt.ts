@@ -0,0 +1,4 @@
+import { createCaptionsHandler } from "@/lib/captions";
+
+// SubRip captions for a segment, for players and editors that don't read WebVTT
+export default createCaptionsHandler("srt");
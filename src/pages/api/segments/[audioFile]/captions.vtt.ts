@@ -0,0 +1,4 @@
+import { createCaptionsHandler } from "@/lib/captions";
+
+// WebVTT captions for a segment, used as the <track> on its audio element
+export default createCaptionsHandler("vtt");
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  canDeleteComment,
+  canEditComment,
+  deleteComment,
+  editComment,
+  getComment,
+  parseCommentEdit,
+  SegmentComment,
+} from "@/lib/comments";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  comment: SegmentComment;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// PATCH changes a comment's text, for its author; DELETE removes it, for its author or an
+// admin
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["PATCH", "DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { audioFile, id } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string" || !id || typeof id !== "string") {
+    return res.status(400).json({ error: "Audio file and comment ID are required" });
+  }
+
+  try {
+    const comment = getComment(audioFile, id);
+    if (!comment || comment.deleted) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+
+    if (req.method === "DELETE") {
+      if (!canDeleteComment(user, comment)) {
+        return res.status(403).json({ error: "Not allowed" });
+      }
+      deleteComment(id);
+      return res.status(204).end();
+    }
+
+    if (!canEditComment(user, comment)) {
+      return res.status(403).json({ error: "Only the author can edit a comment" });
+    }
+    const parsed = parseCommentEdit(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const updated = editComment(id, parsed.text);
+    if (!updated) {
+      return res.status(404).json({ error: "Comment not found" });
+    }
+    res.status(200).json({ comment: updated });
+  } catch (error) {
+    console.error("Error updating comment:", error);
+    res.status(500).json({ error: "Failed to update comment" });
+  }
+}
@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  addComment,
+  CommentThread,
+  listComments,
+  parseCommentInput,
+  ReplyError,
+  SegmentComment,
+} from "@/lib/comments";
+import { getAllSegments, getTranscriptByAudioFile } from "@/lib/manifest";
+import { FAMILY_SUBJECT, requireRole } from "@/lib/users";
+
+type ListResponse = {
+  comments: CommentThread[];
+};
+
+type CreateResponse = {
+  comment: SegmentComment;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Replies to a comment that is gone, was deleted and only holds its thread together, or is
+// itself a reply
+const REPLY_ERROR_STATUS: Record<ReplyError["kind"], number> = {
+  "not-found": 404,
+  deleted: 409,
+  invalid: 400,
+};
+
+// GET a segment's comment threads; POST a new comment anchored to a time or word range,
+// or a reply to a thread. Comments need a personal account so they can be attributed.
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | CreateResponse | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { audioFile } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string") {
+    return res.status(400).json({ error: "Audio file parameter is required" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      return res.status(200).json({ comments: listComments(audioFile) });
+    } catch (error) {
+      console.error("Error listing comments:", error);
+      return res.status(500).json({ error: "Failed to list comments" });
+    }
+  }
+
+  if (user.id === FAMILY_SUBJECT) {
+    return res.status(403).json({ error: "Sign in with your own account to comment" });
+  }
+
+  try {
+    const segment = getAllSegments().find((s) => s.audioFile === audioFile);
+    const transcript = getTranscriptByAudioFile(audioFile);
+    if (!segment || !transcript) {
+      return res.status(404).json({ error: "Segment not found" });
+    }
+
+    const parsed = parseCommentInput(req.body, transcript, segment.duration);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    const result = addComment(audioFile, user, parsed.input);
+    if ("error" in result) {
+      return res.status(REPLY_ERROR_STATUS[result.kind]).json({ error: result.error });
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Error adding comment:", error);
+    res.status(500).json({ error: "Failed to add comment" });
+  }
+}
@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getAllSegments, SegmentWithSession } from "@/lib/manifest";
+import { getMetadataHistory, MetadataChange, parseMetadataEdit, saveMetadataEdit } from "@/lib/segmentEdits";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  segment: SegmentWithSession;
+  // Changes to the segment's metadata, newest first
+  history: MetadataChange[];
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Editors read a segment's metadata with its edit history, and correct its subject,
+// description and tags
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "PATCH") {
+    res.setHeader("Allow", ["GET", "PATCH"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "editor");
+  if (!user) {
+    return;
+  }
+
+  const { audioFile } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string") {
+    return res.status(400).json({ error: "Audio file parameter is required" });
+  }
+
+  let edit;
+  if (req.method === "PATCH") {
+    const parsed = parseMetadataEdit(req.body);
+    if ("error" in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+    edit = parsed.edit;
+  }
+
+  try {
+    let segment = getAllSegments().find((s) => s.audioFile === audioFile);
+    if (!segment) {
+      return res.status(404).json({ error: "Segment not found" });
+    }
+
+    if (edit) {
+      const { subject, description, tags } = segment;
+      saveMetadataEdit(audioFile, { subject, description, tags }, edit, user);
+      segment = getAllSegments().find((s) => s.audioFile === audioFile)!;
+    }
+
+    res.status(200).json({ segment, history: getMetadataHistory(audioFile) });
+  } catch (error) {
+    console.error("Error updating segment:", error);
+    res.status(500).json({ error: "Failed to update segment" });
+  }
+}
@@ -0,0 +1,72 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getBaseManifest, Transcript } from "@/lib/manifest";
+import { RevertError, revertRevision, RevisionSummary, summarizeRevision } from "@/lib/transcriptEdits";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  transcript: Transcript;
+  revision: RevisionSummary;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+const REVERT_ERROR_STATUS: Record<RevertError["kind"], number> = {
+  "not-found": 404,
+  superseded: 409,
+};
+
+function getOriginalTranscript(audioFile: string): Transcript | null {
+  for (const session of getBaseManifest().sessions) {
+    const segment = session.segments.find((s) => s.audioFile === audioFile);
+    if (segment) {
+      return segment.transcript;
+    }
+  }
+  return null;
+}
+
+// Undo the latest revision by saving the transcript it replaced as a new revision, so the
+// history itself is never rewritten
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const user = requireRole(req, res, "editor");
+  if (!user) {
+    return;
+  }
+
+  const { audioFile, id } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string" || !id || typeof id !== "string") {
+    return res.status(400).json({ error: "Audio file and revision parameters are required" });
+  }
+
+  try {
+    const original = getOriginalTranscript(audioFile);
+    if (!original) {
+      return res.status(404).json({ error: "Transcript not found" });
+    }
+
+    const result = revertRevision(audioFile, id, original, user);
+    if ("error" in result) {
+      return res.status(REVERT_ERROR_STATUS[result.kind]).json({ error: result.error });
+    }
+
+    const { revision } = result;
+    res.status(200).json({
+      transcript: revision.transcript,
+      revision: summarizeRevision(revision),
+    });
+  } catch (error) {
+    console.error("Error reverting revision:", error);
+    res.status(500).json({ error: "Failed to revert revision" });
+  }
+}
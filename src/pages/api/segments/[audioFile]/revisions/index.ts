@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRevisions, RevisionSummary, summarizeRevision } from "@/lib/transcriptEdits";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  // Newest first
+  revisions: RevisionSummary[];
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  if (!requireRole(req, res, "editor")) {
+    return;
+  }
+
+  const { audioFile } = req.query;
+
+  if (!audioFile || typeof audioFile !== "string") {
+    return res.status(400).json({ error: "Audio file parameter is required" });
+  }
+
+  try {
+    const revisions = getRevisions(audioFile).map(summarizeRevision).reverse();
+    res.status(200).json({ revisions });
+  } catch (error) {
+    console.error("Error fetching revisions:", error);
+    res.status(500).json({ error: "Failed to fetch revisions" });
+  }
+}
@@ -1,9 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { getTranscriptByAudioFile, Transcript } from "@/lib/manifest";
+import { saveRevision, summarizeRevision, RevisionSummary, validateWords } from "@/lib/transcriptEdits";
+import { requireRole } from "@/lib/users";
 
 type ResponseData = {
   transcript: Transcript;
   startTime: number;
+  revision?: RevisionSummary;
 };
 
 type ErrorResponse = {
@@ -14,8 +17,8 @@ export default function handler(
   req: NextApiRequest,
   res: NextApiResponse<ResponseData | ErrorResponse>
 ) {
-  if (req.method !== "GET") {
-    res.setHeader("Allow", ["GET"]);
+  if (req.method !== "GET" && req.method !== "PUT") {
+    res.setHeader("Allow", ["GET", "PUT"]);
     return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
   }
 
@@ -25,6 +28,10 @@ export default function handler(
     return res.status(400).json({ error: "Audio file parameter is required" });
   }
 
+  if (req.method === "PUT") {
+    return handleSave(req, res, audioFile);
+  }
+
   try {
     const result = getTranscriptByAudioFile(audioFile);
 
@@ -42,3 +49,40 @@ export default function handler(
   }
 }
 
+// Save a corrected word list as a new revision. Editors only.
+function handleSave(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>,
+  audioFile: string
+) {
+  const user = requireRole(req, res, "editor");
+  if (!user) {
+    return;
+  }
+
+  const { words, note } = req.body || {};
+  const problem = validateWords(words);
+  if (problem) {
+    return res.status(400).json({ error: problem });
+  }
+  if (note !== undefined && typeof note !== "string") {
+    return res.status(400).json({ error: "Note must be a string" });
+  }
+
+  try {
+    const current = getTranscriptByAudioFile(audioFile);
+    if (!current) {
+      return res.status(404).json({ error: "Transcript not found" });
+    }
+
+    const revision = saveRevision(audioFile, words, user, { note: note?.trim() });
+    res.status(200).json({
+      transcript: revision.transcript,
+      startTime: current.startTime,
+      revision: summarizeRevision(revision),
+    });
+  } catch (error) {
+    console.error("Error saving transcript:", error);
+    res.status(500).json({ error: "Failed to save transcript" });
+  }
+}
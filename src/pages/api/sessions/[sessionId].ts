@@ -0,0 +1,35 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSessionById, SessionWithSegments } from "@/lib/manifest";
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SessionWithSegments | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const { sessionId } = req.query;
+
+  if (!sessionId || typeof sessionId !== "string") {
+    return res.status(400).json({ error: "Session parameter is required" });
+  }
+
+  try {
+    const result = getSessionById(sessionId);
+
+    if (!result) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error fetching session:", error);
+    res.status(500).json({ error: "Failed to fetch session" });
+  }
+}
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getSessionSummaries, SessionSummary } from "@/lib/manifest";
+
+type ResponseData = {
+  sessions: SessionSummary[];
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  try {
+    const sessions = getSessionSummaries();
+    res.status(200).json({ sessions });
+  } catch (error) {
+    console.error("Error fetching sessions:", error);
+    res.status(500).json({ error: "Failed to fetch sessions" });
+  }
+}
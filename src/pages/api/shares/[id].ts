@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { revokePlaylistShare, SharedPlaylist } from "@/lib/playlists";
+import { revokeShare, Share } from "@/lib/shares";
+import { requireRole } from "@/lib/users";
+
+type ResponseData = {
+  share: Share | SharedPlaylist;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Revoke a share link, for a clip or for a playlist, by its id
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", ["DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  if (!requireRole(req, res, "admin")) return;
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Share id is required" });
+  }
+
+  try {
+    const share = revokeShare(id) ?? revokePlaylistShare(id);
+
+    if (!share) {
+      return res.status(404).json({ error: "Share not found" });
+    }
+
+    res.status(200).json({ share });
+  } catch (error) {
+    console.error("Error revoking share:", error);
+    res.status(500).json({ error: "Failed to revoke share link" });
+  }
+}
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getAllSegments } from "@/lib/manifest";
+import { listSharedPlaylists, SharedPlaylist } from "@/lib/playlists";
+import { createShare, DEFAULT_SHARE_DAYS, listActiveShares, MAX_SHARE_DAYS, Share } from "@/lib/shares";
+import { requireRole } from "@/lib/users";
+
+type ListResponse = {
+  shares: Share[];
+  playlists: SharedPlaylist[];
+};
+
+type CreateResponse = {
+  share: Share;
+  token: string;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+function isOptionalTime(value: unknown): value is number | null | undefined {
+  return value === undefined || value === null || (typeof value === "number" && value >= 0);
+}
+
+// GET lists active share links, for clips and for playlists (admins); POST mints one for a
+// clip (anyone signed in)
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | CreateResponse | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  if (req.method === "GET") {
+    if (!requireRole(req, res, "admin")) return;
+    return res.status(200).json({ shares: listActiveShares(), playlists: listSharedPlaylists() });
+  }
+
+  const user = requireRole(req, res, "viewer");
+  if (!user) return;
+
+  const { audioFile, start, end, days = DEFAULT_SHARE_DAYS } = req.body;
+
+  if (!audioFile || typeof audioFile !== "string") {
+    return res.status(400).json({ error: "Audio file is required" });
+  }
+
+  if (!isOptionalTime(start) || !isOptionalTime(end) || (start != null && end != null && end <= start)) {
+    return res.status(400).json({ error: "Start and end must be seconds, with end after start" });
+  }
+
+  if (typeof days !== "number" || days <= 0 || days > MAX_SHARE_DAYS) {
+    return res.status(400).json({ error: `Expiry must be between 1 and ${MAX_SHARE_DAYS} days` });
+  }
+
+  try {
+    if (!getAllSegments().some((segment) => segment.audioFile === audioFile)) {
+      return res.status(404).json({ error: "Segment not found" });
+    }
+
+    const { share, token } = createShare(user, audioFile, { start: start ?? null, end: end ?? null }, days);
+    res.status(201).json({ share, token });
+  } catch (error) {
+    console.error("Error creating share:", error);
+    res.status(500).json({ error: "Failed to create share link" });
+  }
+}
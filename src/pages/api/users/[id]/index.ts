@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { PublicUser, requireRole, revokeUser, Role, ROLES, setUserRole } from "@/lib/users";
+
+type ResponseData = {
+  user: PublicUser;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// PATCH changes a user's role; DELETE revokes their access
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "PATCH" && req.method !== "DELETE") {
+    res.setHeader("Allow", ["PATCH", "DELETE"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  const admin = requireRole(req, res, "admin");
+  if (!admin) return;
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "User id is required" });
+  }
+
+  if (id === admin.id) {
+    return res.status(400).json({ error: "You cannot change your own account" });
+  }
+
+  if (req.method === "PATCH" && !ROLES.includes(req.body.role)) {
+    return res.status(400).json({ error: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+
+  try {
+    const user = req.method === "PATCH" ? setUserRole(id, req.body.role as Role) : revokeUser(id);
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.status(200).json({ user });
+  } catch (error) {
+    console.error("Error updating user:", error);
+    res.status(500).json({ error: "Failed to update user" });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createInvite, requireRole } from "@/lib/users";
+
+type ResponseData = {
+  inviteToken: string;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+// Issue a fresh invite link, e.g. when a relative has forgotten their passphrase
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ResponseData | ErrorResponse>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", ["POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  if (!requireRole(req, res, "admin")) return;
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "User id is required" });
+  }
+
+  try {
+    const inviteToken = createInvite(id);
+
+    if (!inviteToken) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    res.status(201).json({ inviteToken });
+  } catch (error) {
+    console.error("Error creating invite:", error);
+    res.status(500).json({ error: "Failed to create invite" });
+  }
+}
@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { createInvite, createUser, findActiveUserByName, listUsers, PublicUser, requireRole, Role, ROLES } from "@/lib/users";
+
+type ListResponse = {
+  users: PublicUser[];
+};
+
+type CreateResponse = {
+  user: PublicUser;
+  inviteToken: string;
+};
+
+type ErrorResponse = {
+  error: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ListResponse | CreateResponse | ErrorResponse>
+) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.setHeader("Allow", ["GET", "POST"]);
+    return res.status(405).json({ error: `Method ${req.method} Not Allowed` });
+  }
+
+  if (!requireRole(req, res, "admin")) return;
+
+  if (req.method === "GET") {
+    return res.status(200).json({ users: listUsers() });
+  }
+
+  const { name, role = "viewer" } = req.body;
+
+  if (!name || typeof name !== "string" || !name.trim()) {
+    return res.status(400).json({ error: "Name is required" });
+  }
+
+  if (!ROLES.includes(role)) {
+    return res.status(400).json({ error: `Role must be one of: ${ROLES.join(", ")}` });
+  }
+
+  if (findActiveUserByName(name)) {
+    return res.status(409).json({ error: "A user with that name already exists" });
+  }
+
+  try {
+    const user = createUser(name, role as Role);
+    const inviteToken = createInvite(user.id);
+    if (!inviteToken) {
+      throw new Error(`Could not create invite for ${user.id}`);
+    }
+    res.status(201).json({ user: { ...user, pendingInvite: true }, inviteToken });
+  } catch (error) {
+    console.error("Error creating user:", error);
+    res.status(500).json({ error: "Failed to create user" });
+  }
+}
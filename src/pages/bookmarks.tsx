@@ -0,0 +1,258 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import AudioCard from "@/components/AudioCard";
+import { isPersonalAccount, useCurrentUser } from "@/components/PasswordGate";
+import { formatSessionLabel } from "@/lib/sessionDates";
+import { formatTime } from "@/lib/timeFormat";
+
+interface Bookmark {
+  id: string;
+  audioFile: string;
+  time: number;
+  label: string;
+  createdAt: string;
+  segment: {
+    sessionId: string;
+    subject: string;
+    description: string;
+    duration: number;
+    tags: string[];
+  };
+}
+
+// The signed-in listener's saved moments. Playing one opens its segment's card and starts
+// it at the bookmark, as a search result does.
+export default function BookmarksPage() {
+  const currentUser = useCurrentUser();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  // The bookmark whose card is open, and whether it still has to start playing
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [autoPlay, setAutoPlay] = useState(false);
+  const [renaming, setRenaming] = useState<{ id: string; label: string } | null>(null);
+
+  const personal = isPersonalAccount(currentUser);
+
+  const fetchBookmarks = useCallback(async () => {
+    try {
+      const response = await fetch("/api/bookmarks");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch bookmarks");
+      }
+      setBookmarks(data.bookmarks);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (personal) {
+      fetchBookmarks();
+    }
+  }, [personal, fetchBookmarks]);
+
+  const clearAutoPlay = useCallback(() => setAutoPlay(false), []);
+
+  const handlePlay = (bookmark: Bookmark) => {
+    setOpenId(bookmark.id);
+    setAutoPlay(true);
+  };
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    try {
+      const response = await fetch(`/api/bookmarks/${encodeURIComponent(renaming.id)}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: renaming.label }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to rename bookmark");
+      }
+      setBookmarks((prev) => prev.map((b) => (b.id === renaming.id ? { ...b, label: data.bookmark.label } : b)));
+      setRenaming(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const handleDelete = async (bookmark: Bookmark) => {
+    try {
+      const response = await fetch(`/api/bookmarks/${encodeURIComponent(bookmark.id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete bookmark");
+      }
+      setBookmarks((prev) => prev.filter((b) => b.id !== bookmark.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    setStatus(null);
+    try {
+      let data: unknown;
+      try {
+        data = JSON.parse(await file.text());
+      } catch {
+        throw new Error("That file isn't valid JSON");
+      }
+      const response = await fetch("/api/bookmarks/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to import bookmarks");
+      }
+      setStatus(
+        `Imported ${result.imported} ${result.imported === 1 ? "bookmark" : "bookmarks"}` +
+          (result.skipped > 0 ? `, skipped ${result.skipped} already saved or not in the collection` : "")
+      );
+      fetchBookmarks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>My bookmarks - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-2">My bookmarks</h1>
+
+          {!personal ? (
+            <p className="text-stone-500 italic mt-6">
+              Bookmarks are saved for personal accounts. Sign in with your own name to keep them.
+            </p>
+          ) : (
+            <>
+              <div className="flex items-center gap-4 text-sm text-stone-400 mb-8">
+                <span>Moments saved with &ldquo;Bookmark&rdquo; on a story.</span>
+                <a href="/api/bookmarks/export" download className="hover:text-stone-600 transition-colors">
+                  Export
+                </a>
+                <button onClick={() => fileInputRef.current?.click()} className="hover:text-stone-600 transition-colors">
+                  Import
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={handleImport}
+                  className="hidden"
+                />
+              </div>
+
+              {status && <div className="mb-6 text-sm text-amber-700">{status}</div>}
+
+              {error && (
+                <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+                  {error}
+                </div>
+              )}
+
+              {loading && <div className="text-stone-400 italic">Loading bookmarks...</div>}
+
+              {!loading && bookmarks.length === 0 && !error && (
+                <div className="text-stone-400 italic">No bookmarks yet.</div>
+              )}
+
+              <ul className="space-y-4">
+                {bookmarks.map((bookmark) => (
+                  <li key={bookmark.id} className="bg-white rounded-lg border border-stone-200 p-5">
+                    <div className="flex items-start gap-4">
+                      <button
+                        onClick={() => handlePlay(bookmark)}
+                        className="shrink-0 px-3 py-1 text-sm bg-stone-800 text-white rounded-full tabular-nums hover:bg-stone-700"
+                        aria-label={`Play from ${formatTime(bookmark.time)}`}
+                      >
+                        &#9654; {formatTime(bookmark.time)}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        {renaming?.id === bookmark.id ? (
+                          <form onSubmit={handleRename} className="flex gap-2">
+                            <input
+                              type="text"
+                              value={renaming.label}
+                              onChange={(e) => setRenaming({ id: bookmark.id, label: e.target.value })}
+                              autoFocus
+                              className="flex-1 min-w-0 px-2 py-1 text-sm border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+                            />
+                            <button type="submit" className="text-sm text-amber-700 hover:text-amber-800">
+                              Save
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setRenaming(null)}
+                              className="text-sm text-stone-400 hover:text-stone-600"
+                            >
+                              Cancel
+                            </button>
+                          </form>
+                        ) : (
+                          <div className={bookmark.label ? "text-stone-800" : "text-stone-400 italic"}>
+                            {bookmark.label || "No label"}
+                          </div>
+                        )}
+                        <div className="text-xs text-stone-400">
+                          {bookmark.segment.subject} &middot; {formatSessionLabel(bookmark.segment.sessionId)}
+                        </div>
+                      </div>
+                      <div className="shrink-0 flex gap-3 text-xs text-stone-400">
+                        <button
+                          onClick={() => setRenaming({ id: bookmark.id, label: bookmark.label })}
+                          className="hover:text-stone-700"
+                        >
+                          Rename
+                        </button>
+                        <button onClick={() => handleDelete(bookmark)} className="hover:text-red-600">
+                          Delete
+                        </button>
+                      </div>
+                    </div>
+
+                    {openId === bookmark.id && (
+                      <div className="mt-4">
+                        <AudioCard
+                          audioFile={bookmark.audioFile}
+                          subject={bookmark.segment.subject}
+                          description={bookmark.segment.description}
+                          tags={bookmark.segment.tags}
+                          duration={bookmark.segment.duration}
+                          sessionId={bookmark.segment.sessionId}
+                          autoPlayAt={autoPlay ? bookmark.time : undefined}
+                          onAutoPlayComplete={clearAutoPlay}
+                        />
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,321 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useRouter } from "next/router";
+import { useCurrentUser } from "@/components/PasswordGate";
+import { usePlayer } from "@/components/PlayerProvider";
+import { formatWordTime } from "@/lib/timeFormat";
+
+interface Word {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface Revision {
+  id: string;
+  editedBy: { id: string; name: string };
+  createdAt: string;
+  note: string;
+  revertOf: string | null;
+  wordCount: number;
+}
+
+// Words per page; long segments have thousands of words
+const PAGE_SIZE = 100;
+
+// Corrections editor for one segment's transcript: fix words and their timings, save them
+// as a revision, and undo earlier revisions
+export default function TranscriptEditor() {
+  const router = useRouter();
+  const audioFile = router.query.audioFile as string | undefined;
+  const currentUser = useCurrentUser();
+  const { pause: pausePlayer } = usePlayer();
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const [words, setWords] = useState<Word[]>([]);
+  const [startTime, setStartTime] = useState(0);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [page, setPage] = useState(0);
+  const [note, setNote] = useState("");
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const canEdit = currentUser?.role === "editor" || currentUser?.role === "admin";
+
+  const fetchTranscript = useCallback(async (file: string) => {
+    try {
+      const [transcriptResponse, revisionsResponse] = await Promise.all([
+        fetch(`/api/segments/${encodeURIComponent(file)}/transcript`),
+        fetch(`/api/segments/${encodeURIComponent(file)}/revisions`),
+      ]);
+      const transcriptData = await transcriptResponse.json();
+      const revisionsData = await revisionsResponse.json();
+      if (!transcriptResponse.ok) {
+        throw new Error(transcriptData.error || "Failed to fetch transcript");
+      }
+      if (!revisionsResponse.ok) {
+        throw new Error(revisionsData.error || "Failed to fetch revisions");
+      }
+      setWords(transcriptData.transcript.words);
+      setStartTime(transcriptData.startTime);
+      setRevisions(revisionsData.revisions);
+      setDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (audioFile && canEdit) {
+      fetchTranscript(audioFile);
+    }
+  }, [audioFile, canEdit, fetchTranscript]);
+
+  const updateWord = (index: number, changes: Partial<Word>) => {
+    setWords((prev) => prev.map((word, i) => (i === index ? { ...word, ...changes } : word)));
+    setDirty(true);
+    setMessage(null);
+  };
+
+  const removeWord = (index: number) => {
+    setWords((prev) => prev.filter((_, i) => i !== index));
+    setDirty(true);
+    setMessage(null);
+  };
+
+  // Word timestamps are absolute; the mp3 starts at the segment's startTime
+  const playFrom = (word: Word) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = Math.max(0, word.start - startTime);
+      audioRef.current.play().catch(() => {});
+    }
+  };
+
+  const handleSave = async () => {
+    if (!audioFile) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/segments/${encodeURIComponent(audioFile)}/transcript`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ words, note }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save transcript");
+      }
+      setNote("");
+      setMessage("Corrections saved");
+      await fetchTranscript(audioFile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevert = async (revision: Revision) => {
+    if (!audioFile) return;
+    if (dirty && !window.confirm("Discard your unsaved corrections?")) return;
+    setError(null);
+    try {
+      const response = await fetch(
+        `/api/segments/${encodeURIComponent(audioFile)}/revisions/${revision.id}/revert`,
+        { method: "POST" }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to revert");
+      }
+      setMessage(`Reverted the edit from ${new Date(revision.createdAt).toLocaleString()}`);
+      await fetchTranscript(audioFile);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(words.length / PAGE_SIZE));
+  // Removing words can shrink the last page out from under us
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageStart = currentPage * PAGE_SIZE;
+  const pageWords = words.slice(pageStart, pageStart + PAGE_SIZE);
+
+  return (
+    <>
+      <Head>
+        <title>Edit transcript - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-2">
+            Edit transcript
+          </h1>
+          <p className="text-sm text-stone-500 mb-8 font-mono">{audioFile}</p>
+
+          {!canEdit && (
+            <div className="text-stone-500 italic">Only editors can correct transcripts.</div>
+          )}
+
+          {canEdit && audioFile && (
+            <>
+              <audio
+                ref={audioRef}
+                src={`/audio/${audioFile}`}
+                className="w-full h-10 rounded-lg mb-6"
+                controls
+                preload="none"
+                // Checking timings needs the app-wide player quiet
+                onPlay={pausePlayer}
+              />
+
+              {error && (
+                <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-sm">
+                  {error}
+                </div>
+              )}
+              {message && (
+                <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-stone-700">
+                  {message}
+                </div>
+              )}
+
+              {loading ? (
+                <div className="text-stone-400 italic">Loading transcript...</div>
+              ) : (
+                <>
+                  <div className="bg-white border border-stone-200 rounded-lg divide-y divide-stone-100">
+                    {pageWords.map((word, offset) => {
+                      const index = pageStart + offset;
+                      return (
+                        <div key={index} className="flex items-center gap-3 px-4 py-1.5">
+                          <button
+                            onClick={() => playFrom(word)}
+                            className="text-xs text-stone-400 hover:text-amber-700 tabular-nums w-20 text-left"
+                            title="Play from this word"
+                          >
+                            {formatWordTime(word.start - startTime)}
+                          </button>
+                          <input
+                            type="text"
+                            value={word.word}
+                            onChange={(e) => updateWord(index, { word: e.target.value })}
+                            className="flex-1 px-2 py-1 border border-stone-200 rounded text-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={word.start}
+                            onChange={(e) => updateWord(index, { start: Number(e.target.value) })}
+                            className="w-24 px-2 py-1 border border-stone-200 rounded text-sm text-stone-600 tabular-nums"
+                            aria-label="Start"
+                          />
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={word.end}
+                            onChange={(e) => updateWord(index, { end: Number(e.target.value) })}
+                            className="w-24 px-2 py-1 border border-stone-200 rounded text-sm text-stone-600 tabular-nums"
+                            aria-label="End"
+                          />
+                          <button
+                            onClick={() => removeWord(index)}
+                            className="text-sm text-stone-400 hover:text-red-600"
+                            title="Remove word"
+                          >
+                            &times;
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {pageCount > 1 && (
+                    <div className="flex items-center justify-between mt-3 text-sm text-stone-500">
+                      <button
+                        onClick={() => setPage(Math.max(0, currentPage - 1))}
+                        disabled={currentPage === 0}
+                        className="hover:text-stone-800 disabled:text-stone-300"
+                      >
+                        &larr; Earlier
+                      </button>
+                      <span>
+                        Page {currentPage + 1} of {pageCount}
+                      </span>
+                      <button
+                        onClick={() => setPage(Math.min(pageCount - 1, currentPage + 1))}
+                        disabled={currentPage >= pageCount - 1}
+                        className="hover:text-stone-800 disabled:text-stone-300"
+                      >
+                        Later &rarr;
+                      </button>
+                    </div>
+                  )}
+
+                  <div className="flex gap-3 mt-6">
+                    <input
+                      type="text"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="What did you change? (optional)"
+                      className="flex-1 px-4 py-2 border border-stone-300 rounded-lg text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white"
+                    />
+                    <button
+                      onClick={handleSave}
+                      disabled={!dirty || saving}
+                      className="px-5 py-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700 disabled:bg-stone-400 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {saving ? "Saving..." : "Save corrections"}
+                    </button>
+                  </div>
+
+                  <h2 className="text-xl text-stone-800 font-medium mt-12 mb-4">History</h2>
+                  {revisions.length === 0 ? (
+                    <div className="text-stone-400 italic text-sm">
+                      No corrections yet; this is the original transcript.
+                    </div>
+                  ) : (
+                    <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+                      {revisions.map((revision, index) => (
+                        <li key={revision.id} className="flex items-center gap-4 px-4 py-3">
+                          <div className="flex-1">
+                            <div className="text-stone-800 text-sm">
+                              {revision.revertOf ? "Reverted an edit" : revision.note || "Corrections"}
+                            </div>
+                            <div className="text-xs text-stone-400">
+                              {revision.editedBy.name} &middot;{" "}
+                              {new Date(revision.createdAt).toLocaleString()} &middot;{" "}
+                              {revision.wordCount} words
+                            </div>
+                          </div>
+                          {/* Newest first; only the latest can be undone without losing later ones */}
+                          {index === 0 && (
+                            <button
+                              onClick={() => handleRevert(revision)}
+                              className="text-sm text-stone-500 hover:text-stone-800"
+                            >
+                              Revert
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,139 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { useEffect, useState } from "react";
+import { usePlayer } from "@/components/PlayerProvider";
+import { formatSessionLabel } from "@/lib/sessionDates";
+import { formatTime } from "@/lib/timeFormat";
+
+interface Entity {
+  id: string;
+  name: string;
+  type: "person" | "place" | "year";
+  aliases: string[];
+  mentionCount: number;
+  segmentCount: number;
+}
+
+interface Mention {
+  audioFile: string;
+  subject: string;
+  sessionId: string;
+  wordIndex: number;
+  timestamp: number;
+  matched: string;
+  before: string;
+  after: string;
+}
+
+// Mentions are listed under the story they come from, in collection order
+function groupBySegment(mentions: Mention[]): Mention[][] {
+  const groups = new Map<string, Mention[]>();
+  for (const mention of mentions) {
+    groups.set(mention.audioFile, [...(groups.get(mention.audioFile) ?? []), mention]);
+  }
+  return [...groups.values()];
+}
+
+// "All mentions of Lahore": each mention in context, playing from the moment it is said
+export default function EntityPage() {
+  const router = useRouter();
+  const { id } = router.query;
+  const player = usePlayer();
+  const [entity, setEntity] = useState<Entity | null>(null);
+  const [mentions, setMentions] = useState<Mention[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!id || typeof id !== "string") return;
+
+    const fetchEntity = async () => {
+      try {
+        const response = await fetch(`/api/entities/${encodeURIComponent(id)}`);
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "No mentions found" : "Failed to fetch mentions");
+        }
+        const data = await response.json();
+        setEntity(data.entity);
+        setMentions(data.mentions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntity();
+  }, [id]);
+
+  const handlePlay = (mention: Mention) => {
+    player.play(
+      { audioFile: mention.audioFile, subject: mention.subject, sessionId: mention.sessionId },
+      mention.timestamp
+    );
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{entity ? `${entity.name} - ` : ""}Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/entities" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; People, places and years
+          </Link>
+
+          {loading && <div className="text-stone-400 italic mt-6">Loading mentions...</div>}
+
+          {error && (
+            <div className="mt-6 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {entity && (
+            <>
+              <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-2">
+                All mentions of {entity.name}
+              </h1>
+              <p className="text-sm text-stone-400 mb-8">
+                {entity.mentionCount} {entity.mentionCount === 1 ? "mention" : "mentions"} in {entity.segmentCount}{" "}
+                {entity.segmentCount === 1 ? "story" : "stories"}
+                {entity.aliases.length > 0 && <> &middot; also {entity.aliases.join(", ")}</>}
+              </p>
+
+              <div className="space-y-6">
+                {groupBySegment(mentions).map((group) => (
+                  <section key={group[0].audioFile} className="bg-white rounded-lg border border-stone-200 p-5">
+                    <h2 className="text-lg text-stone-800">{group[0].subject}</h2>
+                    <div className="text-xs text-stone-400 mb-3">{formatSessionLabel(group[0].sessionId)}</div>
+                    <ul className="space-y-2">
+                      {group.map((mention) => (
+                        <li key={mention.wordIndex} className="flex items-start gap-3">
+                          <button
+                            onClick={() => handlePlay(mention)}
+                            className="shrink-0 px-3 py-0.5 text-sm bg-stone-800 text-white rounded-full tabular-nums hover:bg-stone-700"
+                            aria-label={`Play from ${formatTime(mention.timestamp)}`}
+                          >
+                            &#9654; {formatTime(mention.timestamp)}
+                          </button>
+                          <p className="text-stone-600 leading-relaxed">
+                            {mention.before && <>&hellip;{mention.before} </>}
+                            <mark className="bg-amber-100 text-stone-800 rounded px-0.5">{mention.matched}</mark>
+                            {mention.after && <> {mention.after}&hellip;</>}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,119 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type EntityType = "person" | "place" | "year";
+
+interface EntitySummary {
+  id: string;
+  name: string;
+  type: EntityType;
+  mentionCount: number;
+  segmentCount: number;
+}
+
+const SECTIONS: { type: EntityType; title: string }[] = [
+  { type: "person", title: "People" },
+  { type: "place", title: "Places" },
+  { type: "year", title: "Years" },
+];
+
+// Everyone, everywhere and every year mentioned in the stories, each linking to its mentions
+export default function EntitiesOverview() {
+  const [entities, setEntities] = useState<EntitySummary[]>([]);
+  const [filter, setFilter] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchEntities = async () => {
+      try {
+        const response = await fetch("/api/entities");
+        if (!response.ok) {
+          throw new Error("Failed to fetch the index");
+        }
+        const data = await response.json();
+        setEntities(data.entities);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntities();
+  }, []);
+
+  const query = filter.trim().toLowerCase();
+  const visible = query ? entities.filter((entity) => entity.name.toLowerCase().includes(query)) : entities;
+
+  return (
+    <>
+      <Head>
+        <title>People, places and years - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-6">
+            People, places and years
+          </h1>
+
+          <input
+            type="search"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by name"
+            className="w-full mb-8 px-4 py-2 bg-white border border-stone-200 rounded-lg text-stone-700 focus:outline-none focus:border-amber-400"
+          />
+
+          {loading && <div className="text-stone-400 italic">Loading the index...</div>}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && visible.length === 0 && (
+            <div className="text-stone-400 italic">
+              {query ? "Nothing matches that name." : "No people, places or years found in the transcripts yet."}
+            </div>
+          )}
+
+          {!loading &&
+            !error &&
+            SECTIONS.map(({ type, title }) => {
+              const section = visible.filter((entity) => entity.type === type);
+              if (section.length === 0) return null;
+              return (
+                <section key={type} className="mb-10">
+                  <h2 className="text-xl text-stone-700 mb-3">{title}</h2>
+                  <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+                    {section.map((entity) => (
+                      <li key={entity.id}>
+                        <Link
+                          href={`/entities/${encodeURIComponent(entity.id)}`}
+                          className="flex items-baseline gap-4 px-5 py-3 hover:bg-stone-50 transition-colors"
+                        >
+                          <span className="flex-1 text-stone-800">{entity.name}</span>
+                          <span className="text-sm text-stone-500">
+                            {entity.mentionCount} {entity.mentionCount === 1 ? "mention" : "mentions"}
+                          </span>
+                          <span className="text-sm text-stone-400 w-24 text-right">
+                            {entity.segmentCount} {entity.segmentCount === 1 ? "story" : "stories"}
+                          </span>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -1,10 +1,15 @@
 import Head from "next/head";
 import { Playfair_Display, Source_Serif_4 } from "next/font/google";
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useMemo, useState, useCallback } from "react";
 import { useRouter } from "next/router";
 import AudioCard from "@/components/AudioCard";
+import ContinueListening from "@/components/ContinueListening";
 import ShareButton from "@/components/ShareButton";
 import SearchBox from "@/components/SearchBox";
+import Link from "next/link";
+import { isPersonalAccount, useCurrentUser } from "@/components/PasswordGate";
+import { usePlayer } from "@/components/PlayerProvider";
+import { compareSessionIds, formatSessionLabel } from "@/lib/sessionDates";
 
 const playfair = Playfair_Display({
   variable: "--font-playfair",
@@ -23,18 +28,37 @@ interface Segment {
   description: string;
   duration: number;
   segmentIndex: number;
+  tags: string[];
 }
 
+type SortOrder = "collection" | "date" | "duration" | "subject";
+
+// Duration filters, in seconds
+const LENGTHS: Record<string, { label: string; min: number; max: number }> = {
+  short: { label: "Under 5 minutes", min: 0, max: 300 },
+  medium: { label: "5 to 15 minutes", min: 300, max: 900 },
+  long: { label: "Over 15 minutes", min: 900, max: Infinity },
+};
+
 export default function Home() {
   const router = useRouter();
+  const currentUser = useCurrentUser();
+  const player = usePlayer();
   const [segments, setSegments] = useState<Segment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [currentlyPlaying, setCurrentlyPlaying] = useState<string | null>(null);
-  const [currentPlaybackTime, setCurrentPlaybackTime] = useState(0);
   
   // State for auto-play (from URL or search results)
   const [autoPlayTarget, setAutoPlayTarget] = useState<{ audioFile: string; timestamp: number } | null>(null);
+
+  // Passage matched by the last search result clicked, highlighted in its card
+  const [activePassage, setActivePassage] = useState<{ audioFile: string; start: number; end: number } | null>(null);
+
+  // Filters and ordering for the list of recordings
+  const [subjectFilter, setSubjectFilter] = useState("");
+  const [sessionFilter, setSessionFilter] = useState("");
+  const [lengthFilter, setLengthFilter] = useState("");
+  const [sortOrder, setSortOrder] = useState<SortOrder>("collection");
   
   // Parse URL params for auto-play on initial load
   const urlAudio = router.query.audio as string | undefined;
@@ -59,9 +83,52 @@ export default function Home() {
     fetchSegments();
   }, []);
 
+  const sessionIds = useMemo(
+    () => [...new Set(segments.map((s) => s.sessionId))].sort(compareSessionIds),
+    [segments]
+  );
+
+  const visibleSegments = useMemo(() => {
+    const query = subjectFilter.trim().toLowerCase();
+    const length = LENGTHS[lengthFilter];
+    const filtered = segments.filter(
+      (segment) =>
+        (!query ||
+          segment.subject.toLowerCase().includes(query) ||
+          segment.tags.some((tag) => tag.toLowerCase().includes(query))) &&
+        (!sessionFilter || segment.sessionId === sessionFilter) &&
+        (!length || (segment.duration >= length.min && segment.duration < length.max))
+    );
+
+    switch (sortOrder) {
+      case "date":
+        return filtered.sort(
+          (a, b) => compareSessionIds(a.sessionId, b.sessionId) || a.segmentIndex - b.segmentIndex
+        );
+      case "duration":
+        return filtered.sort((a, b) => b.duration - a.duration);
+      case "subject":
+        return filtered.sort((a, b) => a.subject.localeCompare(b.subject));
+      default:
+        return filtered;
+    }
+  }, [segments, subjectFilter, sessionFilter, lengthFilter, sortOrder]);
+
+  const isFiltered = subjectFilter !== "" || sessionFilter !== "" || lengthFilter !== "";
+
+  const clearFilters = () => {
+    setSubjectFilter("");
+    setSessionFilter("");
+    setLengthFilter("");
+  };
+
   // Set auto-play target from URL params
   useEffect(() => {
     if (urlAudio && !loading && segments.length > 0) {
+      // The card has to be on the page to play
+      setSubjectFilter("");
+      setSessionFilter("");
+      setLengthFilter("");
       setAutoPlayTarget({ audioFile: urlAudio, timestamp: urlTime || 0 });
       // Clear the URL params without triggering a reload
       const url = new URL(window.location.href);
@@ -76,16 +143,30 @@ export default function Home() {
     setAutoPlayTarget(null);
   }, []);
 
-  const handleTimeUpdate = (audioFile: string, time: number) => {
-    if (audioFile === currentlyPlaying) {
-      setCurrentPlaybackTime(time);
-    }
+  const handleSignOut = async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    window.location.reload();
   };
 
-  const handleSearchResultClick = (audioFile: string, timestamp: number) => {
-    setAutoPlayTarget({ audioFile, timestamp });
+  const handleSearchResultClick = (audioFile: string, start: number, end: number) => {
+    clearFilters();
+    setAutoPlayTarget({ audioFile, timestamp: start });
+    setActivePassage(end > start ? { audioFile, start, end } : null);
   };
 
+  const clearActivePassage = useCallback(() => {
+    setActivePassage(null);
+  }, []);
+
+  const handleMetadataUpdate = useCallback(
+    (audioFile: string, metadata: Pick<Segment, "subject" | "description" | "tags">) => {
+      setSegments((prev) =>
+        prev.map((segment) => (segment.audioFile === audioFile ? { ...segment, ...metadata } : segment))
+      );
+    },
+    []
+  );
+
   return (
     <>
       <Head>
@@ -99,16 +180,51 @@ export default function Home() {
         style={{ fontFamily: "var(--font-source-serif), Georgia, serif" }}
       >
         <header className="border-b border-stone-200 bg-white/80 backdrop-blur-sm sticky top-0 z-10">
-          <div className="max-w-5xl mx-auto px-8 py-6">
-            <h1 
-              className="text-3xl font-medium text-stone-800 tracking-tight"
-              style={{ fontFamily: "var(--font-playfair), Georgia, serif" }}
-            >
-              Stories from the Life of S. K. Vedi
-            </h1>
-            <p className="text-sm text-stone-500 mt-1 italic">
-              A collection of conversations, memories, and reflections
-            </p>
+          <div className="max-w-5xl mx-auto px-8 py-6 flex items-start justify-between">
+            <div>
+              <h1 
+                className="text-3xl font-medium text-stone-800 tracking-tight"
+                style={{ fontFamily: "var(--font-playfair), Georgia, serif" }}
+              >
+                Stories from the Life of S. K. Vedi
+              </h1>
+              <p className="text-sm text-stone-500 mt-1 italic">
+                A collection of conversations, memories, and reflections
+              </p>
+            </div>
+            <div className="flex items-center gap-4 text-sm text-stone-400">
+              {currentUser && <span className="italic">{currentUser.name}</span>}
+              <Link href="/sessions" className="hover:text-stone-600 transition-colors">
+                Sessions
+              </Link>
+              <Link href="/playlists" className="hover:text-stone-600 transition-colors">
+                Playlists
+              </Link>
+              <Link href="/entities" className="hover:text-stone-600 transition-colors">
+                People &amp; places
+              </Link>
+              {isPersonalAccount(currentUser) && (
+                <Link href="/bookmarks" className="hover:text-stone-600 transition-colors">
+                  Bookmarks
+                </Link>
+              )}
+              {currentUser?.role === "admin" && (
+                <>
+                  <Link href="/admin/users" className="hover:text-stone-600 transition-colors">
+                    Accounts
+                  </Link>
+                  <Link href="/admin/shares" className="hover:text-stone-600 transition-colors">
+                    Share links
+                  </Link>
+                </>
+              )}
+              <button
+                onClick={handleSignOut}
+                className="hover:text-stone-600 transition-colors"
+              >
+                Sign out
+              </button>
+            </div>
           </div>
         </header>
 
@@ -135,26 +251,84 @@ export default function Home() {
 
           {!loading && !error && segments.length > 0 && (
             <>
+              <ContinueListening segments={segments} />
+              <div className="mb-8 flex flex-wrap items-center gap-3 text-sm text-stone-600">
+                <input
+                  type="text"
+                  value={subjectFilter}
+                  onChange={(e) => setSubjectFilter(e.target.value)}
+                  placeholder="Filter by subject or tag"
+                  className="flex-1 min-w-48 px-3 py-1.5 bg-white border border-stone-200 rounded focus:outline-none focus:border-amber-400"
+                />
+                <select
+                  value={sessionFilter}
+                  onChange={(e) => setSessionFilter(e.target.value)}
+                  className="px-2 py-1.5 bg-white border border-stone-200 rounded"
+                >
+                  <option value="">All sessions</option>
+                  {sessionIds.map((sessionId) => (
+                    <option key={sessionId} value={sessionId}>
+                      {formatSessionLabel(sessionId)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={lengthFilter}
+                  onChange={(e) => setLengthFilter(e.target.value)}
+                  className="px-2 py-1.5 bg-white border border-stone-200 rounded"
+                >
+                  <option value="">Any length</option>
+                  {Object.entries(LENGTHS).map(([key, { label }]) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={sortOrder}
+                  onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+                  className="px-2 py-1.5 bg-white border border-stone-200 rounded"
+                >
+                  <option value="collection">Collection order</option>
+                  <option value="date">By date</option>
+                  <option value="duration">Longest first</option>
+                  <option value="subject">By subject</option>
+                </select>
+              </div>
               <div className="mb-8 text-sm text-stone-500 uppercase tracking-widest">
-                {segments.length} recordings
+                {isFiltered ? `${visibleSegments.length} of ${segments.length}` : segments.length} recordings
+                {isFiltered && (
+                  <button
+                    onClick={clearFilters}
+                    className="ml-4 normal-case tracking-normal text-stone-400 hover:text-stone-600"
+                  >
+                    Clear filters
+                  </button>
+                )}
               </div>
               <div className="space-y-6">
-                {segments.map((segment) => (
+                {visibleSegments.map((segment) => (
                   <AudioCard
                     key={segment.audioFile}
                     audioFile={segment.audioFile}
                     subject={segment.subject}
                     description={segment.description}
+                    tags={segment.tags}
                     duration={segment.duration}
-                    currentlyPlaying={currentlyPlaying}
-                    onPlay={setCurrentlyPlaying}
-                    onTimeUpdate={handleTimeUpdate}
+                    sessionId={segment.sessionId}
                     autoPlayAt={
                       autoPlayTarget?.audioFile === segment.audioFile 
                         ? autoPlayTarget.timestamp 
                         : undefined
                     }
                     onAutoPlayComplete={clearAutoPlayTarget}
+                    passage={
+                      activePassage?.audioFile === segment.audioFile
+                        ? activePassage
+                        : undefined
+                    }
+                    onPassageClear={clearActivePassage}
+                    onMetadataUpdate={handleMetadataUpdate}
                   />
                 ))}
               </div>
@@ -163,14 +337,26 @@ export default function Home() {
         </main>
 
         <footer className="border-t border-stone-200 mt-16">
-          <div className="max-w-5xl mx-auto px-8 py-8 text-center text-sm text-stone-400 italic">
-            In loving memory
+          <div className="max-w-5xl mx-auto px-8 py-8 text-center text-sm text-stone-400">
+            <div className="italic">In loving memory</div>
+            <div className="mt-3 flex justify-center gap-4 text-xs">
+              <span>The stories as a book:</span>
+              <a href="/api/book/epub" download className="hover:text-stone-600 transition-colors">EPUB</a>
+              <a href="/api/book/md" download className="hover:text-stone-600 transition-colors">Markdown</a>
+              <a href="/api/book/html" target="_blank" className="hover:text-stone-600 transition-colors">
+                Print
+              </a>
+            </div>
           </div>
         </footer>
 
         <ShareButton 
-          audioFile={currentlyPlaying} 
-          currentTime={currentPlaybackTime} 
+          audioFile={player.track?.audioFile ?? null} 
+          range={
+            activePassage && activePassage.audioFile === player.track?.audioFile
+              ? activePassage
+              : undefined
+          }
         />
       </div>
     </>
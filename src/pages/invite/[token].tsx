@@ -0,0 +1,132 @@
+import Head from "next/head";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function InvitePage() {
+  const router = useRouter();
+  const token = router.query.token as string | undefined;
+  const [name, setName] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchInvite = async () => {
+      try {
+        const response = await fetch(`/api/invites/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Invalid invite");
+        }
+        setName(data.name);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Invalid invite");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchInvite();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    if (passphrase !== confirmation) {
+      setError("The passphrases don't match");
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+
+    try {
+      const response = await fetch(`/api/invites/${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passphrase }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Something went wrong");
+      }
+      // Signed in by the response cookie - go to the collection
+      window.location.href = "/";
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Join - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div
+        className="min-h-screen bg-stone-50 flex items-center justify-center px-6"
+        style={{ fontFamily: "Georgia, serif" }}
+      >
+        <div className="w-full max-w-sm">
+          <div className="text-center mb-8">
+            <h1 className="text-2xl font-medium text-stone-800 mb-2">
+              Stories from the Life of S. K. Vedi
+            </h1>
+            {name && (
+              <p className="text-sm text-stone-500 italic">
+                Welcome, {name}. Choose a passphrase to sign in with.
+              </p>
+            )}
+          </div>
+
+          {loading && <div className="text-center text-stone-400 italic">Loading...</div>}
+
+          {!loading && !name && error && (
+            <p className="text-red-600 text-sm text-center">{error}</p>
+          )}
+
+          {name && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder={`Passphrase (at least ${MIN_PASSPHRASE_LENGTH} characters)`}
+                autoComplete="new-password"
+                autoFocus
+                className="w-full px-4 py-3 border border-stone-300 rounded-lg text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white text-center text-base"
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Repeat passphrase"
+                autoComplete="new-password"
+                className="w-full px-4 py-3 border border-stone-300 rounded-lg text-stone-800 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent bg-white text-center text-base"
+              />
+
+              {error && (
+                <p className="text-red-600 text-sm text-center">{error}</p>
+              )}
+
+              <button
+                type="submit"
+                disabled={saving || passphrase.length < MIN_PASSPHRASE_LENGTH}
+                className="w-full px-6 py-3 bg-stone-800 text-white rounded-lg hover:bg-stone-700 disabled:bg-stone-400 disabled:cursor-not-allowed transition-colors"
+              >
+                {saving ? "Saving..." : "Join"}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
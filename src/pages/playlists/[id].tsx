@@ -0,0 +1,249 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import PlaylistItems, { type PlaylistItem } from "@/components/PlaylistItems";
+
+interface Playlist {
+  id: string;
+  title: string;
+  description: string;
+  items: PlaylistItem[];
+  createdBy: { id: string; name: string };
+  share: { id: string; expiresAt: string } | null;
+}
+
+// One playlist: play it through, and for its creator and editors, arrange, rename and share it
+export default function PlaylistPage() {
+  const router = useRouter();
+  const id = router.query.id as string | undefined;
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [details, setDetails] = useState<{ title: string; description: string } | null>(null);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchPlaylist = async () => {
+      try {
+        const response = await fetch(`/api/playlists/${encodeURIComponent(id)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch playlist");
+        }
+        setPlaylist(data.playlist);
+        setCanEdit(data.canEdit);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      }
+    };
+
+    fetchPlaylist();
+  }, [id]);
+
+  // Send a change and show the playlist as the server has it afterwards
+  const change = async (path: string, method: string, body?: unknown) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/playlists/${encodeURIComponent(id!)}${path}`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update playlist");
+      }
+      setPlaylist(data.playlist);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      return false;
+    }
+  };
+
+  const handleMove = (itemId: string, offset: 1 | -1) => {
+    if (!playlist) return;
+    const itemIds = playlist.items.map((item) => item.id);
+    const from = itemIds.indexOf(itemId);
+    const to = from + offset;
+    if (to < 0 || to >= itemIds.length) return;
+    [itemIds[from], itemIds[to]] = [itemIds[to], itemIds[from]];
+    change("", "PATCH", { itemIds });
+  };
+
+  const handleSaveNote = async (itemId: string, note: string) => {
+    await change(`/items/${encodeURIComponent(itemId)}`, "PATCH", { note });
+  };
+
+  const handleRemove = (itemId: string) => {
+    change(`/items/${encodeURIComponent(itemId)}`, "DELETE");
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (details && (await change("", "PATCH", details))) {
+      setDetails(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!playlist || !confirm(`Delete “${playlist.title}”? This can't be undone.`)) return;
+    try {
+      const response = await fetch(`/api/playlists/${encodeURIComponent(playlist.id)}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete playlist");
+      }
+      router.push("/playlists");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const handleShare = async () => {
+    if (!playlist) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/playlists/${encodeURIComponent(playlist.id)}/share`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create share link");
+      }
+      const url = `${window.location.origin}/playlists/shared/${data.token}`;
+      setShareUrl(url);
+      setPlaylist({ ...playlist, share: { id: "", expiresAt: data.expiresAt } });
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  const handleStopSharing = async () => {
+    if (!playlist) return;
+    try {
+      const response = await fetch(`/api/playlists/${encodeURIComponent(playlist.id)}/share`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to stop sharing");
+      }
+      setShareUrl(null);
+      setPlaylist({ ...playlist, share: null });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>{`${playlist ? `${playlist.title} - ` : ""}Stories from the Life of S. K. Vedi`}</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/playlists" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; All playlists
+          </Link>
+
+          {!playlist && !error && <div className="text-stone-400 italic mt-8">Loading playlist...</div>}
+
+          {error && (
+            <div className="mt-8 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {playlist && (
+            <>
+              {details ? (
+                <form onSubmit={handleSaveDetails} className="mt-4 mb-8 space-y-3">
+                  <input
+                    type="text"
+                    value={details.title}
+                    onChange={(e) => setDetails({ ...details, title: e.target.value })}
+                    className="w-full px-3 py-2 text-xl border border-stone-200 rounded-lg focus:outline-none focus:border-amber-400"
+                  />
+                  <textarea
+                    value={details.description}
+                    onChange={(e) => setDetails({ ...details, description: e.target.value })}
+                    placeholder="Description (optional)"
+                    rows={3}
+                    className="w-full px-3 py-2 text-sm border border-stone-200 rounded-lg focus:outline-none focus:border-amber-400"
+                  />
+                  <div className="flex gap-3 text-sm">
+                    <button
+                      type="submit"
+                      disabled={!details.title.trim()}
+                      className="px-3 py-1.5 bg-stone-800 text-white rounded hover:bg-stone-700 disabled:bg-stone-300"
+                    >
+                      Save
+                    </button>
+                    <button type="button" onClick={() => setDetails(null)} className="text-stone-500 hover:text-stone-800">
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <>
+                  <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-1">{playlist.title}</h1>
+                  <p className="text-xs text-stone-400 mb-3">by {playlist.createdBy.name}</p>
+                  {playlist.description && (
+                    <p className="text-stone-600 whitespace-pre-line mb-4">{playlist.description}</p>
+                  )}
+                </>
+              )}
+
+              {canEdit && !details && (
+                <div className="flex flex-wrap items-center gap-4 text-sm text-stone-400 mb-8">
+                  <button
+                    onClick={() => setDetails({ title: playlist.title, description: playlist.description })}
+                    className="hover:text-stone-700"
+                  >
+                    Rename
+                  </button>
+                  <button onClick={handleShare} className="hover:text-stone-700">
+                    {copied ? "Link copied!" : playlist.share ? "New share link" : "Share"}
+                  </button>
+                  {playlist.share && (
+                    <>
+                      <span className="italic">
+                        Shared until {new Date(playlist.share.expiresAt).toLocaleDateString()}
+                      </span>
+                      <button onClick={handleStopSharing} className="hover:text-red-600">
+                        Stop sharing
+                      </button>
+                    </>
+                  )}
+                  <button onClick={handleDelete} className="hover:text-red-600">
+                    Delete
+                  </button>
+                </div>
+              )}
+
+              {shareUrl && (
+                <p className="mb-8 text-sm text-stone-500 break-all">
+                  Anyone with this link can listen until it expires, and can play the whole recordings these
+                  passages come from: <span className="text-stone-700">{shareUrl}</span>
+                </p>
+              )}
+
+              <PlaylistItems
+                items={playlist.items}
+                onMove={canEdit ? handleMove : undefined}
+                onSaveNote={canEdit ? handleSaveNote : undefined}
+                onRemove={canEdit ? handleRemove : undefined}
+              />
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
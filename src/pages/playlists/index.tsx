@@ -0,0 +1,139 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { formatShortDuration } from "@/lib/timeFormat";
+
+interface PlaylistSummary {
+  id: string;
+  title: string;
+  description: string;
+  itemCount: number;
+  totalDuration: number;
+  createdBy: { id: string; name: string };
+  updatedAt: string;
+}
+
+// Everyone's playlists, most recently changed first, and a form to start a new one
+export default function PlaylistsPage() {
+  const router = useRouter();
+  const [playlists, setPlaylists] = useState<PlaylistSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [title, setTitle] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    const fetchPlaylists = async () => {
+      try {
+        const response = await fetch("/api/playlists");
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch playlists");
+        }
+        setPlaylists(data.playlists);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlaylists();
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/playlists", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create playlist");
+      }
+      router.push(`/playlists/${data.playlist.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unknown error");
+      setCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Playlists - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-2">Playlists</h1>
+          <p className="text-sm text-stone-500 mb-8">
+            Passages gathered from any of the recordings, to play back to back. Add one from a
+            search result or a transcript selection.
+          </p>
+
+          <form onSubmit={handleCreate} className="flex gap-3 mb-8">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="New playlist, e.g. Dada on partition"
+              className="flex-1 px-3 py-2 border border-stone-200 rounded-lg focus:outline-none focus:border-amber-400"
+            />
+            <button
+              type="submit"
+              disabled={creating || !title.trim()}
+              className="px-4 py-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700 disabled:bg-stone-300"
+            >
+              Create
+            </button>
+          </form>
+
+          {loading && <div className="text-stone-400 italic">Loading playlists...</div>}
+
+          {error && (
+            <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {!loading && playlists.length === 0 && !error && (
+            <div className="text-stone-400 italic">No playlists yet.</div>
+          )}
+
+          {playlists.length > 0 && (
+            <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+              {playlists.map((playlist) => (
+                <li key={playlist.id}>
+                  <Link
+                    href={`/playlists/${playlist.id}`}
+                    className="flex items-baseline gap-4 px-5 py-4 hover:bg-stone-50 transition-colors"
+                  >
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-lg text-stone-800 truncate">{playlist.title}</span>
+                      <span className="block text-xs text-stone-400">by {playlist.createdBy.name}</span>
+                    </span>
+                    <span className="text-sm text-stone-500">
+                      {playlist.itemCount} {playlist.itemCount === 1 ? "passage" : "passages"}
+                    </span>
+                    <span className="text-sm text-stone-400 tabular-nums w-28 text-right">
+                      {formatShortDuration(playlist.totalDuration)}
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,72 @@
+import Head from "next/head";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import PlaylistItems, { type PlaylistItem } from "@/components/PlaylistItems";
+
+interface SharedPlaylist {
+  title: string;
+  description: string;
+  items: PlaylistItem[];
+  expiresAt: string;
+}
+
+// Public landing page for a shared playlist: plays its passages without signing in
+export default function SharedPlaylistPage() {
+  const router = useRouter();
+  const token = router.query.token as string | undefined;
+  const [playlist, setPlaylist] = useState<SharedPlaylist | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchPlaylist = async () => {
+      try {
+        const response = await fetch(`/api/public/playlists/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "This link is no longer available");
+        }
+        setPlaylist(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "This link is no longer available");
+      }
+    };
+
+    fetchPlaylist();
+  }, [token]);
+
+  return (
+    <>
+      <Head>
+        <title>{`${playlist ? `${playlist.title} - ` : ""}Stories from the Life of S. K. Vedi`}</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <h1 className="text-2xl font-medium text-stone-800 tracking-tight mb-1">
+            Stories from the Life of S. K. Vedi
+          </h1>
+          <p className="text-sm text-stone-500 italic mb-10">A playlist shared with you</p>
+
+          {!playlist && !error && <div className="text-stone-400 italic">Loading...</div>}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {playlist && token && (
+            <>
+              <h2 className="text-3xl font-medium text-stone-800 tracking-tight mb-3">{playlist.title}</h2>
+              {playlist.description && (
+                <p className="text-stone-600 whitespace-pre-line mb-8">{playlist.description}</p>
+              )}
+              <PlaylistItems items={playlist.items} playlistToken={token} />
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import AudioCard from "@/components/AudioCard";
+import { formatDuration } from "@/lib/timeFormat";
+
+interface Segment {
+  audioFile: string;
+  sessionId: string;
+  subject: string;
+  description: string;
+  duration: number;
+  segmentIndex: number;
+  tags: string[];
+}
+
+interface SessionSummary {
+  sessionId: string;
+  label: string;
+  totalDuration: number;
+  totalWords: number;
+  segmentCount: number;
+}
+
+// One session's segments in the order they were recorded
+export default function SessionPage() {
+  const router = useRouter();
+  const sessionId = router.query.sessionId as string | undefined;
+  const [session, setSession] = useState<SessionSummary | null>(null);
+  const [segments, setSegments] = useState<Segment[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const fetchSession = async () => {
+      try {
+        const response = await fetch(`/api/sessions/${encodeURIComponent(sessionId)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "Failed to fetch session");
+        }
+        setSession(data.session);
+        setSegments(data.segments);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      }
+    };
+
+    fetchSession();
+  }, [sessionId]);
+
+  const handleMetadataUpdate = useCallback(
+    (audioFile: string, metadata: Pick<Segment, "subject" | "description" | "tags">) => {
+      setSegments((prev) =>
+        prev.map((segment) => (segment.audioFile === audioFile ? { ...segment, ...metadata } : segment))
+      );
+    },
+    []
+  );
+
+  return (
+    <>
+      <Head>
+        <title>{`${session ? `${session.label} - ` : ""}Stories from the Life of S. K. Vedi`}</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/sessions" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; All sessions
+          </Link>
+
+          {!session && !error && <div className="text-stone-400 italic mt-8">Loading session...</div>}
+
+          {error && (
+            <div className="mt-8 bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {session && (
+            <>
+              <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-2">
+                {session.label}
+              </h1>
+              <p className="text-sm text-stone-500 mb-10">
+                {session.segmentCount} {session.segmentCount === 1 ? "story" : "stories"} &middot;{" "}
+                {formatDuration(session.totalDuration)} &middot; {session.totalWords.toLocaleString()} words
+              </p>
+              <div className="space-y-6">
+                {segments.map((segment) => (
+                  <AudioCard
+                    key={segment.audioFile}
+                    audioFile={segment.audioFile}
+                    subject={segment.subject}
+                    description={segment.description}
+                    tags={segment.tags}
+                    duration={segment.duration}
+                    sessionId={segment.sessionId}
+                    onMetadataUpdate={handleMetadataUpdate}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
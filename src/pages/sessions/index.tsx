@@ -0,0 +1,88 @@
+import Head from "next/head";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { formatDuration } from "@/lib/timeFormat";
+
+interface SessionSummary {
+  sessionId: string;
+  label: string;
+  totalDuration: number;
+  totalWords: number;
+  segmentCount: number;
+}
+
+// Every recording session, in date order, with its length and number of stories
+export default function SessionsOverview() {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSessions = async () => {
+      try {
+        const response = await fetch("/api/sessions");
+        if (!response.ok) {
+          throw new Error("Failed to fetch sessions");
+        }
+        const data = await response.json();
+        setSessions(data.sessions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Unknown error");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSessions();
+  }, []);
+
+  return (
+    <>
+      <Head>
+        <title>Sessions - Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <Link href="/" className="text-sm text-stone-400 hover:text-stone-600">
+            &larr; Back to the collection
+          </Link>
+          <h1 className="text-3xl font-medium text-stone-800 tracking-tight mt-4 mb-8">
+            Recording sessions
+          </h1>
+
+          {loading && <div className="text-stone-400 italic">Loading sessions...</div>}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && (
+            <ul className="divide-y divide-stone-200 bg-white border border-stone-200 rounded-lg">
+              {sessions.map((session) => (
+                <li key={session.sessionId}>
+                  <Link
+                    href={`/sessions/${encodeURIComponent(session.sessionId)}`}
+                    className="flex items-baseline gap-4 px-5 py-4 hover:bg-stone-50 transition-colors"
+                  >
+                    <span className="flex-1 text-lg text-stone-800">{session.label}</span>
+                    <span className="text-sm text-stone-500">
+                      {session.segmentCount} {session.segmentCount === 1 ? "story" : "stories"}
+                    </span>
+                    <span className="text-sm text-stone-400 tabular-nums w-24 text-right">
+                      {formatDuration(session.totalDuration)}
+                    </span>
+                    <span className="text-sm text-stone-400 tabular-nums w-28 text-right">
+                      {session.totalWords.toLocaleString()} words
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
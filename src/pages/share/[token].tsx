@@ -0,0 +1,80 @@
+import Head from "next/head";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import AudioCard from "@/components/AudioCard";
+
+interface SharedClip {
+  audioFile: string;
+  start: number | null;
+  end: number | null;
+  segment: {
+    subject: string;
+    description: string;
+    duration: number;
+  };
+}
+
+// Public landing page for a share link: plays the one clip it grants, with subtitles. The
+// server sends just the clip, so times on this page count from its start.
+export default function SharedClipPage() {
+  const router = useRouter();
+  const token = router.query.token as string | undefined;
+  const [clip, setClip] = useState<SharedClip | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchClip = async () => {
+      try {
+        const response = await fetch(`/api/public/shares/${encodeURIComponent(token)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || "This link is no longer available");
+        }
+        setClip(data);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "This link is no longer available");
+      }
+    };
+
+    fetchClip();
+  }, [token]);
+
+  return (
+    <>
+      <Head>
+        <title>{clip ? `${clip.segment.subject} - ` : ""}Stories from the Life of S. K. Vedi</title>
+      </Head>
+      <div className="min-h-screen bg-stone-50" style={{ fontFamily: "Georgia, serif" }}>
+        <main className="max-w-3xl mx-auto px-8 py-12">
+          <h1 className="text-2xl font-medium text-stone-800 tracking-tight mb-1">
+            Stories from the Life of S. K. Vedi
+          </h1>
+          <p className="text-sm text-stone-500 italic mb-10">A moment shared with you</p>
+
+          {!clip && !error && (
+            <div className="text-stone-400 italic">Loading...</div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700 text-center">
+              {error}
+            </div>
+          )}
+
+          {clip && token && (
+            <AudioCard
+              audioFile={clip.audioFile}
+              subject={clip.segment.subject}
+              description={clip.segment.description}
+              duration={(clip.end ?? clip.segment.duration) - (clip.start ?? 0)}
+              autoPlayAt={clip.start !== null ? 0 : undefined}
+              shareToken={token}
+            />
+          )}
+        </main>
+      </div>
+    </>
+  );
+}
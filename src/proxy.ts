@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE, verifySessionToken } from "@/lib/auth";
+import { isPathInPlaylist, verifyPlaylistToken } from "@/lib/playlists";
+import { getUserForSession } from "@/lib/users";
+
+// Login, logout and the session check must be reachable without a session
+const PUBLIC_PATHS = ["/api/auth", "/api/auth/logout"];
+// Invite and share links are opened by relatives who don't have an account yet
+const PUBLIC_PREFIXES = ["/api/invites/", "/api/public/"];
+
+export function proxy(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname) || PUBLIC_PREFIXES.some((prefix) => pathname.startsWith(prefix))) {
+    return NextResponse.next();
+  }
+
+  // Looking the user up (not just checking the signature) makes revocation take effect at once
+  const session = verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+  if (getUserForSession(session)) {
+    return NextResponse.next();
+  }
+
+  // A shared playlist's token (?share=) unlocks the segments its items come from. Share
+  // links for a single clip have their own endpoints under /api/public/shares.
+  const playlist = verifyPlaylistToken(request.nextUrl.searchParams.get("share"));
+  if (playlist && isPathInPlaylist(playlist, pathname)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+  }
+  return new NextResponse("Not authenticated", { status: 401 });
+}
+
+export const config = {
+  matcher: ["/api/:path*", "/audio/:path*"],
+};
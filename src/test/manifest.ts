@@ -0,0 +1,61 @@
+import type { Manifest, Segment, Word } from "@/lib/manifest";
+
+interface SegmentOptions {
+  sessionId?: string;
+  subject?: string;
+  description?: string;
+  segmentIndex?: number;
+  // Absolute time of the first word in the session recording
+  startTime?: number;
+  // Seconds from one word's start to the next
+  wordSeconds?: number;
+}
+
+// Words spoken at an even pace, starting at startTime
+export function makeWords(text: string, startTime = 0, wordSeconds = 0.5): Word[] {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, i) => ({
+      word,
+      start: startTime + i * wordSeconds,
+      end: startTime + i * wordSeconds + wordSeconds * 0.8,
+    }));
+}
+
+export function makeSegment(audioFile: string, text: string, options: SegmentOptions = {}): Segment & { sessionId: string } {
+  const startTime = options.startTime ?? 0;
+  const words = makeWords(text, startTime, options.wordSeconds);
+  const endTime = words.length > 0 ? words[words.length - 1].end : startTime;
+  return {
+    sessionId: options.sessionId ?? "21aug",
+    audioFile,
+    metadata: {
+      subject: options.subject ?? audioFile,
+      description: options.description ?? "",
+      segmentIndex: options.segmentIndex ?? 0,
+      duration: endTime - startTime,
+      startTime,
+      endTime,
+    },
+    transcript: { text, words },
+  };
+}
+
+// A manifest with the segments grouped into sessions by their sessionId
+export function makeManifest(segments: (Segment & { sessionId: string })[]): Manifest {
+  const sessions = new Map<string, Segment[]>();
+  for (const { sessionId, ...segment } of segments) {
+    sessions.set(sessionId, [...(sessions.get(sessionId) ?? []), segment]);
+  }
+  return {
+    createdAt: "2024-01-01T00:00:00.000Z",
+    totalSessions: sessions.size,
+    sessions: Array.from(sessions, ([sessionId, sessionSegments]) => ({
+      sessionId,
+      totalDuration: sessionSegments.reduce((sum, s) => sum + s.metadata.duration, 0),
+      totalWords: sessionSegments.reduce((sum, s) => sum + s.transcript.words.length, 0),
+      segments: sessionSegments,
+    })),
+  };
+}
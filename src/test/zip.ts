@@ -0,0 +1,43 @@
+import zlib from "zlib";
+
+export interface ReadEntry {
+  name: string;
+  // 0 stored, 8 deflated
+  method: number;
+  crc: number;
+  data: Buffer;
+}
+
+// Read an archive back through its central directory, as an unzip tool would. Throws on a
+// missing signature.
+export function readZip(zip: Buffer): ReadEntry[] {
+  const expectSignature = (offset: number, signature: number) => {
+    if (zip.readUInt32LE(offset) !== signature) {
+      throw new Error(`Expected signature ${signature.toString(16)} at ${offset}`);
+    }
+  };
+
+  const end = zip.length - 22;
+  expectSignature(end, 0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  let central = zip.readUInt32LE(end + 16);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expectSignature(central, 0x02014b50);
+    const method = zip.readUInt16LE(central + 10);
+    const crc = zip.readUInt32LE(central + 16);
+    const compressedSize = zip.readUInt32LE(central + 20);
+    const nameLength = zip.readUInt16LE(central + 28);
+    const name = zip.toString("utf-8", central + 46, central + 46 + nameLength);
+    const local = zip.readUInt32LE(central + 42);
+
+    expectSignature(local, 0x04034b50);
+    const dataStart = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    const stored = zip.subarray(dataStart, dataStart + compressedSize);
+    entries.push({ name, method, crc, data: method === 0 ? stored : zlib.inflateRawSync(stored) });
+
+    central += 46 + nameLength;
+  }
+  return entries;
+}